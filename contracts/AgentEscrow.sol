@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+interface IERC20 {
+    function transfer(address to, uint256 value) external returns (bool);
+    function transferFrom(address from, address to, uint256 value) external returns (bool);
+}
+
+/// @title AgentEscrow
+/// @notice Holds an agreed payment between two agents until the work is
+/// settled. The payer locks the tokens when a price is agreed; the payer or
+/// the arbiter (the validator judging the delivery) releases them to the
+/// payee, and the payee or the arbiter can refund them at any time. Once the
+/// deadline passes, anyone can refund a deal still locked.
+contract AgentEscrow {
+    enum Status { None, Locked, Released, Refunded }
+
+    struct Deal {
+        address payer;
+        address payee;
+        address arbiter;
+        address token;
+        uint256 amount;
+        uint64 deadline;
+        Status status;
+    }
+
+    event Locked(bytes32 indexed id, address indexed payer, address indexed payee, address token, uint256 amount, uint64 deadline);
+    event Released(bytes32 indexed id, uint256 paid, uint256 refunded);
+    event Refunded(bytes32 indexed id, uint256 amount);
+
+    mapping(bytes32 => Deal) public deals;
+
+    function lock(bytes32 id, address payee, address arbiter, address token, uint256 amount, uint64 deadline) external {
+        require(deals[id].status == Status.None, "deal exists");
+        require(payee != address(0) && payee != msg.sender, "invalid payee");
+        require(amount > 0, "zero amount");
+        require(deadline > block.timestamp, "deadline passed");
+
+        deals[id] = Deal(msg.sender, payee, arbiter, token, amount, deadline, Status.Locked);
+        require(IERC20(token).transferFrom(msg.sender, address(this), amount), "transfer failed");
+        emit Locked(id, msg.sender, payee, token, amount, deadline);
+    }
+
+    /// @notice Pay `paid` to the payee and return the rest to the payer.
+    function release(bytes32 id, uint256 paid) external {
+        Deal storage deal = deals[id];
+        require(deal.status == Status.Locked, "not locked");
+        require(msg.sender == deal.payer || msg.sender == deal.arbiter, "not payer or arbiter");
+        require(paid <= deal.amount, "exceeds locked amount");
+
+        deal.status = Status.Released;
+        uint256 refunded = deal.amount - paid;
+        if (paid > 0) require(IERC20(deal.token).transfer(deal.payee, paid), "transfer failed");
+        if (refunded > 0) require(IERC20(deal.token).transfer(deal.payer, refunded), "transfer failed");
+        emit Released(id, paid, refunded);
+    }
+
+    function refund(bytes32 id) external {
+        Deal storage deal = deals[id];
+        require(deal.status == Status.Locked, "not locked");
+        require(
+            msg.sender == deal.payee || msg.sender == deal.arbiter || block.timestamp >= deal.deadline,
+            "not payee or arbiter, and deadline not reached"
+        );
+
+        deal.status = Status.Refunded;
+        require(IERC20(deal.token).transfer(deal.payer, deal.amount), "transfer failed");
+        emit Refunded(id, deal.amount);
+    }
+}
@@ -0,0 +1,81 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title MockIdentityRegistry
+/// @notice ERC-8004 Identity Registry for local development. Agents are
+/// ERC-721 tokens with enumeration, so owner → agent ID lookups resolve in a
+/// single call. Owners can transfer them (no approvals), which is how an
+/// agent keeps its identity when its key is rotated.
+contract MockIdentityRegistry {
+    string public constant name = "ERC-8004 Agent (local)";
+    string public constant symbol = "AGENT";
+
+    event Transfer(address indexed from, address indexed to, uint256 indexed tokenId);
+    event Registered(uint256 indexed agentId, string agentURI, address indexed owner);
+    event URIUpdated(uint256 indexed agentId, string newURI, address indexed updatedBy);
+
+    uint256 public totalSupply;
+    mapping(uint256 => address) private _owners;
+    mapping(uint256 => string) private _uris;
+    mapping(address => uint256[]) private _owned;
+
+    function register(string calldata agentURI) external returns (uint256 agentId) {
+        agentId = ++totalSupply;
+        _owners[agentId] = msg.sender;
+        _uris[agentId] = agentURI;
+        _owned[msg.sender].push(agentId);
+        emit Transfer(address(0), msg.sender, agentId);
+        emit Registered(agentId, agentURI, msg.sender);
+    }
+
+    function setAgentURI(uint256 agentId, string calldata newURI) external {
+        require(ownerOf(agentId) == msg.sender, "not agent owner");
+        _uris[agentId] = newURI;
+        emit URIUpdated(agentId, newURI, msg.sender);
+    }
+
+    function ownerOf(uint256 tokenId) public view returns (address owner) {
+        owner = _owners[tokenId];
+        require(owner != address(0), "nonexistent agent");
+    }
+
+    function tokenURI(uint256 tokenId) external view returns (string memory) {
+        ownerOf(tokenId);
+        return _uris[tokenId];
+    }
+
+    function balanceOf(address owner) external view returns (uint256) {
+        return _owned[owner].length;
+    }
+
+    function tokenOfOwnerByIndex(address owner, uint256 index) external view returns (uint256) {
+        require(index < _owned[owner].length, "owner index out of bounds");
+        return _owned[owner][index];
+    }
+
+    function tokenByIndex(uint256 index) external view returns (uint256) {
+        require(index < totalSupply, "global index out of bounds");
+        return index + 1;
+    }
+
+    function transferFrom(address from, address to, uint256 tokenId) external {
+        require(ownerOf(tokenId) == from && from == msg.sender, "not agent owner");
+        require(to != address(0), "transfer to zero address");
+        uint256[] storage owned = _owned[from];
+        for (uint256 i = 0; i < owned.length; i++) {
+            if (owned[i] == tokenId) {
+                owned[i] = owned[owned.length - 1];
+                owned.pop();
+                break;
+            }
+        }
+        _owners[tokenId] = to;
+        _owned[to].push(tokenId);
+        emit Transfer(from, to, tokenId);
+    }
+
+    /// ERC-165 and ERC-721 Enumerable
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return interfaceId == 0x01ffc9a7 || interfaceId == 0x780e9d63;
+    }
+}
@@ -0,0 +1,132 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+interface IIdentityRegistry {
+    function ownerOf(uint256 tokenId) external view returns (address);
+}
+
+/// @title MockReputationRegistry
+/// @notice ERC-8004 Reputation Registry for local development: the
+/// `giveFeedback` / `readAllFeedback` subset the SDK's reputation client uses.
+contract MockReputationRegistry {
+    struct Feedback {
+        address client;
+        uint64 index;
+        int128 value;
+        uint8 valueDecimals;
+        string tag1;
+        string tag2;
+        bool revoked;
+    }
+
+    event NewFeedback(
+        uint256 indexed agentId,
+        address indexed clientAddress,
+        uint64 feedbackIndex,
+        int128 value,
+        uint8 valueDecimals,
+        string indexed indexedTag1,
+        string tag1,
+        string tag2,
+        string endpoint,
+        string feedbackURI,
+        bytes32 feedbackHash
+    );
+    event FeedbackRevoked(uint256 indexed agentId, address indexed clientAddress, uint64 indexed feedbackIndex);
+
+    IIdentityRegistry public immutable identityRegistry;
+    mapping(uint256 => Feedback[]) private _feedback;
+
+    constructor(address identityRegistry_) {
+        identityRegistry = IIdentityRegistry(identityRegistry_);
+    }
+
+    function giveFeedback(
+        uint256 agentId,
+        int128 value,
+        uint8 valueDecimals,
+        string calldata tag1,
+        string calldata tag2,
+        string calldata endpoint,
+        string calldata feedbackURI,
+        bytes32 feedbackHash
+    ) external {
+        require(identityRegistry.ownerOf(agentId) != msg.sender, "self-feedback not allowed");
+        uint64 index = uint64(_feedback[agentId].length);
+        _feedback[agentId].push(Feedback(msg.sender, index, value, valueDecimals, tag1, tag2, false));
+        emit NewFeedback(agentId, msg.sender, index, value, valueDecimals, tag1, tag1, tag2, endpoint, feedbackURI, feedbackHash);
+    }
+
+    function revokeFeedback(uint256 agentId, uint64 feedbackIndex) external {
+        Feedback storage entry = _feedback[agentId][feedbackIndex];
+        require(entry.client == msg.sender, "not feedback author");
+        entry.revoked = true;
+        emit FeedbackRevoked(agentId, msg.sender, feedbackIndex);
+    }
+
+    /// Empty `clientAddresses` / tags match everything
+    function readAllFeedback(
+        uint256 agentId,
+        address[] calldata clientAddresses,
+        string calldata tag1,
+        string calldata tag2,
+        bool includeRevoked
+    )
+        external
+        view
+        returns (
+            address[] memory clients,
+            uint64[] memory feedbackIndexes,
+            int128[] memory values,
+            uint8[] memory valueDecimals,
+            string[] memory tag1s,
+            string[] memory tag2s,
+            bool[] memory revokedStatuses
+        )
+    {
+        Feedback[] storage all = _feedback[agentId];
+        bool[] memory keep = new bool[](all.length);
+        uint256 count;
+        for (uint256 i = 0; i < all.length; i++) {
+            keep[i] = _matches(all[i], clientAddresses, tag1, tag2, includeRevoked);
+            if (keep[i]) count++;
+        }
+
+        clients = new address[](count);
+        feedbackIndexes = new uint64[](count);
+        values = new int128[](count);
+        valueDecimals = new uint8[](count);
+        tag1s = new string[](count);
+        tag2s = new string[](count);
+        revokedStatuses = new bool[](count);
+        uint256 j;
+        for (uint256 i = 0; i < all.length; i++) {
+            if (!keep[i]) continue;
+            clients[j] = all[i].client;
+            feedbackIndexes[j] = all[i].index;
+            values[j] = all[i].value;
+            valueDecimals[j] = all[i].valueDecimals;
+            tag1s[j] = all[i].tag1;
+            tag2s[j] = all[i].tag2;
+            revokedStatuses[j] = all[i].revoked;
+            j++;
+        }
+    }
+
+    function _matches(
+        Feedback storage entry,
+        address[] calldata clientAddresses,
+        string calldata tag1,
+        string calldata tag2,
+        bool includeRevoked
+    ) private view returns (bool) {
+        if (entry.revoked && !includeRevoked) return false;
+        if (bytes(tag1).length > 0 && keccak256(bytes(entry.tag1)) != keccak256(bytes(tag1))) return false;
+        if (bytes(tag2).length > 0 && keccak256(bytes(entry.tag2)) != keccak256(bytes(tag2))) return false;
+        if (clientAddresses.length == 0) return true;
+        for (uint256 i = 0; i < clientAddresses.length; i++) {
+            if (clientAddresses[i] == entry.client) return true;
+        }
+        return false;
+    }
+}
@@ -0,0 +1,100 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+interface IIdentityRegistry {
+    function ownerOf(uint256 tokenId) external view returns (address);
+}
+
+/// @title MockValidationRegistry
+/// @notice ERC-8004 Validation Registry for local development: validators
+/// stake native currency, servers request validation of a data hash and the
+/// validator's owner answers with a 0-100 score. No expiry or slashing.
+contract MockValidationRegistry {
+    uint256 public constant MIN_VALIDATOR_STAKE = 0.01 ether;
+
+    struct ValidatorInfo {
+        uint256 stakedAmount;
+        uint256 lockedAmount;
+        uint256 totalValidations;
+        uint256 totalSlashed;
+        bool isActive;
+    }
+
+    struct ValidationRequest {
+        uint256 agentValidatorId;
+        uint256 agentServerId;
+        bytes32 dataHash;
+        uint256 timestamp;
+        bool responded;
+        uint256 reward;
+    }
+
+    event ValidatorStaked(uint256 indexed validatorId, uint256 amount, uint256 totalStake);
+    event ValidationRequestEvent(uint256 indexed validatorId, uint256 indexed serverId, bytes32 indexed dataHash, uint256 reward);
+    event ValidationResponseEvent(uint256 indexed validatorId, uint256 indexed serverId, bytes32 indexed dataHash, uint8 response);
+
+    IIdentityRegistry public immutable identityRegistry;
+    mapping(uint256 => ValidatorInfo) private _validators;
+    mapping(bytes32 => ValidationRequest) private _requests;
+    mapping(bytes32 => uint8) private _responses;
+
+    constructor(address identityRegistry_) {
+        identityRegistry = IIdentityRegistry(identityRegistry_);
+    }
+
+    function getMinValidatorStake() external pure returns (uint256) {
+        return MIN_VALIDATOR_STAKE;
+    }
+
+    function stakeAsValidator(uint256 validatorId) external payable {
+        require(identityRegistry.ownerOf(validatorId) == msg.sender, "not validator owner");
+        ValidatorInfo storage info = _validators[validatorId];
+        info.stakedAmount += msg.value;
+        info.isActive = info.stakedAmount >= MIN_VALIDATOR_STAKE;
+        emit ValidatorStaked(validatorId, msg.value, info.stakedAmount);
+    }
+
+    function validationRequest(uint256 agentValidatorId, uint256 agentServerId, bytes32 dataHash) external payable {
+        require(_validators[agentValidatorId].isActive, "validator not active");
+        require(identityRegistry.ownerOf(agentServerId) == msg.sender, "not server owner");
+        require(_requests[dataHash].timestamp == 0, "request exists");
+        _requests[dataHash] = ValidationRequest(agentValidatorId, agentServerId, dataHash, block.timestamp, false, msg.value);
+        emit ValidationRequestEvent(agentValidatorId, agentServerId, dataHash, msg.value);
+    }
+
+    function validationResponse(bytes32 dataHash, uint8 response) external {
+        ValidationRequest storage request = _requests[dataHash];
+        require(request.timestamp != 0, "unknown request");
+        require(!request.responded, "already responded");
+        require(identityRegistry.ownerOf(request.agentValidatorId) == msg.sender, "not validator owner");
+        require(response <= 100, "response out of range");
+
+        request.responded = true;
+        _responses[dataHash] = response;
+        _validators[request.agentValidatorId].totalValidations++;
+        emit ValidationResponseEvent(request.agentValidatorId, request.agentServerId, dataHash, response);
+
+        if (request.reward > 0) {
+            (bool sent, ) = msg.sender.call{value: request.reward}("");
+            require(sent, "reward transfer failed");
+        }
+    }
+
+    function getValidatorInfo(uint256 validatorId) external view returns (ValidatorInfo memory) {
+        return _validators[validatorId];
+    }
+
+    function getValidationRequest(bytes32 dataHash) external view returns (ValidationRequest memory) {
+        return _requests[dataHash];
+    }
+
+    function isValidationPending(bytes32 dataHash) external view returns (bool exists, bool pending) {
+        exists = _requests[dataHash].timestamp != 0;
+        pending = exists && !_requests[dataHash].responded;
+    }
+
+    function getValidationResponse(bytes32 dataHash) external view returns (bool hasResponse, uint8 response) {
+        hasResponse = _requests[dataHash].responded;
+        response = _responses[dataHash];
+    }
+}
@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+interface IERC20 {
+    function transferFrom(address from, address to, uint256 value) external returns (bool);
+}
+
+/// @title SpendingDelegation
+/// @notice Lets an owner give an agent a budget instead of funds. The owner
+/// approves this contract and delegates up to `amount` of a token to the
+/// agent until `validUntil`; the agent draws from the owner's balance as it
+/// pays, and the owner can revoke whatever is left at any time.
+contract SpendingDelegation {
+    struct Delegation {
+        uint256 remaining;
+        uint64 validUntil;
+    }
+
+    event Delegated(address indexed owner, address indexed agent, address indexed token, uint256 amount, uint64 validUntil);
+    event Revoked(address indexed owner, address indexed agent, address indexed token);
+    event Drawn(address indexed owner, address indexed agent, address indexed token, uint256 amount, uint256 remaining);
+
+    /// owner => agent => token => delegation
+    mapping(address => mapping(address => mapping(address => Delegation))) public delegations;
+
+    /// @notice Replace any earlier delegation of `token` to `agent`.
+    function delegate(address agent, address token, uint256 amount, uint64 validUntil) external {
+        require(agent != address(0) && agent != msg.sender, "invalid agent");
+        require(validUntil > block.timestamp, "already expired");
+
+        delegations[msg.sender][agent][token] = Delegation(amount, validUntil);
+        emit Delegated(msg.sender, agent, token, amount, validUntil);
+    }
+
+    function revoke(address agent, address token) external {
+        delete delegations[msg.sender][agent][token];
+        emit Revoked(msg.sender, agent, token);
+    }
+
+    /// @notice Move `amount` of the owner's tokens to the calling agent.
+    function draw(address owner, address token, uint256 amount) external {
+        Delegation storage delegation = delegations[owner][msg.sender][token];
+        require(block.timestamp < delegation.validUntil, "no active delegation");
+        require(amount <= delegation.remaining, "exceeds delegated amount");
+
+        delegation.remaining -= amount;
+        require(IERC20(token).transferFrom(owner, msg.sender, amount), "token transfer failed");
+        emit Drawn(owner, msg.sender, token, amount, delegation.remaining);
+    }
+}
@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+interface IERC20 {
+    function transferFrom(address from, address to, uint256 value) external returns (bool);
+}
+
+interface IERC1271 {
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view returns (bytes4);
+}
+
+/// @title X402Relayer
+/// @notice x402 "exact" scheme relayer for local development. Payers sign an
+/// EIP-712 `TransferWithAuthorization` against this contract's domain
+/// (name "A402", version "1") and approve it for the amount; the facilitator then
+/// submits the authorization and the relayer pulls the tokens.
+/// @dev The signed message doesn't name the token, matching the SDK's payload,
+/// so the facilitator is trusted to pass the asset from the payment requirements.
+/// Payers that are contracts (ERC-4337 smart accounts) are checked with
+/// EIP-1271 instead of `ecrecover`.
+contract X402Relayer {
+    bytes32 public constant TRANSFER_WITH_AUTHORIZATION_TYPEHASH = keccak256(
+        "TransferWithAuthorization(address from,address to,uint256 value,uint256 validAfter,uint256 validBefore,bytes32 nonce)"
+    );
+    bytes32 public immutable DOMAIN_SEPARATOR;
+
+    event AuthorizationUsed(address indexed authorizer, bytes32 indexed nonce);
+    event PaymentSettled(address indexed token, address indexed from, address indexed to, uint256 value, bytes32 nonce);
+
+    mapping(address => mapping(bytes32 => bool)) public authorizationState;
+
+    constructor() {
+        DOMAIN_SEPARATOR = keccak256(
+            abi.encode(
+                keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                keccak256(bytes("A402")),
+                keccak256(bytes("1")),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+
+    function transferWithAuthorization(
+        address token,
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp > validAfter, "authorization not yet valid");
+        require(block.timestamp < validBefore, "authorization expired");
+        require(!authorizationState[from][nonce], "authorization used");
+
+        bytes32 structHash = keccak256(
+            abi.encode(TRANSFER_WITH_AUTHORIZATION_TYPEHASH, from, to, value, validAfter, validBefore, nonce)
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR, structHash));
+        if (from.code.length > 0) {
+            require(IERC1271(from).isValidSignature(digest, signature) == IERC1271.isValidSignature.selector, "invalid signature");
+        } else {
+            require(signature.length == 65, "invalid signature length");
+            bytes32 r = bytes32(signature[0:32]);
+            bytes32 s = bytes32(signature[32:64]);
+            uint8 v = uint8(signature[64]);
+            address signer = ecrecover(digest, v, r, s);
+            require(signer != address(0) && signer == from, "invalid signature");
+        }
+
+        authorizationState[from][nonce] = true;
+        emit AuthorizationUsed(from, nonce);
+        require(IERC20(token).transferFrom(from, to, value), "token transfer failed");
+        emit PaymentSettled(token, from, to, value, nonce);
+    }
+}
@@ -0,0 +1,72 @@
+#!/bin/bash
+set -e
+
+# Deploys the mock ERC-8004 registries, EIP-3009 USDT and USDC mocks, the
+# x402 relayer, the payment escrow and the spending delegation contract to a
+# local node, funds the dev owner and writes .env.anvil.local
+# for `npm run dev:local`. Needs Foundry (forge, cast) and a running node:
+#   anvil    (or: npx hardhat node)
+
+RPC_URL="${RPC_URL:-http://127.0.0.1:8545}"
+# anvil / hardhat account #0 — also the owner wallet in the app
+DEPLOYER_KEY="${DEPLOYER_KEY:-0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80}"
+OWNER_ADDRESS="$(cast wallet address --private-key "$DEPLOYER_KEY")"
+# 1,000,000 of each token (6 decimals)
+OWNER_MINT="${OWNER_MINT:-1000000000000}"
+
+if ! cast chain-id --rpc-url "$RPC_URL" > /dev/null 2>&1; then
+  echo "❌ No node at $RPC_URL — start one with: anvil"
+  exit 1
+fi
+
+deploy() {
+  local contract="$1"
+  shift
+  forge create "contracts/$contract.sol:$contract" \
+    --rpc-url "$RPC_URL" --private-key "$DEPLOYER_KEY" --broadcast --json \
+    ${1:+--constructor-args "$@"} \
+    | sed -n 's/.*"deployedTo": *"\(0x[0-9a-fA-F]*\)".*/\1/p'
+}
+
+echo "📦 Deploying local contracts to $RPC_URL..."
+IDENTITY="$(deploy MockIdentityRegistry)"
+REPUTATION="$(deploy MockReputationRegistry "$IDENTITY")"
+VALIDATION="$(deploy MockValidationRegistry "$IDENTITY")"
+USDT="$(deploy MockToken "Tether USD (local)" USDT 6)"
+USDC="$(deploy MockToken "USD Coin (local)" USDC 6)"
+RELAYER="$(deploy X402Relayer)"
+ESCROW="$(deploy AgentEscrow)"
+DELEGATION="$(deploy SpendingDelegation)"
+
+for address in "$IDENTITY" "$REPUTATION" "$VALIDATION" "$USDT" "$USDC" "$RELAYER" "$ESCROW" "$DELEGATION"; do
+  if [ -z "$address" ]; then
+    echo "❌ A deployment failed — see the forge output above"
+    exit 1
+  fi
+done
+
+echo "💰 Minting USDT and USDC to owner $OWNER_ADDRESS..."
+for token in "$USDT" "$USDC"; do
+  cast send "$token" "mint(address,uint256)" "$OWNER_ADDRESS" "$OWNER_MINT" \
+    --rpc-url "$RPC_URL" --private-key "$DEPLOYER_KEY" > /dev/null
+done
+
+cat > .env.anvil.local <<ENV
+VITE_DEFAULT_NETWORK=anvil
+VITE_NETWORK_OVERRIDES={"anvil":{"rpcUrl":"$RPC_URL","erc8004":{"identityRegistry":"$IDENTITY","reputationRegistry":"$REPUTATION","validationRegistry":"$VALIDATION"},"x402":{"defaultToken":"$USDT","verifyingContract":"$RELAYER"},"tokens":[{"symbol":"USDT","address":"$USDT"},{"symbol":"USDC","address":"$USDC"}],"escrow":"$ESCROW","delegation":"$DELEGATION"}}
+ENV
+
+echo ""
+echo "✅ Local contracts deployed:"
+echo "   Identity registry:   $IDENTITY"
+echo "   Reputation registry: $REPUTATION"
+echo "   Validation registry: $VALIDATION"
+echo "   USDT (EIP-3009):     $USDT"
+echo "   USDC (EIP-3009):     $USDC"
+echo "   x402 relayer:        $RELAYER"
+echo "   Escrow:              $ESCROW"
+echo "   Delegation:          $DELEGATION"
+echo ""
+echo "Wrote .env.anvil.local. To start the demo against it:"
+echo "  npm run dev:local"
+echo ""
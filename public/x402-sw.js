@@ -0,0 +1,46 @@
+/*
+ * Service worker that gives in-page agents real HTTP endpoints.
+ * Same-origin requests under /x402/<agent address>/ are handed to each open
+ * tab in turn over a MessageChannel; the tab hosting that agent answers with
+ * the response, the others decline. Keeps no state, so it is safe for the
+ * browser to stop and restart it between requests.
+ */
+const PREFIX = '/x402/';
+const TIMEOUT_MS = 120000;
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('fetch', event => {
+  const url = new URL(event.request.url);
+  if (url.origin !== self.location.origin || !url.pathname.startsWith(PREFIX)) return;
+  event.respondWith(forward(event.request));
+});
+
+function ask(client, request) {
+  return new Promise(resolve => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => resolve(null), TIMEOUT_MS);
+    channel.port1.onmessage = event => { clearTimeout(timer); resolve(event.data); };
+    client.postMessage({ type: 'x402-request', request }, [channel.port2]);
+  });
+}
+
+async function forward(request) {
+  const serialized = {
+    method: request.method,
+    url: request.url,
+    headers: [...request.headers],
+    body: request.method === 'GET' || request.method === 'HEAD' ? null : await request.text(),
+  };
+  const clients = await self.clients.matchAll({ type: 'window' });
+  for (const client of clients) {
+    const reply = await ask(client, serialized);
+    if (reply && reply.served) return new Response(reply.body, { status: reply.status, headers: reply.headers });
+  }
+  const address = new URL(request.url).pathname.slice(PREFIX.length).split('/')[0];
+  return new Response(JSON.stringify({ error: `No open tab is serving agent ${address}` }), {
+    status: 404,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -2,20 +2,44 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { OxGasAuth, OxGasClient, type WalletInfo } from '@0xgasless/core';
 import {
   AbstractSigner,
-  Wallet,
   JsonRpcProvider,
   Contract,
+  formatUnits,
   parseEther,
   parseUnits,
   TypedDataEncoder,
+  Wallet,
   type Provider,
+  type Signer,
   type TransactionRequest,
   type TypedDataDomain,
   type TypedDataField,
 } from 'ethers';
-import { useAgent } from './hooks/useAgent';
-import { AgentMessage } from './types/agent';
-import { FUJI_RPC_URL, USDT_TOKEN_ADDRESS } from './config/fuji';
+import { useAgents } from './hooks/useAgents';
+import { useAgentRegistry } from './hooks/useAgentRegistry';
+import { Keystore, useKeystore } from './hooks/useKeystore';
+import { useAgentDirectory } from './hooks/useAgentDirectory';
+import { loadPlaintextKeys, ROLE_LABELS } from './services/agentRegistry';
+import { MIN_PASSPHRASE_LENGTH } from './services/keystore';
+import { BUILTIN_SCENARIOS, loadScenarioFile } from './services/scenarios';
+import { describeIntent } from './services/paymentIntent';
+import { createBroadcastChannelTransport, createEnvelopeId, createWebSocketTransport } from './services/transport';
+import { createCardStorage } from './services/cardStorage';
+import { DiscoveredAgent, searchAgents } from './services/discovery';
+import { chainNow, Escrow } from './services/escrow';
+import { Delegation, delegationActive, grantDelegation, readDelegations, revokeDelegation } from './services/delegation';
+import { Allowance, readAllowances } from './services/allowances';
+import { createSmartAccountSigner, RelayerSession, sessionActive, smartAccountAddressOf, smartAccountsSupported } from './services/smartAccount';
+import { paidEndpointUrl, startPaidEndpointHost } from './services/paidEndpoints';
+import { downloadReceipt, invoiceNumber, openInvoice, RECEIPT_METHOD_LABELS } from './services/receipts';
+import { buildTranscript, downloadTranscript, loadTranscriptFile, verifyTranscript } from './services/transcript';
+import { DEFAULT_LLM_CONFIG, DEFAULT_LLM_CONFIGS, LLM_PROVIDER_LABELS, needsOpenRouterKey } from './services/llm';
+import { DEFAULT_SPENDING_POLICY, describePolicy } from './services/spendingPolicy';
+import { AgentMessage, AgentProfile, AgentRole, AgentState, ApprovalDecision, LLMConfig, LLMProviderKind, PendingApproval, SpendingPolicy } from './types/agent';
+import { Scenario } from './types/scenario';
+import { PaymentReceipt } from './types/receipt';
+import { AgentCard as AgentCardFile } from './types/agentCard';
+import { defaultTokenOf, explorerTxUrl, loadActiveNetwork, missingContracts, NETWORKS, NetworkDefinition, saveActiveNetwork, tokenBySymbol, tokenSymbols } from './config/networks';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -35,6 +59,30 @@ import {
   CircleDot,
   Copy,
   Check,
+  Star,
+  ShieldCheck,
+  Plus,
+  Trash2,
+  Upload,
+  Wrench,
+  Download,
+  FileCheck,
+  IdCard,
+  Search,
+  RefreshCw,
+  Lock,
+  Gauge,
+  Globe,
+  Receipt,
+  Printer,
+  X,
+  Wallet as WalletIcon,
+  KeyRound,
+  Unlock,
+  RotateCw,
+  Zap,
+  Timer,
+  Handshake,
 } from 'lucide-react';
 
 const TOKEN_ABI = [
@@ -44,13 +92,24 @@ const TOKEN_ABI = [
   'function approve(address spender, uint256 amount) returns (bool)',
 ];
 
-const client = new OxGasClient({
-  apiKey: import.meta.env.VITE_0XGAS_API_KEY || 'your-0xgas-api-key',
-  chainId: 43113, // Fuji
-  bundlerUrl: 'https://bundler.0xgasless.com/43113',
-  paymasterUrl: `https://paymaster.0xgasless.com/v1/43113/rpc/${import.meta.env.VITE_0XGAS_API_KEY}`,
-  debug: true,
-});
+// Minimum validator score (0-100) a delivery needs before payment is released
+const VALIDATION_PASS_SCORE = 60;
+
+// What a freelancer charges for one brief from its paid endpoint, in whole units of any accepted token
+const RESEARCH_PRICE = 1;
+
+// The owner's 0xGasless smart wallet; null on networks without a bundler/paymaster
+function createOxGasClient(network: NetworkDefinition): OxGasClient | null {
+  if (!network.oxgas) return null;
+  return new OxGasClient({
+    apiKey: import.meta.env.VITE_0XGAS_API_KEY || 'your-0xgas-api-key',
+    chainId: network.chainId,
+    bundlerUrl: network.oxgas.bundlerUrl,
+    paymasterUrl: network.oxgas.paymasterUrl,
+    rpcUrl: network.rpcUrl,
+    debug: true,
+  });
+}
 
 /**
  * Adapter to make OxGasAuth compatible with ethers.Signer
@@ -131,30 +190,77 @@ class OxGasEthersSigner extends AbstractSigner {
 }
 
 function App() {
+  const [network, setNetwork] = useState(loadActiveNetwork);
+  const keystore = useKeystore();
+  const switchNetwork = (name: string) => {
+    saveActiveNetwork(name);
+    setNetwork(NETWORKS[name]);
+  };
+  // Nothing that holds an agent key is mounted while the keystore is locked
+  if (keystore.status !== 'unlocked') return <KeystoreGate keystore={keystore} />;
+  // Remounting per network scopes every piece of agent state to it
   return (
-    <AgentDemo />
+    <AgentDemo key={network.name} network={network} onNetworkChange={switchNetwork} keystore={keystore} />
   );
 }
 
 // ---------- helpers ----------
 
+// Native gas token and every configured payment token, by symbol
+type Balance = { native: string; tokens: Record<string, string> };
+
+const EMPTY_BALANCE: Balance = { native: '0', tokens: {} };
+
+function holdsTokens(balance: Balance): boolean {
+  return Object.values(balance.tokens).some(amount => Number(amount) > 0);
+}
+
+// "12.00 USDT · 3.50 USDC"
+function describeTokens(balance: Balance, network: NetworkDefinition): string {
+  return tokenSymbols(network).map(symbol => `${balance.tokens[symbol] ?? '0'} ${symbol}`).join(' · ');
+}
+
+// Sidebar presentation per agent role (labels come from the active scenario)
+const ROLE_META: Record<AgentRole, { color: 'violet' | 'emerald'; fundToken: string }> = {
+  employer: { color: 'violet', fundToken: '20' },
+  freelancer: { color: 'emerald', fundToken: '5' },
+};
+
+const SCENARIO_STORAGE_KEY = '0xgasless_scenario';
+const METERING_STORAGE_KEY = '0xgasless_metering';
+
+// Metered-run settings; chunk count and cap start from the scenario's defaults when switched on
+type MeteringSettings = { enabled: boolean; chunks: number; chunkPriceCap: number };
+
+function loadMeteringSettings(): MeteringSettings {
+  try {
+    return { enabled: false, chunks: 3, chunkPriceCap: 2, ...JSON.parse(localStorage.getItem(METERING_STORAGE_KEY) || '{}') };
+  } catch {
+    return { enabled: false, chunks: 3, chunkPriceCap: 2 };
+  }
+}
+
+// Running total of a metered delivery
+type Meter = { delivered: number; chunks: number; paid: number; total: number; token: string };
+
 async function fetchBalances(
   provider: Provider,
   address: string,
-): Promise<{ avax: string; usdt: string }> {
-  let avax = '0';
-  let usdt = '0';
+  network: NetworkDefinition,
+): Promise<Balance> {
+  let native = '0';
+  const tokens: Record<string, string> = {};
   try {
     const bal = await provider.getBalance(address);
-    avax = (Number(bal) / 1e18).toFixed(4);
+    native = (Number(bal) / 1e18).toFixed(4);
   } catch { /* ignore */ }
-  try {
-    const token = new Contract(USDT_TOKEN_ADDRESS, TOKEN_ABI, provider);
-    const bal = await token.balanceOf(address);
-    const dec = await token.decimals();
-    usdt = (Number(bal) / 10 ** Number(dec)).toFixed(2);
-  } catch { /* ignore */ }
-  return { avax, usdt };
+  await Promise.all(network.tokens.filter(t => t.address).map(async token => {
+    try {
+      const bal = await new Contract(token.address, TOKEN_ABI, provider).balanceOf(address);
+      tokens[token.symbol] = Number(formatUnits(bal, token.decimals)).toFixed(2);
+    } catch { /* ignore */ }
+  }));
+  return { native, tokens };
 }
 
 function truncAddr(addr: string) {
@@ -164,13 +270,20 @@ function truncAddr(addr: string) {
 
 // ---------- Main Demo ----------
 
-function AgentDemo() {
+function AgentDemo({ network, onNetworkChange, keystore }: { network: NetworkDefinition; onNetworkChange: (name: string) => void; keystore: Keystore }) {
+  const [client] = useState(() => createOxGasClient(network));
+  const missing = missingContracts(network);
   const [ready, setReady] = useState(false);
   const [authenticated, setAuthenticated] = useState(false);
   const [wallet, setWallet] = useState<WalletInfo | null>(null);
 
   useEffect(() => {
     setReady(true);
+    // Dev chains have a pre-funded owner key instead of a 0xGasless login
+    if (!client) {
+      setAuthenticated(!!network.devAccounts);
+      return;
+    }
     setAuthenticated(client.isLoggedIn);
     setWallet(client.auth.getWalletInfo());
 
@@ -180,9 +293,10 @@ function AgentDemo() {
     });
 
     return () => unsub();
-  }, []);
+  }, [client, network]);
 
   const login = async () => {
+    if (!client) return;
     try {
       const w = await client.login();
       setWallet(w);
@@ -192,17 +306,34 @@ function AgentDemo() {
     }
   };
   const [openRouterKey] = useState(import.meta.env.VITE_OPENROUTER_API_KEY || '');
-  const agentA = useAgent('agentA');
-  const agentB = useAgent('agentB');
 
-  const [rpcProvider] = useState(() => new JsonRpcProvider(FUJI_RPC_URL));
-  const [ownerSigner, setOwnerSigner] = useState<OxGasEthersSigner | null>(null);
+  const [rpcProvider] = useState(() => new JsonRpcProvider(network.rpcUrl));
+  const registry = useAgentRegistry(rpcProvider, keystore);
+  // Relay URL set → agents can talk across processes; otherwise across tabs of this browser
+  const [transport] = useState(() => import.meta.env.VITE_A2A_RELAY_URL
+    ? createWebSocketTransport(import.meta.env.VITE_A2A_RELAY_URL)
+    : createBroadcastChannelTransport(`0xgasless-a2a-${network.name}`));
+  const [cardStorage] = useState(createCardStorage);
+  const directory = useAgentDirectory(network, rpcProvider, cardStorage);
+  const [showDirectory, setShowDirectory] = useState(false);
+  const [showPaidEndpoints, setShowPaidEndpoints] = useState(false);
+  const [openReceiptId, setOpenReceiptId] = useState<string | null>(null);
+  const [ownerSigner, setOwnerSigner] = useState<Signer | null>(null);
   const [ownerAddress, setOwnerAddress] = useState('');
-  const [agentAWallet, setAgentAWallet] = useState<Wallet | null>(null);
-  const [agentBWallet, setAgentBWallet] = useState<Wallet | null>(null);
-  const [ownerBal, setOwnerBal] = useState({ avax: '0', usdt: '0' });
-  const [agentABal, setAgentABal] = useState({ avax: '0', usdt: '0' });
-  const [agentBBal, setAgentBBal] = useState({ avax: '0', usdt: '0' });
+  const agents = useAgents(registry.profiles, transport, cardStorage, network, ownerAddress);
+  const [ownerBal, setOwnerBal] = useState<Balance>(EMPTY_BALANCE);
+  const [balances, setBalances] = useState<Record<string, Balance>>({});
+  // Per agent: every non-zero allowance it has granted
+  const [allowances, setAllowances] = useState<Record<string, Allowance[]>>({});
+  // Budgets the owner has delegated to its agents, active or not
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [showDelegations, setShowDelegations] = useState(false);
+  const [scenarios, setScenarios] = useState<Scenario[]>(BUILTIN_SCENARIOS);
+  const [scenarioId, setScenarioId] = useState(() => localStorage.getItem(SCENARIO_STORAGE_KEY) || BUILTIN_SCENARIOS[0].id);
+  const [metering, setMetering] = useState<MeteringSettings>(loadMeteringSettings);
+  const [meter, setMeter] = useState<Meter | null>(null);
+  const [employerId, setEmployerId] = useState('');
+  const [freelancerId, setFreelancerId] = useState('');
   const [isRunning, setIsRunning] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [initialized, setInitialized] = useState(false);
@@ -210,26 +341,98 @@ function AgentDemo() {
   const [fundingInProgress, setFundingInProgress] = useState(false);
   const conversationCancelledRef = useRef(false);
   const conversationPausedRef = useRef(false);
+  // Set while the conversation is paused for a transaction awaiting approval, so only that pause is lifted
+  const pausedForApprovalRef = useRef(false);
+  const initializedAgentsRef = useRef<Set<string>>(new Set());
+  // A2A thread of the most recent conversation, for transcript export
+  const [lastThreadId, setLastThreadId] = useState<string | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
-  // ---- Generate / restore agent wallets ----
+  const scenario = scenarios.find(sc => sc.id === scenarioId) ?? scenarios[0];
+  const employers = registry.profiles.filter(p => p.role === 'employer');
+  const freelancers = registry.profiles.filter(p => p.role === 'freelancer');
+  const employer = agents.agent(employerId);
+  const freelancer = agents.agent(freelancerId);
+  const balanceOf = (id: string): Balance => balances[id] ?? EMPTY_BALANCE;
+  const employerBal = balanceOf(employerId);
+  const freelancerBal = balanceOf(freelancerId);
+  // Agents acting through a smart account have their gas sponsored
+  const smartAccountOf = (id: string) => registry.profiles.find(p => p.id === id)?.smartAccounts?.[network.name];
+  const lacksGas = (id: string, bal: Balance, min: number) => !smartAccountOf(id) && Number(bal.native) < min;
+  const delegationsOf = (id: string) => delegations.filter(d => agents.getState(id).address.toLowerCase() === d.agent.toLowerCase());
+  // What an agent can pay in a token: its own balance plus what the owner still lets it draw
+  const spendable = (id: string, bal: Balance, symbol: string) => {
+    const delegation = delegationsOf(id).find(d => d.token === symbol && delegationActive(d, Date.now() / 1000));
+    const token = tokenBySymbol(network, symbol);
+    return Number(bal.tokens[symbol] ?? 0) + (delegation && token ? Number(formatUnits(delegation.remaining, token.decimals)) : 0);
+  };
+  const canPay = (id: string, bal: Balance) => tokenSymbols(network).some(symbol => spendable(id, bal, symbol) > 0);
+  // Only agents talking through OpenRouter need the env key
+  const missingOpenRouterKey = !openRouterKey
+    && [employerId, freelancerId].some(id => needsOpenRouterKey(registry.profiles.find(p => p.id === id)?.llm));
+
+  // ---- Keep the conversation pair pointing at agents that exist ----
   useEffect(() => {
-    let keyA = localStorage.getItem('0xgasless_agentA_pk');
-    let keyB = localStorage.getItem('0xgasless_agentB_pk');
-    if (!keyA) { const w = Wallet.createRandom(); keyA = w.privateKey; localStorage.setItem('0xgasless_agentA_pk', keyA); }
-    if (!keyB) { const w = Wallet.createRandom(); keyB = w.privateKey; localStorage.setItem('0xgasless_agentB_pk', keyB); }
-    setAgentAWallet(new Wallet(keyA, rpcProvider));
-    setAgentBWallet(new Wallet(keyB, rpcProvider));
-  }, [rpcProvider]);
+    if (!employers.some(p => p.id === employerId)) setEmployerId(employers[0]?.id ?? '');
+    if (!freelancers.some(p => p.id === freelancerId)) setFreelancerId(freelancers[0]?.id ?? '');
+  }, [employers, freelancers, employerId, freelancerId]);
+
+  // ---- Scenario selection ----
+  const selectScenario = (id: string) => {
+    setScenarioId(id);
+    localStorage.setItem(SCENARIO_STORAGE_KEY, id);
+  };
+
+  const updateMetering = (next: MeteringSettings) => {
+    setMetering(next);
+    localStorage.setItem(METERING_STORAGE_KEY, JSON.stringify(next));
+  };
+
+  const importScenario = async (file: File) => {
+    try {
+      const imported = await loadScenarioFile(file);
+      setScenarios(prev => [...prev.filter(sc => sc.id !== imported.id), imported]);
+      selectScenario(imported.id);
+      console.log(`📜 Imported scenario "${imported.name}" (${imported.id})`);
+    } catch (e: any) { alert(e.message); }
+  };
+
+  // ---- Transcripts ----
+  const exportTranscript = () => {
+    if (!lastThreadId) return;
+    downloadTranscript(buildTranscript(lastThreadId, agents.threadEnvelopes(lastThreadId), network));
+  };
+  const auditTranscript = async (file: File) => {
+    try {
+      const transcript = await loadTranscriptFile(file);
+      // Transcripts from another network are checked against that network's RPC
+      const report = await verifyTranscript(transcript, transcript.chainId === network.chainId ? rpcProvider : undefined);
+      const lines = [
+        report.valid ? '✅ Transcript verified' : '❌ Transcript failed verification',
+        `Participants: ${report.participants.map(p => `#${p.agentId} (${p.address.slice(0, 8)}…)`).join(', ') || 'none'}`,
+        `Agreed price: ${report.agreedPrice !== null ? `${report.agreedPrice} ${report.agreedToken} (accepted by both)` : 'not agreed by both sides'}`,
+        `Payment: ${report.payments.length > 0
+          ? report.payments.map(p => `${p.amount} ${p.token}${p.metered ? ` (chunk ${p.metered.chunk}/${p.metered.of})` : ''} — ${p.confirmedOnChain ? 'confirmed on-chain' : p.confirmedOnChain === false ? 'NOT found on-chain' : 'could not check'}`).join('; ')
+          : 'none recorded'}`,
+        ...report.problems.map(p => `• ${p.index >= 0 ? `#${p.index}: ` : ''}${p.reason}`),
+      ];
+      alert(lines.join('\n'));
+    } catch (e: any) { alert(e.message); }
+  };
 
   // ---- Refresh balances ----
   const refreshBalances = useCallback(async () => {
     const jobs: Promise<void>[] = [];
-    if (ownerAddress) jobs.push(fetchBalances(rpcProvider, ownerAddress).then(setOwnerBal));
-    if (agentAWallet) jobs.push(agentAWallet.getAddress().then(a => fetchBalances(rpcProvider, a)).then(setAgentABal));
-    if (agentBWallet) jobs.push(agentBWallet.getAddress().then(a => fetchBalances(rpcProvider, a)).then(setAgentBBal));
+    if (ownerAddress) jobs.push(fetchBalances(rpcProvider, ownerAddress, network).then(setOwnerBal));
+    const addresses = Object.entries(registry.wallets).map(([id, agentWallet]) => registry.profiles.find(p => p.id === id)?.smartAccounts?.[network.name] ?? agentWallet.address);
+    if (ownerAddress) jobs.push(readDelegations(rpcProvider, network, ownerAddress, addresses).then(setDelegations));
+    for (const [id, agentWallet] of Object.entries(registry.wallets)) {
+      const address = registry.profiles.find(p => p.id === id)?.smartAccounts?.[network.name] ?? agentWallet.address;
+      jobs.push(fetchBalances(rpcProvider, address, network).then(bal => setBalances(prev => ({ ...prev, [id]: bal }))));
+      jobs.push(readAllowances(rpcProvider, address, network).then(list => setAllowances(prev => ({ ...prev, [id]: list }))));
+    }
     await Promise.allSettled(jobs);
-  }, [rpcProvider, ownerAddress, agentAWallet, agentBWallet]);
+  }, [rpcProvider, ownerAddress, registry.profiles, registry.wallets, network]);
 
   const refreshBalancesAfterTx = useCallback(async (txHash: string) => {
     if (!txHash) return;
@@ -247,80 +450,277 @@ function AgentDemo() {
     return () => clearInterval(id);
   }, [initialized, refreshBalances]);
 
-  // ---- Initialize ----
+  // ---- Initialize owner ----
+  useEffect(() => {
+    if (network.devAccounts) {
+      const devOwner = new Wallet(network.devAccounts.owner, rpcProvider);
+      console.log(`[Owner] Using dev account: ${devOwner.address}`);
+      setOwnerSigner(devOwner);
+      setOwnerAddress(devOwner.address);
+      return;
+    }
+    if (!ready || !authenticated || !wallet || !client) return;
+    console.log(`[Owner] Using wallet: ${wallet.address}`);
+    console.log(`[Owner] Creating OxGasEthersSigner adapter...`);
+    setOwnerSigner(new OxGasEthersSigner(client.auth, wallet.address, rpcProvider));
+    setOwnerAddress(wallet.address);
+  }, [ready, authenticated, wallet, rpcProvider, client, network]);
+
+  // ---- Initialize agents (and any created later) ----
   useEffect(() => {
     let cancelled = false;
     async function init() {
-      if (!ready || !authenticated || !wallet || !agentAWallet || !agentBWallet || initialized) {
-        console.log(`[Init Check] ready:${ready}, auth:${authenticated}, wallet:${!!wallet}, agentA:${!!agentAWallet}, agentB:${!!agentBWallet}, initialized:${initialized}`);
-        return;
-      }
       try {
         setInitError(null);
-
-        console.log(`[Owner] Using wallet: ${wallet.address}`);
-
-        // Create the custom ethers Signer adapter
-        console.log(`[Owner] Creating OxGasEthersSigner adapter...`);
-        const addr = wallet.address;
-        const signer = new OxGasEthersSigner(client.auth, addr, rpcProvider);
-        console.log(`[Owner] OxGasEthersSigner created successfully`);
-        
-        setOwnerSigner(signer);
-        setOwnerAddress(addr);
-        if (cancelled) { console.log(`[Init] Cancelled before agentA init`); return; }
-        
-        console.log(`[Init] Initializing Agent A with owner: ${addr}`);
-        await agentA.initializeWithSigner(agentAWallet, rpcProvider, addr);
-        console.log(`[Init] Agent A initialized successfully`);
-        
-        if (cancelled) { console.log(`[Init] Cancelled before agentB init`); return; }
-        
-        console.log(`[Init] Initializing Agent B with owner: ${addr}`);
-        await agentB.initializeWithSigner(agentBWallet, rpcProvider, addr);
-        console.log(`[Init] Agent B initialized successfully`);
+        for (const profile of registry.profiles) {
+          if (initializedAgentsRef.current.has(profile.id)) continue;
+          if (cancelled) { console.log(`[Init] Cancelled before ${profile.id} init`); return; }
+          initializedAgentsRef.current.add(profile.id);
+
+          console.log(`[Init] Initializing ${profile.label} (${profile.id}) with owner: ${ownerAddress}`);
+          await agents.initializeWithSigner(profile.id, await signerFor(profile, registry.wallets[profile.id]), rpcProvider);
+          console.log(`[Init] ${profile.label} initialized successfully`);
+        }
         if (cancelled) return;
         console.log(`[Init] All agents initialized. Setting initialized=true`);
         setInitialized(true);
-      } catch (e: any) { 
+      } catch (e: any) {
         console.error(`[Init] FATAL ERROR:`, e);
-        setInitError(e.message || 'Unknown error'); 
+        setInitError(e.message || 'Unknown error');
       } finally {
         console.log(`[Init] Routine finished`);
       }
     }
-    if (ready && authenticated && wallet && agentAWallet && agentBWallet && !initialized) init();
+    if (ownerAddress) init();
     return () => { cancelled = true; };
-  }, [ready, authenticated, wallet, initialized, agentAWallet, agentBWallet]);
+  }, [ownerAddress, registry.profiles, registry.wallets, rpcProvider]);
+
+  // ---- Smart accounts ----
+  // What an agent acts with: its smart account on this network if it has one, otherwise its own wallet
+  const signerFor = async (profile: AgentProfile, wallet: Wallet, session: RelayerSession | null = keystore.sessions[profile.id] ?? null): Promise<Signer> => {
+    const account = profile.smartAccounts?.[network.name];
+    return account ? createSmartAccountSigner(wallet, network, account, session, rpcProvider) : wallet;
+  };
+
+  const reconnectAgent = async (id: string, signer: Signer) => {
+    agents.forgetAgent(id);
+    await agents.initializeWithSigner(id, signer, rpcProvider);
+    await refreshBalances();
+  };
+
+  // Funds, allowances and escrows belong to an address, so leaving it has the same preconditions as a key rotation
+  const blockedFromMoving = (id: string, label: string) => {
+    if (agents.escrows.some(e => e.payer === id && e.status === 'locked')) return `${label} has funds locked in escrow — release or refund them first`;
+    if (agents.approvals.some(a => a.agent === id)) return `${label} has a transaction waiting for approval — answer it first`;
+    return null;
+  };
+
+  // Move an agent between its own wallet and the smart account its key owns,
+  // taking its ERC-8004 identity and funds along. A failed move leaves the
+  // agent where it was; switching again moves the rest.
+  const switchAccount = async (id: string, smart: boolean) => {
+    const profile = registry.profiles.find(p => p.id === id);
+    const wallet = registry.wallets[id];
+    if (!profile || !wallet) return;
+    const blocked = blockedFromMoving(id, profile.label);
+    if (blocked) { alert(blocked); return; }
+    if (!smart && sessionActive(keystore.sessions[id])) { alert(`End ${profile.label}'s session key before leaving its smart account`); return; }
+
+    try {
+      const source = await signerFor(profile, wallet);
+      const target = smart ? await smartAccountAddressOf(wallet, network) : wallet.address;
+      if (!confirm(smart
+        ? `Move ${profile.label} to its smart account ${target}? Its ERC-8004 identity, ${tokenSymbols(network).join(', ')} and ${network.nativeSymbol} move over, and ${network.label} gas is sponsored from then on.`
+        : `Move ${profile.label} back to its own wallet ${target}? Its identity and funds move over, and it pays its own gas again.`)) return;
+      const { [network.name]: _previous, ...others } = profile.smartAccounts ?? {};
+      const smartAccounts = smart ? { ...others, [network.name]: target } : others;
+      try {
+        await agents.agent(id).sweepWallet(source, target);
+      } catch (e: any) {
+        alert(`Switching ${profile.label} incomplete: ${e.message}. It stays on ${await source.getAddress()} — switch again to move the rest.`);
+        await reconnectAgent(id, source);
+        return;
+      }
+      registry.updateAgent(id, { smartAccounts });
+      await reconnectAgent(id, await signerFor({ ...profile, smartAccounts }, wallet));
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  // A session key lets the agent approve the x402 relayer on its own, up to `limit` per approval, for `hours`
+  const grantSession = async (id: string, limit: number, hours: number) => {
+    const profile = registry.profiles.find(p => p.id === id);
+    if (!profile) return;
+    try {
+      const session = await agents.agent(id).grantSession(limit, Math.floor(Date.now() / 1000 + hours * 3600));
+      await keystore.putSession(id, session);
+      await reconnectAgent(id, await signerFor(profile, registry.wallets[id], session));
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const endSession = async (id: string) => {
+    const profile = registry.profiles.find(p => p.id === id);
+    if (!profile) return;
+    try {
+      await agents.agent(id).endSession();
+      await keystore.putSession(id, null);
+      await reconnectAgent(id, await signerFor(profile, registry.wallets[id], null));
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  // ---- Paid endpoints (x402 over HTTP) ----
+  // Every freelancer in this tab sells research briefs behind HTTP 402
+  useEffect(() => { startPaidEndpointHost(); }, []);
+  const freelancerAddresses = freelancers.map(p => agents.getState(p.id).address).join(',');
+  useEffect(() => {
+    if (!initialized) return;
+    const stops = freelancers.map(p => agents.agent(p.id).servePaidEndpoints(openRouterKey, RESEARCH_PRICE));
+    return () => stops.forEach(stop => stop());
+  }, [initialized, freelancerAddresses, openRouterKey]);
+
+  const buyResearch = async (topic: string) => {
+    const address = agents.getState(freelancerId).address;
+    if (!employerId || !address) { alert('Pick an employer and a freelancer first'); return null; }
+    const result = await employer.fetchPaid(paidEndpointUrl(address, `/research/${encodeURIComponent(topic)}`), RESEARCH_PRICE);
+    if (result?.txHash) await refreshBalancesAfterTx(result.txHash);
+    return result;
+  };
+
+  // ---- Agent registry ----
+  const removeAgent = (id: string) => {
+    const bal = balanceOf(id);
+    const profile = registry.profiles.find(p => p.id === id);
+    if ((Number(bal.native) > 0 || holdsTokens(bal))
+      && !confirm(`${profile?.label ?? id} still holds ${bal.native} ${network.nativeSymbol} and ${describeTokens(bal, network)}. Its key will be deleted. Remove anyway?`)) return;
+    registry.removeAgent(id).catch((e: any) => alert(e.message));
+    agents.forgetAgent(id);
+    initializedAgentsRef.current.delete(id);
+    setBalances(prev => { const { [id]: _removed, ...rest } = prev; return rest; });
+  };
+
+  // Move an agent to a fresh key. The new key is saved (and the old one
+  // retired) before anything moves, so a failed sweep can be retried from
+  // the retired key. A smart account keeps its address and only changes
+  // owner, so nothing has to move.
+  const rotateAgentKey = async (id: string) => {
+    const profile = registry.profiles.find(p => p.id === id);
+    if (!profile) return;
+    const label = profile.label;
+    const blocked = blockedFromMoving(id, label);
+    if (blocked) { alert(blocked); return; }
+    // The key owns those accounts too, and they can only be handed over on their own network
+    const elsewhere = Object.keys(profile.smartAccounts ?? {}).filter(name => name !== network.name);
+    if (elsewhere.length > 0) { alert(`${label}'s key also owns its smart account on ${elsewhere.map(name => NETWORKS[name]?.label ?? name).join(', ')} — move it back to its own wallet there before rotating`); return; }
+
+    if (profile.smartAccounts?.[network.name]) {
+      if (!confirm(`Give ${label} a new key? Its smart account stays where it is, owned by the new key; the old key stays in the keystore, retired.`)) return;
+      try {
+        const next = await registry.rotateKey(id);
+        try {
+          await agents.agent(id).transferAccountOwnership(next.address);
+        } catch (e: any) {
+          await registry.undoRotation(id);
+          throw e;
+        }
+        await reconnectAgent(id, await signerFor(profile, next));
+      } catch (e: any) {
+        alert(`Key rotation failed: ${e.message}. ${label} keeps its current key.`);
+      }
+      return;
+    }
+
+    if (!confirm(`Give ${label} a new key? Its ERC-8004 identity, ${tokenSymbols(network).join(', ')} and ${network.nativeSymbol} move to a fresh wallet; the old key stays in the keystore, retired.`)) return;
+
+    const previous = registry.wallets[id];
+    try {
+      const next = await registry.rotateKey(id);
+      try {
+        await agents.agent(id).sweepWallet(previous, next.address);
+      } finally {
+        // Whatever moved, the agent runs on its new key from here
+        agents.forgetAgent(id);
+        await agents.initializeWithSigner(id, next, rpcProvider);
+        await refreshBalances();
+      }
+    } catch (e: any) {
+      alert(`Key rotation incomplete: ${e.message}. Whatever didn't move is still on the retired key — sweep it again from the keystore panel.`);
+    }
+  };
+
+  // Retry a rotation: move what a retired key still holds to wherever the agent acts from now
+  const sweepRetiredKey = async (agentId: string, privateKey: string) => {
+    const profile = registry.profiles.find(p => p.id === agentId);
+    const current = registry.wallets[agentId];
+    if (!profile || !current) return;
+    try {
+      await agents.agent(agentId).sweepWallet(new Wallet(privateKey, rpcProvider), profile.smartAccounts?.[network.name] ?? current.address);
+      await reconnectAgent(agentId, await signerFor(profile, current));
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
 
   // ---- Funding ----
-  const fundAgent = useCallback(async (agentAddress: string, type: 'avax' | 'usdt', amount: string) => {
+  // `asset` is 'native' or a payment token symbol
+  const fundAgent = useCallback(async (agentAddress: string, asset: string, amount: string) => {
     if (!ownerSigner) return;
     setFundingInProgress(true);
     try {
       const signer = ownerSigner;
-      if (type === 'avax') { const tx = await signer.sendTransaction({ to: agentAddress, value: parseEther(amount) }); await tx.wait(); }
-      else { const token = new Contract(USDT_TOKEN_ADDRESS, TOKEN_ABI, signer); const tx = await token.transfer(agentAddress, parseUnits(amount, 6)); await tx.wait(); }
+      const token = tokenBySymbol(network, asset);
+      if (asset === 'native') { const tx = await signer.sendTransaction({ to: agentAddress, value: parseEther(amount) }); await tx.wait(); }
+      else if (token?.address) { const contract = new Contract(token.address, TOKEN_ABI, signer); const tx = await contract.transfer(agentAddress, parseUnits(amount, token.decimals)); await tx.wait(); }
+      else throw new Error(`${asset} is not configured on ${network.label}`);
       await refreshBalances();
     } catch (e: any) { alert(`Funding failed: ${e.message}`); }
     finally { setFundingInProgress(false); }
-  }, [ownerSigner, refreshBalances]);
+  }, [ownerSigner, refreshBalances, network]);
+
+  // ---- Owner delegations ----
+  // What the owner's other active delegations of a token may still draw, which its approval has to keep covering
+  const outstandingDelegated = (tokenAddress: string, exceptAgent: string) => delegations
+    .filter(d => d.tokenAddress === tokenAddress && d.agent.toLowerCase() !== exceptAgent.toLowerCase() && delegationActive(d, Date.now() / 1000))
+    .reduce((sum, d) => sum + BigInt(d.remaining), 0n);
+
+  const delegateToAgent = async (id: string, symbol: string, amount: number, hours: number) => {
+    const token = tokenBySymbol(network, symbol);
+    const agentAddress = agents.getState(id).address;
+    if (!ownerSigner || !token?.address || !agentAddress) return;
+    try {
+      const validUntil = (await chainNow(rpcProvider)) + Math.round(hours * 3600);
+      const hash = await grantDelegation(ownerSigner, network, agentAddress, token, parseUnits(String(amount), token.decimals), validUntil, outstandingDelegated(token.address, agentAddress));
+      console.log(`🤝 [Owner] Delegated ${amount} ${symbol} to ${agentAddress} for ${hours}h: ${hash}`);
+      await refreshBalances();
+    } catch (e: any) { alert(`Delegation failed: ${e.message}`); }
+  };
 
-  // ---- Payment detection ----
-  const extractAmount = (text: string): number | null => {
-    for (const p of [/(\d+\.?\d*)\s*usdt/i, /usdt[:\s]+(\d+\.?\d*)/i, /\$(\d+\.?\d*)/i, /payment[:\s]+(?:of\s+)?(\d+\.?\d*)/i, /(?:send|pay|transfer)\s+(\d+\.?\d*)/i]) {
-      const m = text.match(p); if (m?.[1]) { const n = parseFloat(m[1]); if (!isNaN(n) && n > 0 && n <= 100) return n; }
-    }
-    return null;
+  const revokeFromAgent = async (delegation: Delegation) => {
+    if (!ownerSigner) return;
+    try {
+      const hash = await revokeDelegation(ownerSigner, network, delegation, outstandingDelegated(delegation.tokenAddress, delegation.agent));
+      console.log(`🤝 [Owner] Revoked ${delegation.agent}'s ${delegation.token} delegation: ${hash}`);
+      await refreshBalances();
+    } catch (e: any) { alert(`Revoking failed: ${e.message}`); }
   };
 
-  const detectPaymentIntent = (message: string, history: Array<{ from: 'agentA' | 'agentB'; message: string }>): number | null => {
-    const intentPatterns = [/(?:i'll|i will|i'm going to|let me)\s+(?:send|pay|transfer)/i, /sending\s+(?:you\s+)?(?:the\s+)?(?:payment|usdt|\d)/i, /great\s+work.*(?:send|pay)/i, /here(?:'s| is)\s+(?:the\s+)?(?:payment|your\s+payment)/i];
-    if (!intentPatterns.some(p => p.test(message))) return null;
-    let amount = extractAmount(message);
-    if (amount) return amount;
-    for (const msg of [...history].reverse().slice(0, 8)) { amount = extractAmount(msg.message); if (amount) return amount; }
-    return null;
+  // ---- Validation gate ----
+  // The employer doubles as the ERC-8004 validator: the freelancer requests
+  // validation of its delivery, and payment only proceeds on a passing score.
+  const validateDelivery = async (work: string): Promise<number | null> => {
+    const validator = agents.getState(employerId);
+    if (!validator.id || !work) return null;
+    if (!validator.isValidator) {
+      const staked = await employer.stakeAsValidator();
+      if (!staked) return null;
+    }
+    const dataHash = await freelancer.requestValidation(validator.id, work);
+    if (!dataHash) return null;
+    return employer.respondToValidation(dataHash, work, openRouterKey, scenario);
   };
 
   // ---- Conversation control ----
@@ -328,103 +728,256 @@ function AgentDemo() {
   const pauseConversation = () => { conversationPausedRef.current = true; setIsPaused(true); };
   const resumeConversation = () => { conversationPausedRef.current = false; setIsPaused(false); };
 
+  // ---- Hold the conversation while a transaction waits for the owner ----
+  useEffect(() => {
+    const waiting = agents.approvals.length > 0;
+    if (waiting && isRunning && !conversationPausedRef.current) {
+      pausedForApprovalRef.current = true;
+      pauseConversation();
+    } else if (!waiting && pausedForApprovalRef.current) {
+      pausedForApprovalRef.current = false;
+      if (isRunning) resumeConversation();
+    }
+  }, [agents.approvals.length, isRunning]);
+
+  const decideApproval = (id: string, decision: ApprovalDecision) => {
+    try {
+      agents.decideApproval(id, decision);
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
   // ---- Phase-managed conversation loop ----
   const startConversation = async () => {
-    if (!agentA.state.registered) { await agentA.register(); await refreshBalances(); }
-    if (!agentB.state.registered) { await agentB.register(); await refreshBalances(); }
-    if (!openRouterKey) { alert('Set VITE_OPENROUTER_API_KEY in .env'); return; }
+    if (!employerId || !freelancerId) { alert('Pick an employer and a freelancer first'); return; }
+    if (!employer.state.registered) { await employer.register(); await refreshBalances(); }
+    if (!freelancer.state.registered) { await freelancer.register(); await refreshBalances(); }
+    if (missingOpenRouterKey) { alert('Set VITE_OPENROUTER_API_KEY in .env, or switch the selected agents to another model provider'); return; }
 
     conversationCancelledRef.current = false;
     setIsRunning(true);
     setIsPaused(false);
 
-    const history: Array<{ from: 'agentA' | 'agentB'; message: string }> = [];
+    // Each agent reads the conversation from its own A2A mailbox, scoped to this thread
+    const threadId = createEnvelopeId();
+    setLastThreadId(threadId);
     const delay = (ms: number) => new Promise(r => setTimeout(r, ms));
     const cancelled = () => conversationCancelledRef.current;
     const waitIfPaused = async () => { while (conversationPausedRef.current && !cancelled()) await delay(400); };
 
-    // Budget = Agent A's current USDT balance (capped so AI doesn't overpromise)
-    const budget = Math.min(Math.floor(Number(agentABal.usdt)), 15);
-
-    // Tighter phase structure: networking(1), discovery(1), negotiation(2), delivery(2), payment(1)
-    const phases: Array<{ name: string; exchanges: number }> = [
-      { name: 'networking', exchanges: 1 },
-      { name: 'discovery', exchanges: 1 },
-      { name: 'negotiation', exchanges: 2 },
-      { name: 'delivery', exchanges: 2 },
-      { name: 'payment', exchanges: 1 },
-    ];
+    // Budget in a token = employer's balance of it (capped so AI doesn't overpromise,
+    // and never past what its spending policy would let it pay in one go).
+    // The employer proposes the token it holds most of; the freelancer may counter with any other.
+    const policy = registry.profiles.find(p => p.id === employerId)?.policy ?? DEFAULT_SPENDING_POLICY;
+    const tokens = tokenSymbols(network).filter(symbol => policy.allowedTokens.length === 0 || policy.allowedTokens.includes(symbol));
+    if (tokens.length === 0) tokens.push(defaultTokenOf(network).symbol);
+    const budgetIn = (symbol: string) => Math.min(Math.floor(spendable(employerId, employerBal, symbol)), scenario.budgetCap, policy.maxPerTransaction ?? Infinity);
+    const proposed = tokens.reduce((best, symbol) => (budgetIn(symbol) > budgetIn(best) ? symbol : best), defaultTokenOf(network).symbol);
+    const terms = { budget: budgetIn(proposed), token: proposed, tokens };
 
     let turn = 0;
-    const ctx = (phase: string) => ({ phase, turnNumber: ++turn, budget });
+    let deliverable = '';
+    // Set by an accept_offer tool call during negotiation; caps the payment and fixes its token
+    let agreed: { price: number; token: string } | null = null;
+    // Locked once the phase that agreed the price is over; released on an accepted delivery
+    let escrow: Escrow | null = null;
+    // True once the escrow is released or refunded
+    let escrowSettled = false;
+
+    // Metered runs pay for each delivered chunk instead of escrowing a lump sum
+    const metered = metering.enabled && scenario.metering ? { chunks: metering.chunks, cap: metering.chunkPriceCap } : null;
+    let paidSoFar = 0;
+    // The agreed price split evenly across the chunks, capped, rounded down to the cent
+    const chunkPrice = () => (metered
+      ? Math.floor(Math.min((agreed?.price ?? terms.budget) / metered.chunks, metered.cap) * 100) / 100
+      : 0);
+    setMeter(null);
+
+    const ctx = (phase: string, exchange: number = 0) => ({
+      scenario, phase, turnNumber: ++turn, threadId, exchange,
+      terms: metered ? { ...terms, metering: { chunks: metered.chunks, chunkPrice: chunkPrice() } } : terms,
+    });
+    // Pay for one delivered chunk; false means the delivery can't go on
+    const payChunk = async (index: number): Promise<boolean> => {
+      if (!metered) return true;
+      const symbol = agreed?.token ?? proposed;
+      const token = tokenBySymbol(network, symbol)!;
+      const price = chunkPrice();
+      const total = Math.round(price * metered.chunks * 100) / 100;
+      setMeter({ delivered: index + 1, chunks: metered.chunks, paid: paidSoFar, total, token: symbol });
+      if (price <= 0) return true;
+
+      const txHash = await employer.sendPayment(
+        agents.getState(freelancerId).address,
+        parseUnits(price.toFixed(token.decimals), token.decimals).toString(),
+        symbol
+      );
+      if (!txHash) {
+        agents.addMessage({
+          from: employerId, to: freelancerId,
+          message: `❌ Chunk ${index + 1}/${metered.chunks} could not be paid — delivery stopped`,
+          type: 'payment', status: 'failed',
+        });
+        return false;
+      }
+      paidSoFar = Math.round((paidSoFar + price) * 100) / 100;
+      setMeter({ delivered: index + 1, chunks: metered.chunks, paid: paidSoFar, total, token: symbol });
+      await employer.recordPayment(freelancerId, threadId, { txHash, amount: price, token: symbol, metered: { chunk: index + 1, of: metered.chunks } }, agreed ?? undefined);
+      await refreshBalancesAfterTx(txHash);
+      return true;
+    };
+
+    // Employer posts the validated score to the ERC-8004 reputation registry, then closes
+    const rateAndClose = async (validationScore: number) => {
+      const freelancerAgentId = agents.getState(freelancerId).id;
+      if (!cancelled() && freelancerAgentId) {
+        const feedbackTx = await employer.giveFeedback(freelancerAgentId, validationScore);
+        if (feedbackTx) await freelancer.refreshReputation();
+      }
+
+      await delay(1500);
+      if (!cancelled() && scenario.closingPhase) {
+        await employer.sendAIMessage(freelancerId, openRouterKey, ctx(scenario.closingPhase));
+      }
+    };
 
-    // Helper: one exchange = A speaks, then B responds
-    const exchange = async (phase: string): Promise<{ aMsg: AgentMessage; bMsg: AgentMessage } | null> => {
+    // Escrow still locked when the conversation ends refunds at its deadline
+    const noteOpenEscrow = () => {
+      if (!escrow || escrowSettled) return;
+      agents.addMessage({
+        from: employerId, to: employerId,
+        message: `🔒 ${agreed?.price} ${agreed?.token} stays in escrow until ${new Date(escrow.deadline * 1000).toLocaleTimeString()}, then refunds`,
+        type: 'escrow', status: 'success',
+      });
+    };
+
+    // Helper: one exchange = employer speaks, then freelancer responds
+    const exchange = async (phase: string, ex: number): Promise<{ aMsg: AgentMessage; bMsg: AgentMessage } | null> => {
       await waitIfPaused();
       if (cancelled()) return null;
-      const aMsg = await agentA.sendAIMessage('agentB', history, openRouterKey, ctx(phase));
-      history.push({ from: 'agentA', message: aMsg.message });
+      const aMsg = await employer.sendAIMessage(freelancerId, openRouterKey, ctx(phase, ex));
       await delay(2000);
 
       if (cancelled()) return null;
       await waitIfPaused();
-      const bMsg = await agentB.sendAIMessage('agentA', history, openRouterKey, ctx(phase));
-      history.push({ from: 'agentB', message: bMsg.message });
+      const bMsg = await freelancer.sendAIMessage(employerId, openRouterKey, ctx(phase, ex));
       await delay(2000);
       return { aMsg, bMsg };
     };
 
-    // Run through conversation phases
-    for (const phase of phases) {
+    // Run through the scenario's phases (prompt-only phases have no exchanges)
+    for (const phase of scenario.phases) {
       if (cancelled()) break;
 
-      for (let ex = 0; ex < phase.exchanges; ex++) {
+      // A metered delivery takes one exchange per chunk
+      const exchanges = metered && phase.name === scenario.deliveryPhase ? metered.chunks : phase.exchanges;
+      for (let ex = 0; ex < exchanges; ex++) {
         if (cancelled()) break;
 
-        // Payment phase is special — A speaks, then we execute payment before B responds
-        if (phase.name === 'payment') {
+        // Payment phase is special — validate, A speaks, then we execute payment before B responds
+        if (phase.name === scenario.paymentPhase) {
           await waitIfPaused();
           if (cancelled()) break;
 
-          const aMsg = await agentA.sendAIMessage('agentB', history, openRouterKey, ctx('payment'));
-          history.push({ from: 'agentA', message: aMsg.message });
+          const validationScore = await validateDelivery(deliverable);
+          if (validationScore === null || validationScore < VALIDATION_PASS_SCORE) {
+            agents.addMessage({
+              from: employerId, to: freelancerId,
+              message: validationScore === null
+                ? `❌ Delivery could not be validated — payment withheld`
+                : `❌ Delivery scored ${validationScore}/100 in validation — payment withheld`,
+              type: 'payment', status: 'failed',
+            });
+            // As the validator, the employer is also the escrow's arbiter
+            if (escrow) {
+              escrowSettled = await employer.refundEscrow(escrow.id, validationScore === null ? 'delivery not validated' : `validation scored ${validationScore}/100`);
+              if (escrowSettled) await refreshBalances();
+            }
+            noteOpenEscrow();
+            setIsRunning(false);
+            setIsPaused(false);
+            conversationCancelledRef.current = false;
+            conversationPausedRef.current = false;
+            return;
+          }
+          if (cancelled()) break;
+
+          // Metered: every chunk was paid on delivery, so there's nothing left to pay
+          if (metered) {
+            await rateAndClose(validationScore);
+            setIsRunning(false);
+            setIsPaused(false);
+            conversationCancelledRef.current = false;
+            conversationPausedRef.current = false;
+            return;
+          }
+
+          const aMsg = await employer.sendAIMessage(freelancerId, openRouterKey, ctx(scenario.paymentPhase, ex));
           await delay(1500);
 
-          // Detect payment amount from Agent A's message
-          const payAmount = detectPaymentIntent(aMsg.message, history);
-          const cappedAmount = payAmount
-            ? Math.min(payAmount, Math.floor(Number(agentABal.usdt)))
-            : Math.min(budget, Math.floor(Number(agentABal.usdt)));
+          // Validation decided whether to pay; the send_payment call supplies the amount.
+          // Without one, fall back to the agreed price, then to the budget.
+          const intent = aMsg.intent?.kind === 'send_payment' ? aMsg.intent : null;
+          const paySymbol = agreed?.token ?? intent?.token ?? proposed;
+          const payToken = tokenBySymbol(network, paySymbol)!;
+          const ceiling = agreed?.price ?? budgetIn(paySymbol);
+          // Escrowed funds were checked (and, in a contract, set aside) when they were locked
+          const available = escrow ? ceiling : Math.floor(spendable(employerId, employerBal, paySymbol));
+          const refusal = !intent ? null
+            : intent.token !== paySymbol ? `send_payment in ${intent.token}, but ${paySymbol} was agreed`
+            : intent.amount > ceiling ? `send_payment of ${intent.amount} ${intent.token} exceeds the agreed ${ceiling} ${paySymbol}`
+            : null;
+          if (refusal) {
+            agents.addMessage({
+              from: employerId, to: freelancerId,
+              message: `❌ ${refusal} — payment withheld`,
+              type: 'payment', status: 'failed',
+            });
+            if (escrow) {
+              escrowSettled = await employer.refundEscrow(escrow.id, refusal);
+              if (escrowSettled) await refreshBalances();
+            }
+            noteOpenEscrow();
+            setIsRunning(false);
+            setIsPaused(false);
+            conversationCancelledRef.current = false;
+            conversationPausedRef.current = false;
+            return;
+          }
+          const cappedAmount = Math.min(intent?.amount ?? ceiling, available);
+          console.log(`💳 Payment intent: ${intent ? describeIntent(intent) : `none — defaulting to ${ceiling} ${paySymbol}`}`);
 
-          if (cappedAmount > 0 && agentB.state.address) {
+          if (cappedAmount > 0 && agents.getState(freelancerId).address) {
             // Show "Initiating payment..." status pill
-            agentA.addMessage({
-              from: 'agentA', to: 'agentB',
-              message: `Initiating payment of ${cappedAmount} USDT…`,
+            agents.addMessage({
+              from: employerId, to: freelancerId,
+              message: `Initiating payment of ${cappedAmount} ${paySymbol}…`,
               type: 'payment', status: 'pending',
             });
 
             try {
-              const txHash = await agentA.sendPayment(
-                agentB.state.address,
-                (cappedAmount * 1e6).toString()
-              );
+              const paid = parseUnits(cappedAmount.toFixed(payToken.decimals), payToken.decimals).toString();
+              const txHash = escrow
+                ? await employer.releaseEscrow(escrow.id, paid)
+                : await employer.sendPayment(agents.getState(freelancerId).address, paid, paySymbol);
               if (txHash) {
+                escrowSettled = true;
+                await employer.recordPayment(freelancerId, threadId, {
+                  txHash,
+                  amount: cappedAmount,
+                  token: paySymbol,
+                  ...(escrow?.mode === 'contract' ? { escrow: { contract: network.escrow!, id: escrow.id } } : {}),
+                }, agreed ?? undefined);
                 await refreshBalancesAfterTx(txHash);
 
                 // Freelancer thanks
                 await delay(1500);
                 if (!cancelled()) {
-                  const thankMsg = await agentB.sendAIMessage('agentA', history, openRouterKey, ctx('payment'));
-                  history.push({ from: 'agentB', message: thankMsg.message });
+                  await freelancer.sendAIMessage(employerId, openRouterKey, ctx(scenario.paymentPhase, ex));
                 }
 
-                // Employer closes
-                await delay(1500);
-                if (!cancelled()) {
-                  const closeMsg = await agentA.sendAIMessage('agentB', history, openRouterKey, ctx('closing'));
-                  history.push({ from: 'agentA', message: closeMsg.message });
-                }
+                await rateAndClose(validationScore);
               }
             } catch (e: any) {
               console.error('[Payment] Failed:', e.message);
@@ -432,6 +985,7 @@ function AgentDemo() {
           }
 
           // Done — conversation complete
+          noteOpenEscrow();
           setIsRunning(false);
           setIsPaused(false);
           conversationCancelledRef.current = false;
@@ -440,11 +994,54 @@ function AgentDemo() {
         }
 
         // Normal exchange for all other phases
-        const result = await exchange(phase.name);
+        const result = await exchange(phase.name, ex);
         if (!result || cancelled()) break;
+        if (phase.name === scenario.deliveryPhase && metered) {
+          deliverable = deliverable ? `${deliverable}\n\n${result.bMsg.message}` : result.bMsg.message;
+          if (!(await payChunk(ex))) {
+            setIsRunning(false);
+            setIsPaused(false);
+            conversationCancelledRef.current = false;
+            conversationPausedRef.current = false;
+            return;
+          }
+        } else if (phase.name === scenario.deliveryPhase) {
+          deliverable = result.bMsg.message;
+        }
+        // The price is fixed once escrowed
+        for (const { intent } of [result.aMsg, result.bMsg]) {
+          if (!escrow && intent?.kind === 'accept_offer' && intent.price <= budgetIn(intent.token)) agreed = { price: intent.price, token: intent.token };
+        }
+      }
+
+      // Lock the agreed price as soon as the phase that agreed it is over
+      if (agreed && agreed.price > 0 && !escrow && !metered && !cancelled()) {
+        const lockToken = tokenBySymbol(network, agreed.token)!;
+        escrow = await employer.lockEscrow(
+          agents.getState(freelancerId).address,
+          parseUnits(agreed.price.toFixed(lockToken.decimals), lockToken.decimals).toString(),
+          agreed.token,
+          threadId,
+          // The employer validates the delivery, so it arbitrates the escrow
+          agents.getState(employerId).address
+        );
+        if (!escrow) {
+          agents.addMessage({
+            from: employerId, to: freelancerId,
+            message: `❌ Could not escrow the agreed ${agreed.price} ${agreed.token} — deal called off`,
+            type: 'payment', status: 'failed',
+          });
+          setIsRunning(false);
+          setIsPaused(false);
+          conversationCancelledRef.current = false;
+          conversationPausedRef.current = false;
+          return;
+        }
+        if (escrow.lockTx) await refreshBalancesAfterTx(escrow.lockTx);
       }
     }
 
+    noteOpenEscrow();
     setIsRunning(false);
     setIsPaused(false);
     conversationCancelledRef.current = false;
@@ -452,14 +1049,18 @@ function AgentDemo() {
   };
 
   // ---- Auto-scroll ----
-  const msgCount = agentA.messages.length + agentB.messages.length;
-  useEffect(() => { chatEndRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [msgCount]);
+  const msgCount = agents.messages.length;
+  // Streaming replies grow in place, so also follow the length of the newest one
+  const lastMsgLength = agents.messages[msgCount - 1]?.message.length ?? 0;
+  useEffect(() => { chatEndRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [msgCount, lastMsgLength]);
 
   // ---- Collect data ----
-  const allMessages = [...agentA.messages, ...agentB.messages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-  const allTransactions = [...agentA.transactions, ...agentB.transactions].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-  const agentAAddr = agentA.state.address;
-  const agentBAddr = agentB.state.address;
+  const allMessages = [...agents.messages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const allTransactions = [...agents.transactions].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  // Receipts outlive the in-memory transaction log, so they're listed on their own too
+  const allReceipts = [...agents.receipts].sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+  const openReceipt = agents.receipts.find(r => r.id === openReceiptId) ?? null;
+  const profileOf = (id: string) => registry.profiles.find(p => p.id === id);
   // Owner address is fetched from Privy wallet dynamically — always the real connected wallet
 
   // ================================================================
@@ -481,13 +1082,16 @@ function AgentDemo() {
         <h1 className="text-xl font-semibold tracking-tight">Agent&thinsp;x&thinsp;Agent</h1>
         <p className="text-sm text-muted-foreground max-w-xs text-center">Autonomous AI agents that network, negotiate jobs, and settle payments onchain.</p>
       </div>
-      <Button onClick={login} size="lg" className="bg-primary text-primary-foreground hover:bg-primary/90 rounded-xl px-8">
+      <Button onClick={login} disabled={!client} size="lg" className="bg-primary text-primary-foreground hover:bg-primary/90 rounded-xl px-8">
         Get started
       </Button>
+      {!client && (
+        <p className="text-xs text-muted-foreground max-w-xs text-center">0xGasless smart wallets aren't available on {network.label} — pick another network.</p>
+      )}
       <div className="flex items-center gap-2 text-xs text-muted-foreground">
         <Badge variant="outline" className="font-normal text-[11px]">ERC-8004</Badge>
         <Badge variant="outline" className="font-normal text-[11px]">x402 Protocol</Badge>
-        <Badge variant="outline" className="font-normal text-[11px]">Avalanche Fuji</Badge>
+        <NetworkPicker value={network.name} onChange={onNetworkChange} />
       </div>
     </div>
   );
@@ -503,9 +1107,29 @@ function AgentDemo() {
             <Bot className="h-4 w-4 text-primary" />
           </div>
           <span className="font-semibold text-[15px] tracking-tight">Agent&thinsp;x&thinsp;Agent</span>
-          <Badge variant="outline" className="ml-1 text-[10px] font-normal hidden sm:inline-flex">Fuji Testnet</Badge>
+          <NetworkPicker value={network.name} onChange={onNetworkChange} disabled={isRunning} />
         </div>
         <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          {initialized && ownerSigner && (
+            <div className="relative">
+              <Button size="sm" variant="ghost" onClick={() => setShowDelegations(v => !v)} title="Budgets delegated to agents from the owner's balance" className={`h-7 px-2 text-xs rounded-lg ${showDelegations ? 'bg-muted' : ''}`}>
+                <Handshake className="h-3.5 w-3.5 mr-1" /> Delegations
+                {delegations.some(d => delegationActive(d, Date.now() / 1000)) && <span className="ml-1 font-medium text-foreground">{delegations.filter(d => delegationActive(d, Date.now() / 1000)).length}</span>}
+              </Button>
+              {showDelegations && (
+                <DelegationsPanel
+                  delegations={delegations}
+                  agents={registry.profiles.filter(p => agents.getState(p.id).address).map(p => ({ id: p.id, label: p.label, address: agents.getState(p.id).address }))}
+                  network={network}
+                  onGrant={delegateToAgent}
+                  onRevoke={revokeFromAgent}
+                />
+              )}
+            </div>
+          )}
+          <Button size="sm" variant="ghost" onClick={keystore.lock} disabled={isRunning} title="Lock the agent keystore" className="h-7 px-2 text-xs rounded-lg">
+            <Lock className="h-3.5 w-3.5 mr-1" /> Lock
+          </Button>
           {ownerAddress && (
             <div className="flex items-center gap-2">
               <span className="hidden sm:inline text-muted-foreground">Owner:</span>
@@ -513,10 +1137,10 @@ function AgentDemo() {
             </div>
           )}
           {initialized && (
-            <span className="font-medium text-foreground">{ownerBal.avax} AVAX · {ownerBal.usdt} USDT</span>
+            <span className="font-medium text-foreground">{ownerBal.native} {network.nativeSymbol} · {describeTokens(ownerBal, network)}</span>
           )}
-          {initialized && Number(ownerBal.avax) < 0.05 && (
-            <a href="https://faucet.avalanche.org/" target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+          {initialized && network.faucetUrl && Number(ownerBal.native) < 0.05 && (
+            <a href={network.faucetUrl} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
               Faucet <ExternalLink className="inline h-3 w-3" />
             </a>
           )}
@@ -531,7 +1155,7 @@ function AgentDemo() {
           <div className="p-4 space-y-4">
 
             {/* Alerts (compact) */}
-            {!initialized && authenticated && wallet && (
+            {!initialized && authenticated && (
               <div className={`rounded-lg p-3 text-xs ${initError ? 'bg-destructive/10 text-destructive' : 'bg-muted text-muted-foreground'}`}>
                 <div className="flex items-center gap-2">
                   <Loader2 className="h-3.5 w-3.5 animate-spin shrink-0" />
@@ -539,52 +1163,89 @@ function AgentDemo() {
                 </div>
               </div>
             )}
-            {!openRouterKey && (
+            {missingOpenRouterKey && (
               <div className="rounded-lg bg-destructive/10 p-3 text-xs text-destructive">
-                Missing VITE_OPENROUTER_API_KEY
+                Missing VITE_OPENROUTER_API_KEY — set it, or switch the selected agents to a local or mock model
               </div>
             )}
 
-            {/* Agent A — Employer */}
-            <AgentCard
-              label="Employer"
-              sublabel="Startup founder · pays for work"
-              address={agentAAddr}
-              balance={agentABal}
-              registered={agentA.state.registered}
-              agentId={agentA.state.id}
-              initialized={initialized}
-              color="violet"
-              fundActions={[
-                { label: '0.05 AVAX', disabled: fundingInProgress || Number(ownerBal.avax) < 0.02, onClick: () => fundAgent(agentAAddr, 'avax', '0.05') },
-                { label: '20 USDT', disabled: fundingInProgress || Number(ownerBal.usdt) < 1, onClick: () => fundAgent(agentAAddr, 'usdt', '20') },
-              ]}
-              withdrawActions={[
-                { label: 'USDT', disabled: Number(agentABal.usdt) === 0, onClick: async () => { const tx = await agentA.transferFundsToOwner(ownerAddress, USDT_TOKEN_ADDRESS); if (tx) await refreshBalancesAfterTx(tx); } },
-                { label: 'AVAX', disabled: Number(agentABal.avax) < 0.001, onClick: async () => { const tx = await agentA.transferFundsToOwner(ownerAddress); if (tx) await refreshBalancesAfterTx(tx); } },
-              ]}
-              onRegister={async () => { await agentA.register(); await refreshBalances(); }}
-            />
+            {/* Agents */}
+            {registry.profiles.map(profile => {
+              const agent = agents.agent(profile.id);
+              const address = agent.state.address;
+              const bal = balanceOf(profile.id);
+              const meta = ROLE_META[profile.role];
+              return (
+                <AgentCard
+                  key={profile.id}
+                  label={profile.label}
+                  sublabel={scenario.roles[profile.role].description}
+                  address={address}
+                  balance={bal}
+                  network={network}
+                  registered={agent.state.registered}
+                  agentId={agent.state.id}
+                  reputation={agent.state.reputation}
+                  validator={agent.state.isValidator ? agent.state.stakedAmount : null}
+                  initialized={initialized}
+                  color={meta.color}
+                  active={profile.id === employerId || profile.id === freelancerId}
+                  fundActions={[
+                    { label: `0.05 ${network.nativeSymbol}`, disabled: fundingInProgress || Number(ownerBal.native) < 0.02, onClick: () => fundAgent(address, 'native', '0.05') },
+                    ...tokenSymbols(network).map(symbol => (
+                      { label: `${meta.fundToken} ${symbol}`, disabled: fundingInProgress || Number(ownerBal.tokens[symbol] ?? 0) < 1, onClick: () => fundAgent(address, symbol, meta.fundToken) }
+                    )),
+                  ]}
+                  withdrawActions={[
+                    ...tokenSymbols(network).map(symbol => (
+                      { label: symbol, disabled: Number(bal.tokens[symbol] ?? 0) === 0, onClick: async () => { const tx = await agent.transferFundsToOwner(ownerAddress, tokenBySymbol(network, symbol)!.address); if (tx) await refreshBalancesAfterTx(tx); } }
+                    )),
+                    { label: network.nativeSymbol, disabled: Number(bal.native) < 0.001, onClick: async () => { const tx = await agent.transferFundsToOwner(ownerAddress); if (tx) await refreshBalancesAfterTx(tx); } },
+                  ]}
+                  onRegister={async () => { await agent.register(); await refreshBalances(); }}
+                  onRotateKey={isRunning ? undefined : () => rotateAgentKey(profile.id)}
+                  smartAccount={!!profile.smartAccounts?.[network.name]}
+                  onToggleSmartAccount={isRunning || !smartAccountsSupported(network) ? undefined : smart => switchAccount(profile.id, smart)}
+                  session={keystore.sessions[profile.id] ?? null}
+                  onGrantSession={isRunning ? undefined : (limit, hours) => grantSession(profile.id, limit, hours)}
+                  onEndSession={() => endSession(profile.id)}
+                  delegations={delegationsOf(profile.id)}
+                  allowances={allowances[profile.id] ?? []}
+                  onRevoke={async allowance => {
+                    const held = agents.escrows.filter(e => e.payer === profile.id && e.status === 'locked' && e.mode === 'authorization' && e.token === allowance.token);
+                    if (held.length > 0 && allowance.spender === network.x402?.verifyingContract
+                      && !confirm(`${profile.label} holds ${held.length} escrow authorization${held.length === 1 ? '' : 's'} in ${allowance.token} that the relayer still has to pull. Revoking makes ${held.length === 1 ? 'it' : 'them'} fail to settle. Revoke anyway?`)) return;
+                    const tx = await agent.revokeAllowance(allowance.tokenAddress, allowance.spender);
+                    if (tx) await refreshBalancesAfterTx(tx);
+                  }}
+                  cardURI={agent.state.cardURI}
+                  onUpdateCard={async () => { await agent.updateAgentCard(); await refreshBalances(); }}
+                  onRemove={isRunning ? undefined : () => removeAgent(profile.id)}
+                  llm={profile.llm ?? DEFAULT_LLM_CONFIG}
+                  onLlmChange={isRunning ? undefined : llm => registry.updateAgent(profile.id, { llm })}
+                  policy={profile.policy ?? DEFAULT_SPENDING_POLICY}
+                  onPolicyChange={isRunning ? undefined : policy => registry.updateAgent(profile.id, { policy })}
+                />
+              );
+            })}
+
+            <div className="flex gap-1.5">
+              {(Object.keys(ROLE_META) as AgentRole[]).map(role => (
+                <Button key={role} size="sm" variant="outline" onClick={() => registry.createAgent(role).catch((e: any) => alert(e.message))} className="flex-1 text-[11px] h-8 rounded-lg">
+                  <Plus className="h-3 w-3 mr-1" /> {ROLE_LABELS[role]}
+                </Button>
+              ))}
+            </div>
 
-            {/* Agent B — Freelancer */}
-            <AgentCard
-              label="Freelancer"
-              sublabel="Researcher · earns USDT for work"
-              address={agentBAddr}
-              balance={agentBBal}
-              registered={agentB.state.registered}
-              agentId={agentB.state.id}
-              initialized={initialized}
-              color="emerald"
-              fundActions={[
-                { label: '0.05 AVAX', disabled: fundingInProgress || Number(ownerBal.avax) < 0.02, onClick: () => fundAgent(agentBAddr, 'avax', '0.05') },
-                { label: '5 USDT', disabled: fundingInProgress || Number(ownerBal.usdt) < 1, onClick: () => fundAgent(agentBAddr, 'usdt', '5') },
-              ]}
-              withdrawActions={[
-                { label: 'USDT', disabled: Number(agentBBal.usdt) === 0, onClick: async () => { const tx = await agentB.transferFundsToOwner(ownerAddress, USDT_TOKEN_ADDRESS); if (tx) await refreshBalancesAfterTx(tx); } },
-                { label: 'AVAX', disabled: Number(agentBBal.avax) < 0.001, onClick: async () => { const tx = await agentB.transferFundsToOwner(ownerAddress); if (tx) await refreshBalancesAfterTx(tx); } },
-              ]}
-              onRegister={async () => { await agentB.register(); await refreshBalances(); }}
+            <KeystorePanel
+              retired={keystore.retired.map(k => ({ ...k, label: profileOf(k.agentId)?.label ?? null }))}
+              disabled={isRunning}
+              onExport={() => { try { keystore.exportBackup(registry.profiles); } catch (e: any) { alert(e.message); } }}
+              onImport={async (file, passphrase) => {
+                const added = await registry.importAgents(file, passphrase);
+                alert(added.length > 0 ? `Imported ${added.map(p => p.label).join(', ')}` : 'Every agent in that backup is already here');
+              }}
+              onSweep={sweepRetiredKey}
             />
 
             {/* Transaction log */}
@@ -592,20 +1253,48 @@ function AgentDemo() {
               <div>
                 <p className="text-[11px] font-medium text-muted-foreground uppercase tracking-wider mb-2">Transactions</p>
                 <div className="space-y-1.5 max-h-48 overflow-y-auto">
-                  {allTransactions.map(tx => (
-                    <div key={tx.id} className={`rounded-md px-2.5 py-1.5 text-[11px] border ${tx.status === 'success' ? 'border-green-200 bg-green-50/60' : tx.status === 'failed' ? 'border-red-200 bg-red-50/60' : 'border-border bg-muted/40'}`}>
-                      <div className="flex items-center justify-between">
-                        <span className="font-medium uppercase">{tx.type}</span>
-                        {tx.status === 'success' && <CheckCircle2 className="h-3 w-3 text-green-600" />}
-                        {tx.status === 'failed' && <XCircle className="h-3 w-3 text-destructive" />}
-                        {tx.status === 'pending' && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+                  {allTransactions.map(tx => {
+                    const receipt = tx.txHash ? agents.receipts.find(r => r.txHash === tx.txHash) : undefined;
+                    return (
+                      <div key={tx.id} className={`rounded-md px-2.5 py-1.5 text-[11px] border ${tx.status === 'success' ? 'border-green-200 bg-green-50/60' : tx.status === 'failed' ? 'border-red-200 bg-red-50/60' : 'border-border bg-muted/40'}`}>
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium uppercase">{tx.type.replace('_', ' ')}</span>
+                          {receipt && (
+                            <button onClick={() => setOpenReceiptId(receipt.id)} title="Open receipt" className="ml-auto mr-1.5 inline-flex items-center gap-0.5 text-primary hover:underline">
+                              <Receipt className="h-3 w-3" /> Receipt
+                            </button>
+                          )}
+                          {tx.status === 'success' && <CheckCircle2 className="h-3 w-3 text-green-600" />}
+                          {tx.status === 'failed' && <XCircle className="h-3 w-3 text-destructive" />}
+                          {tx.status === 'pending' && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+                        </div>
+                        {tx.txHash && (
+                          <a href={explorerTxUrl(network, tx.txHash) ?? undefined} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                            {tx.txHash.slice(0, 14)}… <ExternalLink className="inline h-2.5 w-2.5" />
+                          </a>
+                        )}
                       </div>
-                      {tx.txHash && (
-                        <a href={`https://testnet.snowtrace.io/tx/${tx.txHash}`} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
-                          {tx.txHash.slice(0, 14)}… <ExternalLink className="inline h-2.5 w-2.5" />
-                        </a>
-                      )}
-                    </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Receipts */}
+            {allReceipts.length > 0 && (
+              <div>
+                <p className="text-[11px] font-medium text-muted-foreground uppercase tracking-wider mb-2">Receipts</p>
+                <div className="space-y-1 max-h-40 overflow-y-auto">
+                  {allReceipts.map(receipt => (
+                    <button
+                      key={receipt.id}
+                      onClick={() => setOpenReceiptId(receipt.id)}
+                      className="w-full flex items-center gap-2 rounded-md border bg-background px-2.5 py-1.5 text-left text-[11px] hover:bg-muted/60"
+                    >
+                      <Receipt className="h-3 w-3 text-muted-foreground shrink-0" />
+                      <span className="font-mono">{invoiceNumber(receipt)}</span>
+                      <span className="ml-auto font-medium">{receipt.amount} {receipt.token.symbol}</span>
+                    </button>
                   ))}
                 </div>
               </div>
@@ -617,16 +1306,22 @@ function AgentDemo() {
         <main className="flex-1 flex flex-col min-w-0">
 
           {/* Pre-flight banners (inline, compact) */}
-          {initialized && (Number(agentABal.avax) < 0.01 || Number(agentBBal.avax) < 0.01) && (
+          {missing.length > 0 && (
+            <div className="px-5 py-2.5 bg-red-50 border-b border-red-200 text-xs text-red-700 flex items-center gap-2">
+              <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+              {network.label} has no {missing.join(', ')} configured. Add them to VITE_NETWORK_OVERRIDES or switch networks.
+            </div>
+          )}
+          {initialized && (lacksGas(employerId, employerBal, 0.01) || lacksGas(freelancerId, freelancerBal, 0.01)) && (
             <div className="px-5 py-2.5 bg-amber-50 border-b border-amber-200 text-xs text-amber-800 flex items-center gap-2">
               <AlertCircle className="h-3.5 w-3.5 shrink-0" />
-              Fund each agent with AVAX using the sidebar buttons before starting.
+              Fund the selected employer and freelancer with {network.nativeSymbol} using the sidebar buttons before starting.
             </div>
           )}
-          {initialized && Number(agentABal.usdt) === 0 && Number(agentABal.avax) >= 0.01 && Number(agentBBal.avax) >= 0.01 && (
+          {initialized && !canPay(employerId, employerBal) && !lacksGas(employerId, employerBal, 0.01) && !lacksGas(freelancerId, freelancerBal, 0.01) && (
             <div className="px-5 py-2.5 bg-red-50 border-b border-red-200 text-xs text-red-700 flex items-center gap-2">
               <AlertCircle className="h-3.5 w-3.5 shrink-0" />
-              Employer (Agent A) needs USDT to pay the freelancer. Fund via sidebar.
+              {profileOf(employerId)?.label ?? 'The employer'} needs {tokenSymbols(network).join(' or ')} to pay the freelancer. Fund it via the sidebar or delegate it a budget from the header.
             </div>
           )}
 
@@ -646,7 +1341,8 @@ function AgentDemo() {
               )}
 
               {allMessages.map((msg, idx) => {
-                const isA = msg.from === 'agentA';
+                const sender = profileOf(msg.from);
+                const isA = sender?.role === 'employer';
                 const isPayment = msg.type === 'payment';
 
                 // Payment status pills (centered)
@@ -658,7 +1354,7 @@ function AgentDemo() {
                         <span className="font-medium">Payment sent</span>
                         {msg.txHash && (
                           <a
-                            href={`https://testnet.snowtrace.io/tx/${msg.txHash}`}
+                            href={explorerTxUrl(network, msg.txHash) ?? undefined}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="inline-flex items-center gap-1 font-mono text-green-600 hover:text-green-800 underline underline-offset-2"
@@ -696,6 +1392,30 @@ function AgentDemo() {
                   );
                 }
 
+                // Reputation / validation / escrow pills (centered)
+                if (msg.type === 'feedback' || msg.type === 'validation' || msg.type === 'escrow') {
+                  const ok = msg.status === 'success';
+                  const Icon = msg.type === 'feedback' ? Star : msg.type === 'escrow' ? Lock : ShieldCheck;
+                  return (
+                    <div key={msg.id ?? idx} className="flex justify-center">
+                      <div className={`inline-flex items-center gap-2 rounded-full border px-4 py-2 text-xs ${ok ? 'bg-amber-50 border-amber-200 text-amber-700' : 'bg-red-50 border-red-200 text-red-700'}`}>
+                        {ok ? <Icon className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
+                        <span className="font-medium">{msg.message.replace(/^(⭐|🛡️|🔒|↩️|❌)\s*/u, '')}</span>
+                        {msg.txHash && (
+                          <a
+                            href={explorerTxUrl(network, msg.txHash) ?? undefined}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 font-mono underline underline-offset-2"
+                          >
+                            {msg.txHash.slice(0, 10)}… <ExternalLink className="h-3 w-3" />
+                          </a>
+                        )}
+                      </div>
+                    </div>
+                  );
+                }
+
                 // Chat bubble
                 return (
                   <div key={msg.id ?? idx} className={`flex ${isA ? 'justify-end' : 'justify-start'}`}>
@@ -704,7 +1424,7 @@ function AgentDemo() {
                       <div className={`flex items-center gap-1.5 mb-1 ${isA ? 'justify-end' : ''}`}>
                         <CircleDot className={`h-3 w-3 ${isA ? 'text-violet-500' : 'text-emerald-500'}`} />
                         <span className={`text-[11px] font-medium ${isA ? 'text-violet-600' : 'text-emerald-600'}`}>
-                          {isA ? 'Employer' : 'Freelancer'}
+                          {sender?.label ?? (msg.from.startsWith('erc8004:') ? `Agent #${msg.from.slice(8)}` : 'Removed agent')}
                         </span>
                       </div>
                       {/* Bubble */}
@@ -713,15 +1433,31 @@ function AgentDemo() {
                           ? 'bg-violet-50 text-foreground rounded-tr-md'
                           : 'bg-muted text-foreground rounded-tl-md'
                       }`}>
-                        {msg.message}
+                        {msg.streaming && !msg.message
+                          ? <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
+                          : msg.message}
+                        {msg.streaming && msg.message && <span className="ml-0.5 inline-block h-3 w-1 animate-pulse bg-muted-foreground/60 align-middle" />}
                       </div>
+                      {/* Tool call */}
+                      {msg.intent && (
+                        <div className={`flex mt-1 ${isA ? 'justify-end' : ''}`}>
+                          <span className="inline-flex items-center gap-1 rounded-md border border-border/60 bg-background px-2 py-0.5 font-mono text-[10px] text-muted-foreground">
+                            <Wrench className="h-2.5 w-2.5" /> {describeIntent(msg.intent)}
+                          </span>
+                        </div>
+                      )}
                       {/* Meta */}
                       <div className={`flex items-center gap-2 mt-1 ${isA ? 'justify-end' : ''}`}>
                         <span className="text-[10px] text-muted-foreground/60">
                           {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                         </span>
+                        {msg.signedBy && (
+                          <span title={`A2A envelope signed by ${msg.signedBy}`} className="inline-flex items-center gap-0.5 text-[10px] text-muted-foreground/60">
+                            <ShieldCheck className="h-2.5 w-2.5" /> signed
+                          </span>
+                        )}
                         {msg.txHash && (
-                          <a href={`https://testnet.snowtrace.io/tx/${msg.txHash}`} target="_blank" rel="noopener noreferrer" className="text-[10px] text-primary/60 hover:text-primary font-mono">
+                          <a href={explorerTxUrl(network, msg.txHash) ?? undefined} target="_blank" rel="noopener noreferrer" className="text-[10px] text-primary/60 hover:text-primary font-mono">
                             {msg.txHash.slice(0, 8)}… <ExternalLink className="inline h-2.5 w-2.5" />
                           </a>
                         )}
@@ -737,11 +1473,37 @@ function AgentDemo() {
 
           {/* ====== Bottom control bar ====== */}
           <div className="shrink-0 px-5 py-2 mb-2 ">
+            {agents.approvals.map(approval => (
+              <ApprovalRequest
+                key={approval.id}
+                approval={approval}
+                agentLabel={profileOf(approval.agent)?.label ?? approval.agent}
+                onDecide={decision => decideApproval(approval.id, decision)}
+              />
+            ))}
+            {showDirectory && !isRunning && (
+              <DiscoveryPanel
+                agents={directory.agents}
+                loading={directory.loading}
+                progress={directory.progress}
+                onRefresh={directory.refresh}
+                localIdFor={agentId => freelancers.find(p => agents.getState(p.id).id === agentId)?.id ?? null}
+                selectedId={freelancerId}
+                onPick={id => { setFreelancerId(id); setShowDirectory(false); }}
+              />
+            )}
+            {showPaidEndpoints && !isRunning && (
+              <PaidEndpointPanel
+                url={freelancer.state.address ? paidEndpointUrl(freelancer.state.address, '/research/:topic') : null}
+                price={`${RESEARCH_PRICE} ${tokenSymbols(network).join(' / ')}`}
+                onBuy={buyResearch}
+              />
+            )}
             <div className="max-w-2xl mx-auto flex items-center gap-2">
               {!isRunning ? (
                 <Button
                   onClick={startConversation}
-                  disabled={!initialized || !openRouterKey || Number(agentABal.avax) < 0.005 || Number(agentBBal.avax) < 0.005 || Number(agentABal.usdt) === 0}
+                  disabled={!initialized || missingOpenRouterKey || !employerId || !freelancerId || lacksGas(employerId, employerBal, 0.005) || lacksGas(freelancerId, freelancerBal, 0.005) || !canPay(employerId, employerBal)}
                   className="bg-primary text-primary-foreground hover:bg-primary/90 rounded-xl py-1 px-5 text-sm"
                 >
                   <Rocket className="h-4 w-4 mr-1.5" />
@@ -764,6 +1526,8 @@ function AgentDemo() {
                 </>
               )}
 
+              {meter && <MeterBadge meter={meter} />}
+
               {isRunning && (
                 <div className="flex items-center gap-1.5 text-xs text-muted-foreground ml-auto">
                   <span className="relative flex h-2 w-2">
@@ -776,18 +1540,30 @@ function AgentDemo() {
 
               {!isRunning && initialized && (
                 <div className="flex items-center gap-2 ml-auto">
-                  <Button variant="ghost" size="sm" onClick={async () => { await agentA.register(); await refreshBalances(); }} disabled={agentA.state.registered} className="text-xs border border-primary py-1 px-2 rounded-lg">
-                    {agentA.state.registered ? <CheckCircle2 className="h-3 w-3 mr-1 text-green-600" /> : null} Register Agent A
+                  <Button size="sm" variant="ghost" onClick={() => setShowDirectory(v => !v)} title="Browse agents registered on ERC-8004" className={`h-8 w-8 p-0 rounded-lg ${showDirectory ? 'bg-muted' : ''}`}>
+                    <Search className="h-3.5 w-3.5" />
                   </Button>
-                  <Button variant="ghost" size="sm" onClick={async () => { await agentB.register(); await refreshBalances(); }} disabled={agentB.state.registered} className="text-xs border border-primary py-1 px-2 rounded-lg">
-                    {agentB.state.registered ? <CheckCircle2 className="h-3 w-3 mr-1 text-green-600" /> : null} Register Agent B
+                  <Button size="sm" variant="ghost" onClick={() => setShowPaidEndpoints(v => !v)} title="Buy from the freelancer's paid HTTP endpoint (x402)" className={`h-8 w-8 p-0 rounded-lg ${showPaidEndpoints ? 'bg-muted' : ''}`}>
+                    <Globe className="h-3.5 w-3.5" />
                   </Button>
+                  <TranscriptTools canExport={!!lastThreadId} onExport={exportTranscript} onVerify={auditTranscript} />
+                  <ScenarioPicker scenarios={scenarios} value={scenario.id} onChange={selectScenario} onImport={importScenario} />
+                  <MeteringControl scenario={scenario} value={metering} onChange={updateMetering} />
+                  <AgentPicker label={scenario.roles.employer.label} value={employerId} options={employers} onChange={setEmployerId} />
+                  <AgentPicker label={scenario.roles.freelancer.label} value={freelancerId} options={freelancers} onChange={setFreelancerId} />
+                  {[employer, freelancer].filter(a => a.id && !a.state.registered).map(a => (
+                    <Button key={a.id} variant="ghost" size="sm" onClick={async () => { await a.register(); await refreshBalances(); }} className="text-xs border border-primary py-1 px-2 rounded-lg">
+                      Register {profileOf(a.id)?.label}
+                    </Button>
+                  ))}
                 </div>
               )}
             </div>
           </div>
         </main>
       </div>
+
+      {openReceipt && <ReceiptDetail receipt={openReceipt} network={network} onClose={() => setOpenReceiptId(null)} />}
     </div>
   );
 }
@@ -796,25 +1572,45 @@ function AgentDemo() {
 //  Sidebar Agent Card
 // ================================================================
 
-function AgentCard({ label, sublabel, address, balance, registered, agentId, initialized, color, fundActions, withdrawActions, onRegister }: {
+function AgentCard({ label, sublabel, address, balance, network, registered, agentId, reputation, validator, initialized, color, active, fundActions, withdrawActions, onRegister, onRemove, onRotateKey, smartAccount, onToggleSmartAccount, session, onGrantSession, onEndSession, delegations, allowances, onRevoke, llm, onLlmChange, policy, onPolicyChange, cardURI, onUpdateCard }: {
   label: string;
   sublabel: string;
   address: string;
-  balance: { avax: string; usdt: string };
+  balance: Balance;
+  network: NetworkDefinition;
   registered: boolean;
   agentId: string | null;
+  reputation: AgentState['reputation'];
+  validator: string | null;
   initialized: boolean;
   color: 'violet' | 'emerald';
+  active: boolean;
   fundActions: Array<{ label: string; disabled: boolean; onClick: () => void }>;
   withdrawActions: Array<{ label: string; disabled: boolean; onClick: () => Promise<void> }>;
   onRegister: () => Promise<void>;
+  onRemove?: () => void;
+  onRotateKey?: () => Promise<void>;
+  smartAccount: boolean;
+  onToggleSmartAccount?: (smart: boolean) => Promise<void>;
+  session: RelayerSession | null;
+  onGrantSession?: (limit: number, hours: number) => Promise<void>;
+  onEndSession: () => Promise<void>;
+  delegations: Delegation[];
+  allowances: Allowance[];
+  onRevoke: (allowance: Allowance) => Promise<void>;
+  llm: LLMConfig;
+  onLlmChange?: (llm: LLMConfig) => void;
+  policy: SpendingPolicy;
+  onPolicyChange?: (policy: SpendingPolicy) => void;
+  cardURI: string | null;
+  onUpdateCard: () => Promise<void>;
 }) {
   const [expanded, setExpanded] = useState(false);
   const dot = color === 'violet' ? 'bg-violet-500' : 'bg-emerald-500';
   const ring = color === 'violet' ? 'ring-violet-200' : 'ring-emerald-200';
 
   return (
-    <div className="rounded-xl border bg-background p-3 space-y-2.5">
+    <div className={`rounded-xl border bg-background p-3 space-y-2.5 ${active ? 'border-primary/40' : ''}`}>
       {/* Header */}
       <button onClick={() => setExpanded(!expanded)} className="w-full flex items-center justify-between group">
         <div className="flex items-center gap-2.5">
@@ -853,15 +1649,92 @@ function AgentCard({ label, sublabel, address, balance, registered, agentId, ini
 
       {initialized && (
         <div className="flex items-center gap-3 text-[11px] font-medium">
-          <span>{balance.avax} AVAX</span>
+          <span>{balance.native} {network.nativeSymbol}</span>
           <span className="text-muted-foreground">·</span>
-          <span>{balance.usdt} USDT</span>
+          <span>{describeTokens(balance, network)}</span>
+        </div>
+      )}
+
+      {registered && (
+        <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+          <Star className="h-3 w-3 text-amber-500" />
+          {reputation.totalFeedback > 0 ? (
+            <span>
+              <span className="font-medium text-foreground">{reputation.averageScore}</span>/100 · {reputation.totalFeedback} review{reputation.totalFeedback === 1 ? '' : 's'}
+            </span>
+          ) : (
+            <span>No reputation yet</span>
+          )}
+        </div>
+      )}
+
+      {validator !== null && (
+        <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+          <ShieldCheck className="h-3 w-3 text-primary" />
+          <span>Validator · <span className="font-medium text-foreground">{validator}</span> {network.nativeSymbol} staked</span>
+        </div>
+      )}
+
+      <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+        <Bot className="h-3 w-3" />
+        <span>{LLM_PROVIDER_LABELS[llm.provider]} · <span className="font-mono">{llm.model}</span></span>
+      </div>
+
+      <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+        <WalletIcon className="h-3 w-3" />
+        <span className="truncate" title={describePolicy(policy)}>{describePolicy(policy)}</span>
+      </div>
+
+      {smartAccount && (
+        <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+          <Zap className="h-3 w-3 text-primary" />
+          <span>Smart account · gas sponsored</span>
+        </div>
+      )}
+
+      {smartAccount && sessionActive(session) && (
+        <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+          <Timer className="h-3 w-3" />
+          <span className="truncate" title={session.address}>
+            Session key · relayer ≤<span className="font-medium text-foreground">{session.limit}</span> until {new Date(session.validUntil * 1000).toLocaleString()}
+          </span>
+          <Button size="sm" variant="ghost" onClick={onEndSession} className="ml-auto h-5 rounded-md px-1.5 text-[10px] shrink-0">
+            End
+          </Button>
         </div>
       )}
 
+      {delegations.map(d => (
+        <div key={d.tokenAddress} className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+          <Handshake className="h-3 w-3" />
+          <span className="truncate">
+            {delegationActive(d, Date.now() / 1000) ? (
+              <>Owner delegated <span className="font-medium text-foreground">{Number(formatUnits(d.remaining, tokenBySymbol(network, d.token)?.decimals ?? 18))}</span> {d.token} until {new Date(d.validUntil * 1000).toLocaleString()}</>
+            ) : (
+              <>Owner delegation of {d.token} {d.validUntil ? 'expired' : 'without a deadline — revoke it'}</>
+            )}
+          </span>
+        </div>
+      ))}
+
+      {allowances.map(a => (
+        <div key={`${a.tokenAddress}-${a.spender}`} className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+          <KeyRound className={`h-3 w-3 ${a.unlimited ? 'text-destructive' : ''}`} />
+          <span className="truncate" title={a.spender}>
+            {a.spenderLabel} may pull <span className={`font-medium ${a.unlimited ? 'text-destructive' : 'text-foreground'}`}>{a.unlimited ? 'unlimited' : Number(a.amount)}</span> {a.token}
+          </span>
+          <Button size="sm" variant="ghost" onClick={() => onRevoke(a)} className="ml-auto h-5 rounded-md px-1.5 text-[10px] shrink-0">
+            Revoke
+          </Button>
+        </div>
+      ))}
+
       {/* Expanded: actions */}
       {expanded && initialized && address && (
         <div className="space-y-2 pt-1 border-t">
+          {onLlmChange && <ModelSettings value={llm} onChange={onLlmChange} />}
+          {onPolicyChange && <PolicySettings value={policy} tokens={tokenSymbols(network)} onChange={onPolicyChange} />}
+          {smartAccount && onGrantSession && !sessionActive(session) && <SessionSettings onGrant={onGrantSession} />}
           <div className="flex flex-wrap gap-1.5">
             {fundActions.map(a => (
               <Button key={a.label} size="sm" variant="outline" disabled={a.disabled} onClick={a.onClick} className="text-[10px] h-7 rounded-lg px-2.5">
@@ -881,8 +1754,853 @@ function AgentCard({ label, sublabel, address, balance, registered, agentId, ini
               Register on ERC-8004
             </Button>
           )}
+          {registered && (
+            <div className="flex items-center justify-between gap-2 text-[10px] text-muted-foreground">
+              <span className="truncate font-mono" title={cardURI ?? undefined}>
+                <IdCard className="inline h-3 w-3 mr-1" />{cardURI ?? 'No agent card'}
+              </span>
+              <Button size="sm" variant="ghost" onClick={onUpdateCard} className="text-[10px] h-6 rounded-lg px-2 shrink-0">
+                Update card
+              </Button>
+            </div>
+          )}
+          {onToggleSmartAccount && (
+            <Button size="sm" variant="ghost" onClick={() => onToggleSmartAccount(!smartAccount)} className="text-[10px] h-7 rounded-lg w-full text-muted-foreground">
+              <Zap className="h-3 w-3 mr-1" /> {smartAccount ? 'Back to own wallet' : 'Use a smart account'}
+            </Button>
+          )}
+          {onRotateKey && (
+            <Button size="sm" variant="ghost" onClick={onRotateKey} className="text-[10px] h-7 rounded-lg w-full text-muted-foreground">
+              <RotateCw className="h-3 w-3 mr-1" /> Rotate key
+            </Button>
+          )}
+          {onRemove && (
+            <Button size="sm" variant="ghost" onClick={onRemove} className="text-[10px] h-7 rounded-lg w-full text-muted-foreground hover:text-destructive">
+              <Trash2 className="h-3 w-3 mr-1" /> Remove agent
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ================================================================
+//  Keystore: setup and unlock
+// ================================================================
+
+function KeystoreGate({ keystore }: { keystore: Keystore }) {
+  const setup = keystore.status === 'setup';
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [migrating] = useState(() => Object.keys(loadPlaintextKeys()).length);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+  const submit = () => {
+    if (setup && passphrase !== confirmation) { setError("The passphrases don't match"); return; }
+    run(() => (setup ? keystore.setup(passphrase) : keystore.unlock(passphrase)));
+  };
+  const input = 'h-9 w-full rounded-lg border bg-background px-3 text-sm';
+
+  return (
+    <div className="h-screen flex items-center justify-center bg-background p-4">
+      <div className="w-full max-w-sm rounded-xl border p-6 space-y-4">
+        <div className="flex items-center gap-2.5">
+          <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+            {setup ? <KeyRound className="h-4 w-4 text-primary" /> : <Lock className="h-4 w-4 text-primary" />}
+          </div>
+          <span className="font-semibold text-[15px] tracking-tight">{setup ? 'Protect agent keys' : 'Agent keys are locked'}</span>
+        </div>
+        <p className="text-xs text-muted-foreground leading-relaxed">
+          {setup
+            ? `Agent wallet keys are stored encrypted under a passphrase and only decrypted in this tab while unlocked.${migrating > 0 ? ` ${migrating} key${migrating === 1 ? '' : 's'} stored in plaintext by an earlier version will be encrypted and the plaintext deleted.` : ''}`
+            : 'Enter the keystore passphrase to load the agents.'}
+        </p>
+        <input type="password" autoFocus value={passphrase} onChange={e => setPassphrase(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && !setup && !busy) submit(); }}
+          placeholder={setup ? `Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)` : 'Passphrase'} className={input} />
+        {setup && (
+          <input type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter' && !busy) submit(); }}
+            placeholder="Repeat passphrase" className={input} />
+        )}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <Button onClick={submit} disabled={busy || !passphrase} className="w-full rounded-lg">
+          {busy ? <Loader2 className="h-4 w-4 animate-spin mr-1.5" /> : <Unlock className="h-4 w-4 mr-1.5" />}
+          {setup ? 'Create keystore' : 'Unlock'}
+        </Button>
+        {setup ? (
+          <>
+            <Button variant="ghost" onClick={() => fileRef.current?.click()} disabled={busy || !passphrase} className="w-full text-xs rounded-lg">
+              <Upload className="h-3.5 w-3.5 mr-1.5" /> Restore a backup with this passphrase
+            </Button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) run(() => keystore.restore(file, passphrase));
+              }}
+            />
+          </>
+        ) : (
+          <button
+            onClick={() => { if (confirm('Delete the keystore and every agent? Without a backup their keys — and anything their wallets hold — are gone for good.')) keystore.reset(); }}
+            className="w-full text-[11px] text-muted-foreground hover:text-destructive"
+          >
+            Forgot the passphrase? Start over
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ================================================================
+//  Keystore: backups and retired keys
+// ================================================================
+
+function KeystorePanel({ retired, disabled, onExport, onImport, onSweep }: {
+  retired: Array<{ agentId: string; label: string | null; address: string; privateKey: string; retiredAt: number }>;
+  disabled: boolean;
+  onExport: () => void;
+  onImport: (file: File, passphrase: string) => Promise<void>;
+  onSweep: (agentId: string, privateKey: string) => Promise<void>;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const importFile = async () => {
+    if (!file) return;
+    setBusy(true);
+    try {
+      await onImport(file, passphrase);
+      setFile(null);
+      setPassphrase('');
+    } catch (e: any) {
+      alert(e.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex gap-1.5">
+        <Button size="sm" variant="ghost" onClick={onExport} className="flex-1 text-[11px] h-7 rounded-lg text-muted-foreground">
+          <Download className="h-3 w-3 mr-1" /> Back up keys
+        </Button>
+        <Button size="sm" variant="ghost" disabled={disabled} onClick={() => fileRef.current?.click()} className="flex-1 text-[11px] h-7 rounded-lg text-muted-foreground">
+          <Upload className="h-3 w-3 mr-1" /> Import backup
+        </Button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => { setFile(e.target.files?.[0] ?? null); e.target.value = ''; }}
+        />
+      </div>
+      {file && (
+        <div className="flex items-center gap-1.5">
+          <input
+            type="password"
+            autoFocus
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter' && passphrase && !busy) importFile(); }}
+            placeholder={`Passphrase of ${file.name}`}
+            className="h-7 flex-1 min-w-0 rounded-lg border bg-background px-2 text-[11px]"
+          />
+          <Button size="sm" variant="outline" disabled={!passphrase || busy} onClick={importFile} className="h-7 px-2 text-[10px] rounded-lg">
+            {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Import'}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setFile(null)} className="h-7 w-7 p-0 rounded-lg">
+            <X className="h-3 w-3" />
+          </Button>
         </div>
       )}
+      {retired.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-[10px] font-medium text-muted-foreground uppercase tracking-wider">Retired keys</p>
+          {retired.map(k => (
+            <div key={k.address} className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+              <KeyRound className="h-3 w-3 shrink-0" />
+              <span className="truncate" title={`Retired ${new Date(k.retiredAt).toLocaleString()}`}>
+                {k.label ?? 'Removed agent'} · <span className="font-mono">{truncAddr(k.address)}</span>
+              </span>
+              {k.label && (
+                <Button size="sm" variant="ghost" disabled={disabled} onClick={() => onSweep(k.agentId, k.privateKey)} title="Move anything left on this wallet to the agent's current one" className="ml-auto h-5 rounded-md px-1.5 text-[10px] shrink-0">
+                  Sweep
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ================================================================
+//  Per-agent model provider settings
+// ================================================================
+
+function ModelSettings({ value, onChange }: {
+  value: LLMConfig;
+  onChange: (llm: LLMConfig) => void;
+}) {
+  const input = 'h-7 w-full rounded-lg border bg-background px-2 text-[11px] text-foreground';
+  return (
+    <div className="space-y-1.5">
+      <select
+        value={value.provider}
+        onChange={e => onChange(DEFAULT_LLM_CONFIGS[e.target.value as LLMProviderKind])}
+        className={input}
+      >
+        {(Object.keys(LLM_PROVIDER_LABELS) as LLMProviderKind[]).map(kind => (
+          <option key={kind} value={kind}>{LLM_PROVIDER_LABELS[kind]}</option>
+        ))}
+      </select>
+      {value.provider !== 'mock' && (
+        <input
+          value={value.model}
+          onChange={e => onChange({ ...value, model: e.target.value })}
+          placeholder="Model"
+          className={`${input} font-mono`}
+        />
+      )}
+      {value.provider === 'openai-compatible' && (
+        <>
+          <input
+            value={value.baseUrl ?? ''}
+            onChange={e => onChange({ ...value, baseUrl: e.target.value })}
+            placeholder="Base URL, e.g. http://localhost:11434/v1"
+            className={`${input} font-mono`}
+          />
+          <input
+            type="password"
+            value={value.apiKey ?? ''}
+            onChange={e => onChange({ ...value, apiKey: e.target.value || undefined })}
+            placeholder="API key (optional)"
+            className={`${input} font-mono`}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+// ================================================================
+//  Per-agent spending policy
+// ================================================================
+
+// Grant and revoke the budgets agents may draw from the owner's balance
+function DelegationsPanel({ delegations, agents, network, onGrant, onRevoke }: {
+  delegations: Delegation[];
+  /** Local agents with a wallet */
+  agents: Array<{ id: string; label: string; address: string }>;
+  network: NetworkDefinition;
+  onGrant: (agentId: string, token: string, amount: number, hours: number) => Promise<void>;
+  onRevoke: (delegation: Delegation) => Promise<void>;
+}) {
+  const [agentId, setAgentId] = useState(agents[0]?.id ?? '');
+  const [token, setToken] = useState(defaultTokenOf(network).symbol);
+  const [amount, setAmount] = useState('');
+  const [hours, setHours] = useState('24');
+  const [busy, setBusy] = useState(false);
+  const input = 'h-7 w-full rounded-lg border bg-background px-2 text-[11px] text-foreground';
+  const labelOf = (address: string) => agents.find(a => a.address.toLowerCase() === address.toLowerCase())?.label ?? `${address.slice(0, 10)}…`;
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try { await action(); } finally { setBusy(false); }
+  };
+  return (
+    <div className="absolute right-0 top-9 z-20 w-80 rounded-xl border bg-background p-3 shadow-lg space-y-2.5 text-[11px]">
+      <p className="text-muted-foreground">
+        Agents draw from your balance as they pay, up to the amount and until the deadline.
+        {network.delegation ? '' : ` ${network.label} has no delegation contract: these are plain allowances, and only this app keeps the deadline.`}
+      </p>
+      {delegations.length === 0 && <p className="text-muted-foreground">Nothing delegated.</p>}
+      {delegations.map(d => (
+        <div key={`${d.agent}-${d.tokenAddress}`} className="flex items-center gap-1.5">
+          <span className="truncate">
+            <span className="font-medium">{labelOf(d.agent)}</span> · {Number(formatUnits(d.remaining, tokenBySymbol(network, d.token)?.decimals ?? 18))} {d.token}
+            <span className="text-muted-foreground"> · {delegationActive(d, Date.now() / 1000) ? `until ${new Date(d.validUntil * 1000).toLocaleString()}` : 'expired'}</span>
+          </span>
+          <Button size="sm" variant="ghost" disabled={busy} onClick={() => run(() => onRevoke(d))} className="ml-auto h-5 rounded-md px-1.5 text-[10px] shrink-0">
+            Revoke
+          </Button>
+        </div>
+      ))}
+      <div className="space-y-1.5 border-t pt-2.5">
+        <div className="grid grid-cols-2 gap-1.5">
+          <select value={agentId} onChange={e => setAgentId(e.target.value)} className={input}>
+            {agents.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+          </select>
+          <select value={token} onChange={e => setToken(e.target.value)} className={input}>
+            {tokenSymbols(network).map(symbol => <option key={symbol} value={symbol}>{symbol}</option>)}
+          </select>
+          <input type="number" min={0} value={amount} onChange={e => setAmount(e.target.value)} placeholder="Amount" title="Amount" className={input} />
+          <input type="number" min={1} value={hours} onChange={e => setHours(e.target.value)} placeholder="Hours" title="Hours" className={input} />
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={busy || !agentId || !(Number(amount) > 0) || !(Number(hours) > 0)}
+          onClick={() => run(() => onGrant(agentId, token, Number(amount), Number(hours)))}
+          className="text-[10px] h-7 rounded-lg w-full"
+        >
+          {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Delegate'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function SessionSettings({ onGrant }: { onGrant: (limit: number, hours: number) => Promise<void> }) {
+  const [limit, setLimit] = useState('');
+  const [hours, setHours] = useState('24');
+  const [busy, setBusy] = useState(false);
+  const input = 'h-7 w-full rounded-lg border bg-background px-2 text-[11px] text-foreground';
+  const grant = async () => {
+    setBusy(true);
+    try { await onGrant(Number(limit), Number(hours)); } finally { setBusy(false); }
+  };
+  return (
+    <div className="space-y-1.5">
+      <p className="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">Relayer session key</p>
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-1.5">
+        <input type="number" min={0} value={limit} onChange={e => setLimit(e.target.value)} placeholder="Max per approval" title="Max per approval" className={input} />
+        <input type="number" min={1} value={hours} onChange={e => setHours(e.target.value)} placeholder="Hours" title="Hours" className={input} />
+        <Button size="sm" variant="outline" disabled={busy || !(Number(limit) > 0) || !(Number(hours) > 0)} onClick={grant} className="text-[10px] h-7 rounded-lg px-2.5">
+          {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Grant'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function PolicySettings({ value, tokens, onChange }: {
+  value: SpendingPolicy;
+  tokens: string[];
+  onChange: (policy: SpendingPolicy) => void;
+}) {
+  const input = 'h-7 w-full rounded-lg border bg-background px-2 text-[11px] text-foreground';
+  // Empty means no limit
+  const limit = (key: 'maxPerTransaction' | 'dailyCap' | 'sessionCap' | 'approvalThreshold', placeholder: string) => (
+    <input
+      type="number"
+      min={0}
+      value={value[key] ?? ''}
+      onChange={e => onChange({ ...value, [key]: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+      placeholder={placeholder}
+      title={placeholder}
+      className={input}
+    />
+  );
+  // An empty list allows every token, so it's stored empty whenever all are ticked
+  const allowed = value.allowedTokens.length === 0 ? tokens : value.allowedTokens;
+  const toggleToken = (symbol: string) => {
+    const next = allowed.includes(symbol) ? allowed.filter(t => t !== symbol) : [...allowed, symbol];
+    if (next.length === 0) return;
+    onChange({ ...value, allowedTokens: tokens.every(t => next.includes(t)) ? [] : next });
+  };
+  return (
+    <div className="space-y-1.5">
+      <p className="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">Spending policy</p>
+      <div className="grid grid-cols-2 gap-1.5">
+        {limit('maxPerTransaction', 'Max per payment')}
+        {limit('dailyCap', 'Daily cap per token')}
+        {limit('sessionCap', 'Session cap per token')}
+        {limit('approvalThreshold', 'Ask me above')}
+      </div>
+      <input
+        value={value.payeeAllowlist.join(', ')}
+        onChange={e => onChange({ ...value, payeeAllowlist: e.target.value.split(/[\s,#]+/).filter(Boolean) })}
+        placeholder="Pay only agent IDs, e.g. 3, 7 (any if empty)"
+        className={`${input} font-mono`}
+      />
+      <div className="flex flex-wrap items-center gap-1.5 text-[10px] text-muted-foreground">
+        Tokens:
+        {tokens.map(symbol => (
+          <label key={symbol} className="inline-flex items-center gap-1">
+            <input type="checkbox" checked={allowed.includes(symbol)} onChange={() => toggleToken(symbol)} />
+            {symbol}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ================================================================
+//  Conversation pair picker
+// ================================================================
+
+function AgentPicker({ label, value, options, onChange }: {
+  label: string;
+  value: string;
+  options: AgentProfile[];
+  onChange: (id: string) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+      {label}
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="h-8 rounded-lg border bg-background px-2 text-xs text-foreground"
+      >
+        {options.length === 0 && <option value="">None</option>}
+        {options.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+      </select>
+    </label>
+  );
+}
+
+// ================================================================
+//  Registry discovery
+// ================================================================
+
+// The symbol of the token a card prices its work in; cards name it by address, with symbols in `accepts`
+function priceToken(x402: NonNullable<AgentCardFile['x402']>): string {
+  const asset = x402.asset.toLowerCase();
+  return x402.accepts?.find(a => a.asset.toLowerCase() === asset)?.symbol ?? `${x402.asset.slice(0, 8)}…`;
+}
+
+function DiscoveryPanel({ agents, loading, progress, onRefresh, localIdFor, selectedId, onPick }: {
+  agents: DiscoveredAgent[];
+  loading: boolean;
+  progress: { done: number; total: number } | null;
+  onRefresh: (force?: boolean) => Promise<void>;
+  /** Local freelancer profile operating this agent ID, if any */
+  localIdFor: (agentId: string) => string | null;
+  selectedId: string;
+  onPick: (profileId: string) => void;
+}) {
+  const [query, setQuery] = useState('');
+  const results = searchAgents(agents, query);
+  return (
+    <div className="max-w-2xl mx-auto mb-2 rounded-xl border bg-background shadow-sm">
+      <div className="flex items-center gap-2 border-b px-3 py-2">
+        <Search className="h-3.5 w-3.5 text-muted-foreground" />
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search by name, skill or ID"
+          className="flex-1 bg-transparent text-xs outline-none"
+        />
+        <Button size="sm" variant="ghost" disabled={loading} onClick={() => onRefresh(agents.length > 0)} className="h-7 px-2 text-xs rounded-lg">
+          {loading ? <Loader2 className="h-3 w-3 animate-spin mr-1" /> : <RefreshCw className="h-3 w-3 mr-1" />}
+          {progress ? `${progress.done}/${progress.total}` : agents.length === 0 ? 'Scan registry' : 'Refresh'}
+        </Button>
+      </div>
+      <div className="max-h-56 overflow-y-auto divide-y">
+        {results.length === 0 && (
+          <p className="px-3 py-4 text-center text-xs text-muted-foreground">
+            {agents.length === 0 ? 'No agents loaded yet — scan the registry.' : 'No agents match.'}
+          </p>
+        )}
+        {results.map(agent => {
+          const localId = localIdFor(agent.agentId);
+          return (
+            <div key={agent.agentId} className="flex items-center gap-2 px-3 py-2 text-xs">
+              <span className="font-mono text-muted-foreground w-10 shrink-0">#{agent.agentId}</span>
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-1.5">
+                  <span className="font-medium truncate">{agent.card?.name ?? 'Unreadable card'}</span>
+                  {agent.card?.x402?.price !== undefined && <span className="text-muted-foreground">{agent.card.x402.price} {priceToken(agent.card.x402)}</span>}
+                </div>
+                <div className="flex flex-wrap items-center gap-1 mt-0.5">
+                  {agent.card?.skills?.map(skill => (
+                    <Badge key={skill} variant="secondary" className="text-[10px] px-1.5 py-0 font-normal">{skill}</Badge>
+                  ))}
+                  {!agent.card && <span className="text-muted-foreground truncate" title={agent.uri}>{agent.error}</span>}
+                  <span className="font-mono text-muted-foreground">{truncAddr(agent.owner)}</span>
+                </div>
+              </div>
+              {localId ? (
+                <Button size="sm" variant="outline" disabled={localId === selectedId} onClick={() => onPick(localId)} className="h-7 px-2 text-xs rounded-lg">
+                  {localId === selectedId ? 'Selected' : 'Pick'}
+                </Button>
+              ) : (
+                <span className="text-muted-foreground" title="This agent's keys live elsewhere: both sides of a conversation run in this page, so it can't be hired from here">Remote</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// ================================================================
+//  Receipt detail
+// ================================================================
+
+function ReceiptDetail({ receipt, network, onClose }: {
+  receipt: PaymentReceipt;
+  network: NetworkDefinition;
+  onClose: () => void;
+}) {
+  const party = (p: PaymentReceipt['payer'] | PaymentReceipt['payee']) =>
+    `${p.name ? `${p.name} · ` : ''}${p.agentId ? `#${p.agentId} · ` : ''}${truncAddr(p.address)}`;
+  const rows: Array<[string, React.ReactNode]> = [
+    ['Payer', party(receipt.payer)],
+    ['Payee', party(receipt.payee)],
+    ['Amount', `${receipt.amount} ${receipt.token.symbol}`],
+    ['Agreed price', receipt.agreed ? `${receipt.agreed.price} ${receipt.agreed.token}` : '—'],
+    ['Method', RECEIPT_METHOD_LABELS[receipt.method]],
+    ['Conversation', receipt.threadId ?? '—'],
+    ['Transcript hash', receipt.transcriptHash ?? '—'],
+    ...(receipt.resource ? [['Resource', receipt.resource] as [string, React.ReactNode]] : []),
+    ['Facilitator', receipt.facilitator
+      ? `verify ${receipt.facilitator.verify ? (receipt.facilitator.verify.isValid ? 'valid' : receipt.facilitator.verify.invalidReason ?? 'invalid') : '—'} · settle ${receipt.facilitator.settle?.success ? 'success' : receipt.facilitator.settle?.errorReason ?? '—'}`
+      : 'none (on-chain escrow)'],
+    ['Transaction', (
+      <a href={explorerTxUrl(network, receipt.txHash) ?? undefined} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+        {receipt.txHash.slice(0, 18)}… <ExternalLink className="inline h-2.5 w-2.5" />
+      </a>
+    )],
+    ['Block', receipt.blockNumber ?? 'pending'],
+    ['Issued', new Date(receipt.issuedAt).toLocaleString()],
+  ];
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div className="w-full max-w-md rounded-xl border bg-background shadow-lg" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center gap-2 border-b px-4 py-3">
+          <Receipt className="h-4 w-4 text-primary" />
+          <span className="text-sm font-semibold">Receipt {invoiceNumber(receipt)}</span>
+          <Button size="sm" variant="ghost" onClick={onClose} className="ml-auto h-7 w-7 p-0 rounded-lg">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+        <dl className="px-4 py-3 space-y-1.5 text-xs">
+          {rows.map(([label, value]) => (
+            <div key={label} className="flex gap-3">
+              <dt className="w-28 shrink-0 text-muted-foreground">{label}</dt>
+              <dd className="min-w-0 break-all font-mono text-[11px]">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        <div className="flex justify-end gap-2 border-t px-4 py-3">
+          <Button size="sm" variant="outline" onClick={() => downloadReceipt(receipt)} className="h-8 text-xs rounded-lg">
+            <Download className="h-3.5 w-3.5 mr-1" /> JSON
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => { try { openInvoice(receipt, network); } catch (e: any) { alert(e.message); } }} className="h-8 text-xs rounded-lg">
+            <Printer className="h-3.5 w-3.5 mr-1" /> Invoice / PDF
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ================================================================
+//  Transaction awaiting the owner's approval
+// ================================================================
+
+const APPROVAL_KIND_LABELS: Record<PendingApproval['kind'], string> = {
+  payment: 'Payment',
+  approval: 'Token approval',
+  withdrawal: 'Withdrawal',
+};
+
+function ApprovalRequest({ approval, agentLabel, onDecide }: {
+  approval: PendingApproval;
+  agentLabel: string;
+  onDecide: (decision: ApprovalDecision) => void;
+}) {
+  const [amount, setAmount] = useState(String(approval.amount));
+  const chosen = Number(amount);
+  return (
+    <div className="max-w-2xl mx-auto mb-2 rounded-xl border border-amber-300 bg-amber-50 shadow-sm">
+      <div className="flex items-center gap-2 border-b border-amber-200 px-3 py-2 text-xs">
+        <Pause className="h-3.5 w-3.5 text-amber-600" />
+        <span className="font-semibold">{APPROVAL_KIND_LABELS[approval.kind]} by {agentLabel} needs approval</span>
+        <span className="ml-auto shrink-0 text-[11px] text-muted-foreground">{approval.reason}</span>
+      </div>
+      <dl className="px-3 py-2 space-y-1 text-xs">
+        <div className="flex gap-3">
+          <dt className="w-20 shrink-0 text-muted-foreground">To</dt>
+          <dd className="min-w-0 break-all font-mono text-[11px]">
+            {approval.counterpartyAgentId && `#${approval.counterpartyAgentId} · `}{approval.counterparty}
+          </dd>
+        </div>
+        <div className="flex gap-3">
+          <dt className="w-20 shrink-0 text-muted-foreground">Call</dt>
+          <dd className="min-w-0 break-all font-mono text-[11px]">
+            {approval.call.method} on {truncAddr(approval.call.contract)}
+          </dd>
+        </div>
+        {approval.call.args.map(arg => (
+          <div key={arg.name} className="flex gap-3">
+            <dt className="w-20 shrink-0 pl-2 text-muted-foreground font-mono text-[11px]">{arg.name}</dt>
+            <dd className="min-w-0 break-all font-mono text-[11px]">{arg.value}</dd>
+          </div>
+        ))}
+      </dl>
+      <div className="flex items-center gap-2 border-t border-amber-200 px-3 py-2">
+        {approval.editable ? (
+          <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            Amount
+            <input
+              type="number"
+              min={approval.editable.min ?? 0}
+              max={approval.editable.max}
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              className="h-7 w-28 rounded-lg border bg-background px-2 text-xs text-foreground"
+            />
+            {approval.token}
+          </label>
+        ) : (
+          <span className="text-xs font-medium">{approval.amount} {approval.token}</span>
+        )}
+        <Button size="sm" variant="outline" onClick={() => onDecide({ approved: false })} className="ml-auto h-7 px-2.5 text-xs rounded-lg">
+          <XCircle className="h-3 w-3 mr-1" /> Reject
+        </Button>
+        <Button size="sm" onClick={() => onDecide({ approved: true, amount: chosen })} className="h-7 px-2.5 text-xs rounded-lg">
+          <CheckCircle2 className="h-3 w-3 mr-1" /> {chosen !== approval.amount ? 'Approve edited' : 'Approve'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ================================================================
+//  Paid endpoint client (x402 over HTTP)
+// ================================================================
+
+function PaidEndpointPanel({ url, price, onBuy }: {
+  /** The selected freelancer's endpoint, null until it has a wallet */
+  url: string | null;
+  price: string;
+  onBuy: (topic: string) => Promise<{ body: string; amount: string | null; txHash: string | null } | null>;
+}) {
+  const [topic, setTopic] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<{ topic: string; body: string; amount: string | null; txHash: string | null } | null>(null);
+  const buy = async () => {
+    setBusy(true);
+    try {
+      const bought = await onBuy(topic.trim());
+      if (bought) setResult({ topic: topic.trim(), ...bought });
+    } finally {
+      setBusy(false);
+    }
+  };
+  return (
+    <div className="max-w-2xl mx-auto mb-2 rounded-xl border bg-background shadow-sm">
+      <div className="flex items-center gap-2 border-b px-3 py-2">
+        <Globe className="h-3.5 w-3.5 text-muted-foreground" />
+        <span className="font-mono text-[11px] text-muted-foreground truncate" title={url ?? undefined}>GET {url ?? '—'}</span>
+        <span className="ml-auto shrink-0 text-[11px] text-muted-foreground">{price}</span>
+      </div>
+      <div className="flex items-center gap-2 px-3 py-2">
+        <input
+          value={topic}
+          onChange={e => setTopic(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && topic.trim() && url && !busy) buy(); }}
+          placeholder="Research topic"
+          className="flex-1 bg-transparent text-xs outline-none"
+        />
+        <Button size="sm" variant="outline" disabled={!topic.trim() || !url || busy} onClick={buy} className="h-7 px-2 text-xs rounded-lg">
+          {busy && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+          Buy brief
+        </Button>
+      </div>
+      {result && (
+        <div className="border-t px-3 py-2 text-xs space-y-1">
+          <p className="text-muted-foreground">
+            {result.topic} — {result.amount ? `paid ${result.amount}` : 'free'}
+            {result.txHash && <span className="font-mono"> · {result.txHash.slice(0, 10)}…</span>}
+          </p>
+          <p className="whitespace-pre-wrap leading-relaxed max-h-40 overflow-y-auto">{result.body}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ================================================================
+//  Network switcher
+// ================================================================
+
+function NetworkPicker({ value, onChange, disabled }: {
+  value: string;
+  onChange: (name: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <select
+      value={value}
+      disabled={disabled}
+      onChange={e => onChange(e.target.value)}
+      title="Network — agent state is kept separately per network"
+      className="h-7 rounded-lg border bg-background px-2 text-[11px] text-foreground"
+    >
+      {Object.values(NETWORKS).map(n => (
+        <option key={n.name} value={n.name}>
+          {n.label}{missingContracts(n).length > 0 ? ' (not configured)' : ''}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// ================================================================
+//  Transcript export / verification
+// ================================================================
+
+function TranscriptTools({ canExport, onExport, onVerify }: {
+  canExport: boolean;
+  onExport: () => void;
+  onVerify: (file: File) => Promise<void>;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  return (
+    <div className="flex items-center gap-1">
+      <Button size="sm" variant="ghost" disabled={!canExport} onClick={onExport} title="Export signed transcript of the last conversation" className="h-8 w-8 p-0 rounded-lg">
+        <Download className="h-3.5 w-3.5" />
+      </Button>
+      <Button size="sm" variant="ghost" onClick={() => fileRef.current?.click()} title="Verify a transcript file" className="h-8 w-8 p-0 rounded-lg">
+        <FileCheck className="h-3.5 w-3.5" />
+      </Button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={async e => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) await onVerify(file);
+        }}
+      />
+    </div>
+  );
+}
+
+// ================================================================
+//  Scenario picker (built-in + imported JSON)
+// ================================================================
+
+function ScenarioPicker({ scenarios, value, onChange, onImport }: {
+  scenarios: Scenario[];
+  value: string;
+  onChange: (id: string) => void;
+  onImport: (file: File) => Promise<void>;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const current = scenarios.find(sc => sc.id === value);
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        title={current?.description}
+        className="h-8 rounded-lg border bg-background px-2 text-xs text-foreground"
+      >
+        {scenarios.map(sc => <option key={sc.id} value={sc.id}>{sc.name}</option>)}
+      </select>
+      <Button size="sm" variant="ghost" onClick={() => fileRef.current?.click()} title="Import scenario JSON" className="h-8 w-8 p-0 rounded-lg">
+        <Upload className="h-3.5 w-3.5" />
+      </Button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={async e => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) await onImport(file);
+        }}
+      />
+    </div>
+  );
+}
+
+// ================================================================
+//  Metered delivery: settings and running total
+// ================================================================
+
+function MeteringControl({ scenario, value, onChange }: {
+  scenario: Scenario;
+  value: MeteringSettings;
+  onChange: (next: MeteringSettings) => void;
+}) {
+  const supported = !!scenario.metering;
+  const on = supported && value.enabled;
+  const toggle = () => onChange(on
+    ? { ...value, enabled: false }
+    : { enabled: true, chunks: scenario.metering!.chunks, chunkPriceCap: scenario.metering!.chunkPriceCap });
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        size="sm"
+        variant="ghost"
+        disabled={!supported}
+        onClick={toggle}
+        title={supported ? 'Metered delivery: pay per delivered chunk' : 'This scenario has no metered delivery'}
+        className={`h-8 w-8 p-0 rounded-lg ${on ? 'bg-muted text-primary' : ''}`}
+      >
+        <Gauge className="h-3.5 w-3.5" />
+      </Button>
+      {on && (
+        <>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={value.chunks}
+            onChange={e => onChange({ ...value, chunks: Math.max(1, Math.min(10, Math.floor(Number(e.target.value) || 1))) })}
+            title="Chunks"
+            className="h-8 w-12 rounded-lg border bg-background px-1.5 text-xs text-foreground"
+          />
+          <span className="text-[11px] text-muted-foreground">×≤</span>
+          <input
+            type="number"
+            min={0.01}
+            step={0.5}
+            value={value.chunkPriceCap}
+            onChange={e => onChange({ ...value, chunkPriceCap: Math.max(0.01, Number(e.target.value) || 0.01) })}
+            title="Price cap per chunk"
+            className="h-8 w-14 rounded-lg border bg-background px-1.5 text-xs text-foreground"
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+function MeterBadge({ meter }: { meter: Meter }) {
+  return (
+    <div className="flex items-center gap-1.5 rounded-lg border px-2 py-1 text-xs text-muted-foreground" title="Metered delivery: paid so far / total">
+      <Gauge className="h-3.5 w-3.5 text-primary" />
+      <span>{meter.delivered}/{meter.chunks} chunks</span>
+      <span className="font-medium text-foreground">{meter.paid.toFixed(2)} / {meter.total.toFixed(2)} {meter.token}</span>
     </div>
   );
 }
@@ -0,0 +1,216 @@
+/**
+ * Networks the demo can run on.
+ * Avalanche Fuji and mainnet come from the SDK's canonical config. Networks
+ * without a canonical ERC-8004 / x402 deployment get their addresses from
+ * `VITE_NETWORK_OVERRIDES` (JSON keyed by network name), which can also
+ * override any field of the built-in ones, e.g. a private RPC URL.
+ */
+import { fujiNetworkConfig, MAINNET_TOKENS, mainnetNetworkConfig, type NetworkConfig } from '@0xgasless/agent-sdk';
+
+/**
+ * An ERC-20 agents can settle x402 payments in. Every token is paid through
+ * the relayer; the flags record what else the token supports natively.
+ */
+export interface PaymentToken {
+  symbol: string;
+  /** Empty until deployed / configured (see `missingContracts`) */
+  address: string;
+  decimals: number;
+  /** EIP-3009 `transferWithAuthorization` */
+  eip3009: boolean;
+  /** EIP-2612 `permit` */
+  permit: boolean;
+}
+
+export interface NetworkDefinition extends NetworkConfig {
+  label: string;
+  testnet: boolean;
+  nativeSymbol: string;
+  /** Tokens agents may negotiate and pay in; the one at `x402.defaultToken` is the default */
+  tokens: PaymentToken[];
+  faucetUrl?: string;
+  /** 0xGasless bundler and paymaster for the owner's smart wallet; absent where unsupported */
+  oxgas?: { bundlerUrl: string; paymasterUrl: string };
+  /**
+   * Pre-funded dev-node keys. The owner wallet stands in for the 0xGasless
+   * login and the facilitator key settles payments in-process.
+   */
+  devAccounts?: { owner: string; facilitator: string };
+  /** `AgentEscrow` contract; without one, agreed payments are held as signed x402 authorizations */
+  escrow?: string;
+  /** `SpendingDelegation` contract; without one, owner delegations are plain allowances to the agent */
+  delegation?: string;
+}
+
+const STORAGE_KEY = '0xgasless_network';
+
+// anvil / hardhat default accounts #0 and #1 — public keys, local chains only
+const DEV_ACCOUNT_KEYS = [
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+];
+
+function oxgasEndpoints(chainId: number): NetworkDefinition['oxgas'] {
+  return {
+    bundlerUrl: `https://bundler.0xgasless.com/${chainId}`,
+    paymasterUrl: `https://paymaster.0xgasless.com/v1/${chainId}/rpc/${import.meta.env.VITE_0XGAS_API_KEY}`,
+  };
+}
+
+const BUILTIN_NETWORKS: NetworkDefinition[] = [
+  {
+    ...fujiNetworkConfig,
+    label: 'Avalanche Fuji',
+    testnet: true,
+    explorerUrl: 'https://testnet.snowtrace.io',
+    nativeSymbol: 'AVAX',
+    tokens: [
+      { symbol: 'USDT', address: fujiNetworkConfig.x402!.defaultToken!, decimals: 6, eip3009: false, permit: false },
+    ],
+    faucetUrl: 'https://faucet.avalanche.org/',
+    oxgas: oxgasEndpoints(fujiNetworkConfig.chainId),
+  },
+  {
+    ...mainnetNetworkConfig,
+    label: 'Avalanche C-Chain',
+    testnet: false,
+    explorerUrl: 'https://snowtrace.io',
+    nativeSymbol: 'AVAX',
+    // Circle's native USDC supports both; the Tether and bridged tokens neither
+    tokens: [
+      { symbol: 'USDC', address: MAINNET_TOKENS.USDC, decimals: 6, eip3009: true, permit: true },
+      { symbol: 'USDT', address: MAINNET_TOKENS.USDT, decimals: 6, eip3009: false, permit: false },
+      { symbol: 'USDC.e', address: MAINNET_TOKENS['USDC.e'], decimals: 6, eip3009: false, permit: false },
+      { symbol: 'USDT.e', address: MAINNET_TOKENS['USDT.e'], decimals: 6, eip3009: false, permit: false },
+    ],
+    oxgas: oxgasEndpoints(mainnetNetworkConfig.chainId),
+  },
+  {
+    name: 'base-sepolia',
+    label: 'Base Sepolia',
+    testnet: true,
+    chainId: 84532,
+    rpcUrl: 'https://sepolia.base.org',
+    explorerUrl: 'https://sepolia.basescan.org',
+    nativeSymbol: 'ETH',
+    // Circle's test USDC; registries, relayer and facilitator come from overrides
+    x402: { facilitatorUrl: '', defaultToken: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' },
+    tokens: [
+      { symbol: 'USDC', address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', decimals: 6, eip3009: true, permit: true },
+    ],
+    faucetUrl: 'https://faucet.circle.com/',
+    oxgas: oxgasEndpoints(84532),
+  },
+  {
+    name: 'anvil',
+    label: 'Local (anvil)',
+    testnet: true,
+    chainId: 31337,
+    rpcUrl: 'http://127.0.0.1:8545',
+    nativeSymbol: 'ETH',
+    // Contract and token addresses are written by deploy-local.sh into .env.anvil.local
+    x402: { facilitatorUrl: '', domainName: 'A402', domainVersion: '1' },
+    tokens: [
+      { symbol: 'USDT', address: '', decimals: 6, eip3009: true, permit: true },
+      { symbol: 'USDC', address: '', decimals: 6, eip3009: true, permit: true },
+    ],
+    devAccounts: { owner: DEV_ACCOUNT_KEYS[0], facilitator: DEV_ACCOUNT_KEYS[1] },
+  },
+];
+
+function readOverrides(): Record<string, Partial<NetworkDefinition>> {
+  const raw = import.meta.env.VITE_NETWORK_OVERRIDES;
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.warn('⚠️ [Networks] VITE_NETWORK_OVERRIDES is not valid JSON — ignoring it');
+    return {};
+  }
+}
+
+// Tokens merge by symbol, so an override can just fill in an address; new symbols are appended
+function mergeTokens(tokens: PaymentToken[], overrides: Array<Partial<PaymentToken>> = []): PaymentToken[] {
+  const merged = tokens.map(token => ({ ...token, ...overrides.find(o => o.symbol === token.symbol) }));
+  const added = overrides.filter(o => o.symbol && !tokens.some(t => t.symbol === o.symbol));
+  return [
+    ...merged,
+    ...added.map(o => ({ address: '', decimals: 18, eip3009: false, permit: false, ...o }) as PaymentToken),
+  ];
+}
+
+// Nested contract blocks merge field by field so one address can be overridden alone
+function applyOverride(network: NetworkDefinition, override: Partial<NetworkDefinition> = {}): NetworkDefinition {
+  return {
+    ...network,
+    ...override,
+    erc8004: { ...network.erc8004, ...override.erc8004 },
+    x402: network.x402 || override.x402
+      ? { facilitatorUrl: '', ...network.x402, ...override.x402 }
+      : undefined,
+    tokens: mergeTokens(network.tokens, override.tokens),
+  };
+}
+
+export const NETWORKS: Record<string, NetworkDefinition> = (() => {
+  const overrides = readOverrides();
+  return Object.fromEntries(BUILTIN_NETWORKS.map(n => [n.name, applyOverride(n, overrides[n.name])]));
+})();
+
+export const DEFAULT_NETWORK = import.meta.env.VITE_DEFAULT_NETWORK || fujiNetworkConfig.name;
+
+/**
+ * Addresses and URLs the demo needs that this network doesn't have yet.
+ */
+export function missingContracts(network: NetworkDefinition): string[] {
+  const required: Array<[string, string | undefined]> = [
+    ['identity registry', network.erc8004?.identityRegistry],
+    ['reputation registry', network.erc8004?.reputationRegistry],
+    ['validation registry', network.erc8004?.validationRegistry],
+    ['payment token', network.x402?.defaultToken],
+    ...network.tokens.map((t): [string, string] => [`${t.symbol} address`, t.address]),
+    ['x402 relayer', network.x402?.verifyingContract],
+    ['x402 facilitator', network.x402?.facilitatorUrl || (network.devAccounts && 'in-process')],
+  ];
+  return required.filter(([, value]) => !value).map(([label]) => label);
+}
+
+export function loadActiveNetwork(): NetworkDefinition {
+  return NETWORKS[localStorage.getItem(STORAGE_KEY) || DEFAULT_NETWORK] ?? NETWORKS[fujiNetworkConfig.name];
+}
+
+export function saveActiveNetwork(name: string) {
+  localStorage.setItem(STORAGE_KEY, name);
+}
+
+export function networkForChainId(chainId: number): NetworkDefinition | undefined {
+  return Object.values(NETWORKS).find(n => n.chainId === chainId);
+}
+
+/** SDK config with just this network, so `sdk.getNetwork()` resolves to it */
+export function sdkConfigFor(network: NetworkDefinition) {
+  return { networks: { [network.name]: network }, defaultNetwork: network.name };
+}
+
+export function identityRegistryOf(network: NetworkDefinition): string {
+  return network.erc8004?.identityRegistry ?? '';
+}
+
+/** The token at `x402.defaultToken`, or the first configured one */
+export function defaultTokenOf(network: NetworkDefinition): PaymentToken {
+  const address = network.x402?.defaultToken?.toLowerCase();
+  return network.tokens.find(t => t.address.toLowerCase() === address) ?? network.tokens[0];
+}
+
+export function tokenBySymbol(network: NetworkDefinition, symbol: string): PaymentToken | undefined {
+  return network.tokens.find(t => t.symbol.toUpperCase() === symbol.toUpperCase());
+}
+
+/** Symbols of the tokens that have an address on this network */
+export function tokenSymbols(network: NetworkDefinition): string[] {
+  return network.tokens.filter(t => t.address).map(t => t.symbol);
+}
+
+export function explorerTxUrl(network: NetworkDefinition, txHash: string): string | null {
+  return network.explorerUrl ? `${network.explorerUrl}/tx/${txHash}` : null;
+}
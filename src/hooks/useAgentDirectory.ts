@@ -0,0 +1,35 @@
+import { useState, useCallback } from 'react';
+import { Provider } from 'ethers';
+import { NetworkDefinition } from '../config/networks';
+import { CardStorage } from '../services/cardStorage';
+import { cachedAgents, discoverAgents, DiscoveredAgent } from '../services/discovery';
+
+/**
+ * React state over registry discovery. Starts from the cached directory and
+ * only hits the chain when `refresh` is called.
+ */
+export function useAgentDirectory(network: NetworkDefinition, provider: Provider, cardStorage: CardStorage) {
+  const [agents, setAgents] = useState<DiscoveredAgent[]>(() => cachedAgents(network));
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const refresh = useCallback(async (force: boolean = false) => {
+    setLoading(true);
+    try {
+      const found = await discoverAgents(network, provider, cardStorage, {
+        refresh: force,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setAgents(found);
+      console.log(`🔎 [Discovery] Found ${found.length} registered agents`);
+    } catch (e: any) {
+      console.error('❌ [Discovery] Failed to enumerate agents:', e);
+      alert(`Discovery failed: ${e.message}`);
+    } finally {
+      setLoading(false);
+      setProgress(null);
+    }
+  }, [network, provider, cardStorage]);
+
+  return { agents, loading, progress, refresh };
+}
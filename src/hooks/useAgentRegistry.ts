@@ -0,0 +1,69 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Wallet, Provider } from 'ethers';
+import { AgentProfile, AgentRole } from '../types/agent';
+import { createAgentProfile, loadAgentProfiles, saveAgentProfiles } from '../services/agentRegistry';
+import { Keystore } from './useKeystore';
+
+/**
+ * React state over the persisted agent registry: create, update, remove
+ * and hand out connected wallets for every local agent. Keys come from the
+ * (unlocked) keystore, which is updated alongside the profiles.
+ */
+export function useAgentRegistry(provider: Provider, keystore: Keystore) {
+  const [profiles, setProfiles] = useState<AgentProfile[]>(() => loadAgentProfiles());
+
+  useEffect(() => {
+    saveAgentProfiles(profiles);
+  }, [profiles]);
+
+  const wallets = useMemo(() => {
+    const byId: Record<string, Wallet> = {};
+    for (const profile of profiles) {
+      const key = keystore.keys[profile.id];
+      if (key) byId[profile.id] = new Wallet(key, provider);
+    }
+    return byId;
+  }, [profiles, keystore.keys, provider]);
+
+  // The key is stored before the profile, so an agent never exists without one
+  const createAgent = useCallback(async (role: AgentRole) => {
+    const profile = createAgentProfile(role, profiles);
+    await keystore.putKey(profile.id, Wallet.createRandom().privateKey);
+    setProfiles(prev => [...prev, profile]);
+    console.log(`🆕 Created ${profile.label} (${profile.id})`);
+    return profile;
+  }, [profiles, keystore.putKey]);
+
+  const removeAgent = useCallback(async (id: string) => {
+    setProfiles(prev => prev.filter(p => p.id !== id));
+    await keystore.removeKey(id);
+    console.log(`🗑️ Removed agent ${id}`);
+  }, [keystore.removeKey]);
+
+  const updateAgent = useCallback((id: string, patch: Partial<Omit<AgentProfile, 'id'>>) => {
+    setProfiles(prev => prev.map(p => (p.id === id ? { ...p, ...patch } : p)));
+  }, []);
+
+  /** Add the agents in an encrypted backup; see `Keystore.importBackup` */
+  const importAgents = useCallback(async (file: File, passphrase: string) => {
+    const added = await keystore.importBackup(file, passphrase, profiles);
+    setProfiles(prev => [...prev, ...added]);
+    return added;
+  }, [profiles, keystore.importBackup]);
+
+  /**
+   * Give an agent a fresh wallet. The old key is kept in the keystore; moving
+   * funds and identity over is the caller's job.
+   * @returns The new wallet, connected
+   */
+  const rotateKey = useCallback(async (id: string) => (
+    new Wallet(await keystore.rotateKey(id), provider)
+  ), [keystore.rotateKey, provider]);
+
+  /** Put an agent back on the key its last rotation retired, e.g. when nothing could be moved over */
+  const undoRotation = useCallback(async (id: string) => (
+    new Wallet(await keystore.undoRotation(id), provider)
+  ), [keystore.undoRotation, provider]);
+
+  return { profiles, wallets, createAgent, removeAgent, updateAgent, importAgents, rotateKey, undoRotation };
+}
@@ -0,0 +1,2340 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { AgentSDK } from '@0xgasless/agent-sdk';
+import { Signer, Provider, Contract, TransactionResponse, formatEther, formatUnits, parseUnits, id as keccakText } from 'ethers';
+import { AgentState, AgentMessage, AgentProfile, AgentRole, ApprovalDecision, PaymentIntent, PendingApproval, TransactionLog } from '../types/agent';
+import { defaultTokenOf, identityRegistryOf, NetworkDefinition, PaymentToken, sdkConfigFor, tokenBySymbol, tokenSymbols } from '../config/networks';
+import { DealTerms, Scenario } from '../types/scenario';
+import { OpenRouterMessage } from '../services/openrouter';
+import { createLLMProvider } from '../services/llm';
+import { describeIntent, parsePaymentIntent, paymentTools } from '../services/paymentIntent';
+import { getPhase, renderPrompt } from '../services/scenarios';
+import { buildAgentCard, serializeAgentCard } from '../services/agentCard';
+import { CardStorage } from '../services/cardStorage';
+import { findAgentIdByOwner, recordAgentOwner } from '../services/agentIndex';
+import { createLocalFacilitator, Facilitator, PaymentPayload, PaymentRequirements } from '../services/localFacilitator';
+import { createPaidEndpointServer, x402Fetch } from '../services/x402Http';
+import { fetchPaidEndpoint, paidEndpointBase, paidEndpointUrl, servePaidEndpoints as hostPaidEndpoints } from '../services/paidEndpoints';
+import { chainNow, Escrow, escrowContract, escrowIdFor, escrowTimeoutSeconds, HeldAuthorization, loadEscrows, saveEscrows } from '../services/escrow';
+import { loadReceipts, saveReceipts } from '../services/receipts';
+import { delegationActive, drawFromOwner, readDelegations } from '../services/delegation';
+import { DEFAULT_SPENDING_POLICY, evaluateSpend, loadSpendLedger, saveSpendLedger, Spend, spentBy } from '../services/spendingPolicy';
+import { PaymentReceipt } from '../types/receipt';
+import { ROLE_LABELS, ROLE_SKILLS } from '../services/agentRegistry';
+import { endRelayerSession, grantRelayerSession, RelayerSession, SmartAccountEthersSigner } from '../services/smartAccount';
+import { A2APaymentRecord, A2AEnvelope, A2ATransport, AgentMailbox, createAgentMailbox, createEnvelopeId, envelopeToMessage, hashEnvelope, verifyEnvelope } from '../services/transport';
+
+const TOKEN_ABI = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+];
+
+// What an x402 payment comes down to, for the approval queue: the payer signs it, the relayer submits it
+function x402Call(token: { address: string; symbol: string; decimals: number }, payTo: string, amount: string | bigint): PendingApproval['call'] {
+  return {
+    contract: token.address,
+    method: 'transferWithAuthorization (EIP-712, submitted by the x402 relayer)',
+    args: [
+      { name: 'to', value: payTo },
+      { name: 'value', value: `${amount} (${formatUnits(amount, token.decimals)} ${token.symbol})` },
+    ],
+  };
+}
+
+// How often locked escrows are checked for a passed deadline
+const ESCROW_SWEEP_MS = 30_000;
+
+/**
+ * Reads an agent's ERC-8004 reputation and folds it into the shape stored on
+ * `AgentState`. Uses `readAllFeedback` rather than `getSummary` so revoked
+ * entries are skipped and mixed `valueDecimals` are normalised before averaging.
+ */
+async function readReputation(sdk: AgentSDK, agentId: string): Promise<AgentState['reputation']> {
+  const reputation = sdk.erc8004.reputation();
+  const feedback = await reputation.readAllFeedback(agentId);
+
+  let total = 0;
+  let count = 0;
+  feedback.values.forEach((value, i) => {
+    if (feedback.revokedStatuses[i]) return;
+    total += Number(value) / 10 ** feedback.valueDecimals[i];
+    count++;
+  });
+
+  return {
+    totalFeedback: count,
+    averageScore: count > 0 ? Math.round((total / count) * 10) / 10 : 0,
+  };
+}
+
+/**
+ * Reads this agent's stake on the ERC-8004 Validation Registry.
+ */
+async function readValidatorInfo(sdk: AgentSDK, agentId: string): Promise<Pick<AgentState, 'isValidator' | 'stakedAmount'>> {
+  const validation = sdk.erc8004.validation();
+  const info = await validation.getValidatorInfo(agentId);
+  return {
+    isValidator: info.isActive,
+    stakedAmount: formatEther(info.stakedAmount),
+  };
+}
+
+function emptyAgentState(): AgentState {
+  return {
+    id: null,
+    domain: null,
+    address: '',
+    registered: false,
+    balance: '0',
+    reputation: { totalFeedback: 0, averageScore: 0 },
+    isValidator: false,
+    stakedAmount: '0',
+    cardURI: null,
+  };
+}
+
+/**
+ * Optional agent card fields beyond what the profile and wallet provide.
+ */
+export interface AgentCardOptions {
+  description?: string;
+  /** Asking price per task, published in the card's x402 block */
+  price?: number;
+  /** What the agent can do; searched by discovery. Defaults by role. */
+  skills?: string[];
+}
+
+/**
+ * Where in a conversation an AI message is written.
+ */
+export interface AIMessageContext {
+  scenario: Scenario;
+  phase: string;
+  turnNumber: number;
+  /** A2A thread the conversation runs in; history is read from it */
+  threadId: string;
+  /** Budget and tokens under negotiation; defaults to 10 of the network's default token */
+  terms?: DealTerms;
+  /** Index of this exchange within the phase */
+  exchange?: number;
+}
+
+/**
+ * Runs every agent in the local registry.
+ * Hooks can't be called a variable number of times, so agent state, SDKs and
+ * logs are kept per agent ID here and each action takes the acting agent's ID.
+ * `agent(id)` binds those actions back into a single-agent handle.
+ * `owner` is the owner's address, whose delegations agents may draw on; empty until known.
+ */
+export function useAgents(profiles: AgentProfile[], transport: A2ATransport, cardStorage: CardStorage, network: NetworkDefinition, owner: string) {
+  const sdksRef = useRef<Record<string, AgentSDK>>({});
+  const ownerRef = useRef(owner);
+  ownerRef.current = owner;
+  const mailboxesRef = useRef<Record<string, AgentMailbox>>({});
+  // ERC-8004 agent ID → owner address, for verifying envelopes from other tabs
+  const ownersRef = useRef<Record<string, string>>({});
+  const [states, setStates] = useState<Record<string, AgentState>>({});
+  const statesRef = useRef(states);
+  const profilesRef = useRef(profiles);
+  profilesRef.current = profiles;
+  const [messages, setMessages] = useState<AgentMessage[]>([]);
+  const [transactions, setTransactions] = useState<TransactionLog[]>([]);
+  const [escrows, setEscrows] = useState<Escrow[]>(() => loadEscrows(network));
+  const escrowsRef = useRef(escrows);
+  const [receipts, setReceipts] = useState<PaymentReceipt[]>(() => loadReceipts(network));
+  const receiptsRef = useRef(receipts);
+  // Committed payments, for the spending policies' caps
+  const spendLedgerRef = useRef(loadSpendLedger(network));
+  // Transactions waiting for the owner, and how to hand each its decision
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+  const approvalsRef = useRef(approvals);
+  const approvalResolversRef = useRef<Record<string, (decision: ApprovalDecision) => void>>({});
+
+  const getState = useCallback((name: string): AgentState => statesRef.current[name] ?? emptyAgentState(), []);
+
+  const roleOf = useCallback((name: string): AgentRole => (
+    profilesRef.current.find(p => p.id === name)?.role ?? 'employer'
+  ), []);
+
+  // The agent's configured model; the OpenRouter key only matters for OpenRouter agents
+  const providerFor = useCallback((name: string, openRouterKey: string) => (
+    createLLMProvider(profilesRef.current.find(p => p.id === name)?.llm, openRouterKey)
+  ), []);
+
+  // Writes through to the ref as well so async flows see the update immediately
+  const patchState = useCallback((name: string, patch: Partial<AgentState>) => {
+    statesRef.current = {
+      ...statesRef.current,
+      [name]: { ...(statesRef.current[name] ?? emptyAgentState()), ...patch },
+    };
+    setStates(statesRef.current);
+  }, []);
+
+  // Initialize with any ethers Signer (Privy, ethers.Wallet, etc.)
+  const initializeWithSigner = useCallback(async (name: string, signer: Signer, provider: Provider) => {
+    try {
+      console.log(`🔐 [${name}] Initializing agent wallet...`);
+      
+      // Create SDK with signer
+      console.log(`📡 [${name}] Network config:`, network);
+      
+      const agentSDK = new AgentSDK({
+        ...sdkConfigFor(network),
+        signer,
+        provider,
+      });
+      
+      console.log(`✅ [${name}] AgentSDK instance created`);
+      sdksRef.current[name] = agentSDK;
+      
+      const address = await agentSDK.getAddress();
+      patchState(name, { address });
+      console.log(`✅ [${name}] Wallet address:`, address);
+      mailboxesRef.current[name] = createAgentMailbox(signer, address, () => statesRef.current[name]?.id ?? null, transport);
+
+      // Check on-chain registration (enumerable → SDK events → IndexedDB event index → batched scan)
+      try {
+        console.log(`🔍 [${name}] Checking on-chain registration for address: ${address}...`);
+        const agentId = await findAgentIdByOwner(address, network, provider, { identity: agentSDK.erc8004.identity() });
+        console.log(`🔍 [${name}] findAgentIdByOwner result:`, agentId);
+
+        if (agentId) {
+          patchState(name, {
+            id: agentId,
+            domain: `agent-${agentId}`,
+            registered: true,
+          });
+          console.log(`✅ [${name}] On-chain registration verified — Agent ID: ${agentId}`);
+
+          try {
+            const cardURI = await agentSDK.erc8004.identity().tokenURI(agentId);
+            patchState(name, { cardURI });
+          } catch (err: any) {
+            console.warn(`⚠️ [${name}] Could not read agent card URI:`, err.message);
+          }
+
+          try {
+            const reputation = await readReputation(agentSDK, agentId);
+            patchState(name, { reputation });
+            console.log(`⭐ [${name}] Reputation loaded:`, reputation);
+          } catch (err: any) {
+            console.warn(`⚠️ [${name}] Could not load reputation:`, err.message);
+          }
+
+          try {
+            const validator = await readValidatorInfo(agentSDK, agentId);
+            patchState(name, validator);
+            console.log(`🛡️ [${name}] Validator status loaded:`, validator);
+          } catch (err: any) {
+            console.warn(`⚠️ [${name}] Could not load validator status:`, err.message);
+          }
+        } else {
+          console.log(`ℹ️ [${name}] Not registered on-chain — will need to register`);
+        }
+      } catch (err: any) {
+        console.warn(`⚠️ [${name}] Could not verify on-chain registration:`, err.message);
+        console.error(err);
+      }
+    } catch (error: any) {
+      console.error(`Error initializing ${name}:`, error.message);
+    }
+  }, [patchState, transport, network]);
+
+  // Drop a removed agent's SDK and state (its messages stay in the log)
+  const forgetAgent = useCallback((name: string) => {
+    delete sdksRef.current[name];
+    delete mailboxesRef.current[name];
+    const { [name]: _removed, ...rest } = statesRef.current;
+    statesRef.current = rest;
+    setStates(rest);
+  }, []);
+
+  const addMessage = useCallback((msg: Omit<AgentMessage, 'id' | 'timestamp'>) => {
+    const newMessage: AgentMessage = {
+      ...msg,
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: new Date(),
+    };
+    console.log(`📨 [${newMessage.from}] Message added:`, {
+      type: newMessage.type,
+      from: newMessage.from,
+      to: newMessage.to,
+      status: newMessage.status,
+      hasTxHash: !!newMessage.txHash,
+      preview: newMessage.message.substring(0, 50) + '...',
+    });
+    setMessages(prev => [...prev, newMessage]);
+    return newMessage;
+  }, []);
+
+  const addTransaction = useCallback((tx: Omit<TransactionLog, 'id' | 'timestamp'>) => {
+    const newTx: TransactionLog = {
+      ...tx,
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: new Date(),
+    };
+    console.log(`📝 [${newTx.from}] Transaction added:`, {
+      type: newTx.type,
+      from: newTx.from,
+      to: newTx.to,
+      status: newTx.status,
+      hash: newTx.txHash,
+      details: newTx.details,
+      timestamp: newTx.timestamp.toISOString(),
+    });
+    setTransactions(prev => [...prev, newTx]);
+  }, []);
+
+  // Replace an escrow by ID and persist the list
+  const putEscrow = useCallback((escrow: Escrow) => {
+    escrowsRef.current = [...escrowsRef.current.filter(e => e.id !== escrow.id), escrow];
+    setEscrows(escrowsRef.current);
+    saveEscrows(network, escrowsRef.current);
+  }, [network]);
+
+  // Replace a receipt by ID (its transaction hash) and persist the list
+  const putReceipt = useCallback((receipt: PaymentReceipt) => {
+    receiptsRef.current = [...receiptsRef.current.filter(r => r.id !== receipt.id), receipt];
+    setReceipts(receiptsRef.current);
+    saveReceipts(network, receiptsRef.current);
+  }, [network]);
+
+  /**
+   * File a receipt for a settled payment by `name`. The block number is
+   * filled in once the transaction is mined; the conversation fields when
+   * the payer records the payment in its thread (`recordPayment`).
+   */
+  const issueReceipt = useCallback((name: string, payment: {
+    method: PaymentReceipt['method'];
+    payTo: string;
+    asset: string;
+    amount: string;
+    txHash: string;
+    facilitator?: PaymentReceipt['facilitator'];
+    resource?: string;
+  }): PaymentReceipt => {
+    const token = network.tokens.find(t => t.address.toLowerCase() === payment.asset.toLowerCase());
+    const payeeName = Object.keys(statesRef.current).find(n => statesRef.current[n]?.address.toLowerCase() === payment.payTo.toLowerCase());
+    const receipt: PaymentReceipt = {
+      id: payment.txHash,
+      network: network.name,
+      chainId: network.chainId,
+      issuedAt: new Date().toISOString(),
+      method: payment.method,
+      payer: { name, agentId: statesRef.current[name]?.id ?? null, address: statesRef.current[name]?.address ?? '' },
+      payee: { name: payeeName, agentId: payeeName ? statesRef.current[payeeName]?.id ?? null : null, address: payment.payTo },
+      token: { symbol: token?.symbol ?? '?', address: payment.asset, decimals: token?.decimals ?? 0 },
+      amount: token ? formatUnits(payment.amount, token.decimals) : payment.amount,
+      amountBaseUnits: payment.amount,
+      resource: payment.resource,
+      facilitator: payment.facilitator,
+      txHash: payment.txHash,
+      blockNumber: null,
+    };
+    putReceipt(receipt);
+    console.log(`🧾 [${name}] Receipt filed for ${receipt.amount} ${receipt.token.symbol} — TX ${payment.txHash}`);
+
+    sdksRef.current[name]?.getProvider().waitForTransaction(payment.txHash, 1, 120_000)
+      .then(mined => {
+        const current = receiptsRef.current.find(r => r.id === receipt.id);
+        if (mined && current) putReceipt({ ...current, blockNumber: mined.blockNumber });
+      })
+      .catch((e: any) => console.warn(`⚠️ [${name}] Could not read the block of ${payment.txHash}:`, e.message));
+    return receipt;
+  }, [network, putReceipt]);
+
+  // ---- Approval queue ----
+
+  /** Queue a transaction for the owner and wait for their decision */
+  const requestApproval = useCallback((request: Omit<PendingApproval, 'id' | 'requestedAt'>): Promise<ApprovalDecision> => {
+    const approval: PendingApproval = { ...request, id: `${Date.now()}-${Math.random()}`, requestedAt: new Date() };
+    console.log(`⏸️ [${request.agent}] Waiting for the owner to approve a ${request.kind}: ${request.call.method} (${request.reason})`);
+    return new Promise(resolve => {
+      approvalResolversRef.current[approval.id] = resolve;
+      approvalsRef.current = [...approvalsRef.current, approval];
+      setApprovals(approvalsRef.current);
+    });
+  }, []);
+
+  /**
+   * Answer a queued transaction. The decision goes into the transaction log.
+   * @throws {Error} If an edited amount is outside what the request allows
+   */
+  const decideApproval = useCallback((id: string, decision: ApprovalDecision) => {
+    const approval = approvalsRef.current.find(a => a.id === id);
+    const resolve = approvalResolversRef.current[id];
+    if (!approval || !resolve) return;
+
+    const edited = decision.approved && decision.amount !== approval.amount;
+    if (decision.approved && edited) {
+      const { min, max } = approval.editable ?? {};
+      if (!approval.editable) throw new Error(`The amount of this ${approval.kind} can't be changed`);
+      if (!(decision.amount > 0)) throw new Error('Enter an amount above 0');
+      if (min !== undefined && decision.amount < min) throw new Error(`At least ${min} ${approval.token} is needed`);
+      if (max !== undefined && decision.amount > max) throw new Error(`At most ${max} ${approval.token} is available`);
+    }
+
+    approvalsRef.current = approvalsRef.current.filter(a => a.id !== id);
+    setApprovals(approvalsRef.current);
+    delete approvalResolversRef.current[id];
+
+    const what = `${approval.kind} of ${approval.amount} ${approval.token} to ${approval.counterpartyAgentId ? `agent #${approval.counterpartyAgentId}` : approval.counterparty}`;
+    const details = !decision.approved ? `Owner rejected ${what}`
+      : edited ? `Owner approved ${what}, changed to ${decision.amount} ${approval.token}`
+      : `Owner approved ${what}`;
+    console.log(`${decision.approved ? '✅' : '🚫'} [${approval.agent}] ${details}`);
+    addTransaction({
+      type: 'approval',
+      from: approval.agent,
+      to: approval.counterparty,
+      txHash: '',
+      status: decision.approved ? 'success' : 'failed',
+      details,
+    });
+    resolve(decision);
+  }, [addTransaction]);
+
+  // ---- Spending policy ----
+
+  /**
+   * Check a spend against the agent's policy before it signs. Over the
+   * approval threshold it waits in the approval queue, where the owner may
+   * change the amount (within `editable`) or reject it. Blocks are logged
+   * as failed transactions.
+   * @returns The amount to go ahead with
+   * @throws {Error} If the policy blocks it or the owner rejects it
+   */
+  const checkPolicy = useCallback(async (
+    name: string,
+    spend: Omit<Spend, 'payeeAgentId'>,
+    call: PendingApproval['call'],
+    editable: PendingApproval['editable'] = null
+  ): Promise<number> => {
+    const profile = profilesRef.current.find(p => p.id === name);
+    const policy = profile?.policy ?? DEFAULT_SPENDING_POLICY;
+
+    let payeeAgentId = Object.values(statesRef.current).find(s => s.address.toLowerCase() === spend.payee.toLowerCase())?.id ?? null;
+    const sdk = sdksRef.current[name];
+    if (!payeeAgentId && policy.payeeAllowlist.length > 0 && sdk) {
+      payeeAgentId = await findAgentIdByOwner(spend.payee, network, sdk.getProvider(), { identity: sdk.erc8004.identity() }).catch(() => null);
+    }
+
+    const blocked = (reason: string) => {
+      console.warn(`🚫 [${name}] ${reason}`);
+      addTransaction({
+        type: 'payment',
+        from: name,
+        to: spend.payee,
+        txHash: '',
+        status: 'failed',
+        details: reason,
+      });
+      return new Error(reason);
+    };
+
+    const verdict = evaluateSpend(policy, { ...spend, payeeAgentId }, spentBy(spendLedgerRef.current, name, spend.token));
+    if (!verdict.allowed) throw blocked(`Blocked by spending policy: ${verdict.reason}`);
+    if (!verdict.needsApproval) return spend.amount;
+
+    const decision = await requestApproval({
+      agent: name,
+      kind: spend.kind,
+      amount: spend.amount,
+      token: spend.token,
+      counterparty: spend.payee,
+      counterpartyAgentId: payeeAgentId,
+      call,
+      editable,
+      reason: `over the ${policy.approvalThreshold} approval threshold`,
+    });
+    if (!decision.approved) throw new Error(`Rejected by owner: ${spend.amount} ${spend.token} ${spend.kind}`);
+    const amount = decision.amount;
+
+    // An edited payment still has to fit the limits, counted as of now
+    if (amount !== spend.amount) {
+      const recheck = evaluateSpend(policy, { ...spend, amount, payeeAgentId }, spentBy(spendLedgerRef.current, name, spend.token));
+      if (!recheck.allowed) throw blocked(`Blocked by spending policy: ${recheck.reason}`);
+    }
+    return amount;
+  }, [network, addTransaction, requestApproval]);
+
+  // Count a committed payment towards the agent's caps; `ref` ties it to an escrow
+  const recordSpend = useCallback((name: string, amount: number, token: string, ref?: string) => {
+    spendLedgerRef.current = [...spendLedgerRef.current, { agent: name, amount, token, at: Date.now(), ref }];
+    saveSpendLedger(network, spendLedgerRef.current);
+  }, [network]);
+
+  // Re-count an escrowed spend once it settles: what was paid, or 0 on refund
+  const adjustSpend = useCallback((ref: string, amount: number) => {
+    spendLedgerRef.current = spendLedgerRef.current
+      .map(r => (r.ref === ref ? { ...r, amount } : r))
+      .filter(r => r.amount > 0);
+    saveSpendLedger(network, spendLedgerRef.current);
+  }, [network]);
+
+  // Patch a message in place — used to grow a streaming reply chunk by chunk
+  const updateMessage = useCallback((id: string, patch: Partial<Omit<AgentMessage, 'id'>>) => {
+    setMessages(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
+  }, []);
+
+  // ---- A2A transport ----
+  // Local agents are trusted by key; anyone else must own the ERC-8004 ID they claim
+  const resolveOwner = useCallback(async (agentId: string): Promise<string | null> => {
+    const local = Object.keys(mailboxesRef.current).find(name => statesRef.current[name]?.id === agentId);
+    if (local) return statesRef.current[local].address;
+    if (ownersRef.current[agentId]) return ownersRef.current[agentId];
+    const provider = Object.values(sdksRef.current)[0]?.getProvider();
+    if (!provider) return null;
+    try {
+      const registry = new Contract(identityRegistryOf(network), ['function ownerOf(uint256 tokenId) view returns (address)'], provider);
+      const owner: string = await registry.ownerOf(BigInt(agentId));
+      ownersRef.current[agentId] = owner;
+      return owner;
+    } catch {
+      return null;
+    }
+  }, [network]);
+
+  // Verify every envelope on the transport, hand it to the addressed mailbox
+  // and show it in the chat (our own sends are already there, same ID).
+  // Anyone on the transport can send anything: whatever fails is dropped
+  useEffect(() => transport.subscribe(async envelope => {
+    try {
+      const problem = await verifyEnvelope(envelope, resolveOwner, Object.values(sdksRef.current)[0]?.getProvider());
+      if (problem) {
+        console.warn(`⚠️ [A2A] Dropped envelope ${envelope?.id}: ${problem}`);
+        return;
+      }
+      Object.values(mailboxesRef.current).forEach(mailbox => mailbox.deliver(envelope));
+      if (envelope.body.payment) return;
+      const localIdFor = (agentId: string) =>
+        Object.keys(statesRef.current).find(name => statesRef.current[name]?.id === agentId) ?? null;
+      const message = envelopeToMessage(envelope, localIdFor);
+      setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+    } catch (error: any) {
+      console.warn(`⚠️ [A2A] Dropped envelope ${envelope?.id}: ${error.message}`);
+    }
+  }), [transport, resolveOwner]);
+
+  /**
+   * Sign a receipt for a settled payment into the thread, so the transcript
+   * ties the on-chain transfer to the conversation that agreed to it.
+   */
+  const recordPayment = useCallback(async (name: string, to: string, threadId: string, payment: A2APaymentRecord, agreed?: PaymentReceipt['agreed']) => {
+    const mailbox = mailboxesRef.current[name];
+    const peerAgentId = statesRef.current[to]?.id;
+    if (!mailbox || !peerAgentId) return null;
+    // The owner may have changed the amount when approving it: record what was actually paid
+    const filed = receiptsRef.current.find(r => r.id === payment.txHash);
+    if (filed && Number(filed.amount) !== payment.amount) payment = { ...payment, amount: Number(filed.amount) };
+    try {
+      const envelope = await mailbox.send(peerAgentId, threadId, {
+        text: `Paid ${payment.amount} ${payment.token}${payment.metered ? ` for chunk ${payment.metered.chunk}/${payment.metered.of}` : ''} — tx ${payment.txHash}`,
+        payment,
+      });
+      // The receipt envelope's hash covers the whole thread before it
+      const receipt = receiptsRef.current.find(r => r.id === payment.txHash);
+      if (receipt) putReceipt({ ...receipt, agreed, threadId, transcriptHash: hashEnvelope(envelope) });
+      return envelope;
+    } catch (error: any) {
+      console.warn(`⚠️ [${name}] Could not record payment receipt:`, error.message);
+      return null;
+    }
+  }, [putReceipt]);
+
+  // Every envelope of a thread held by any local mailbox, for transcript export
+  const threadEnvelopes = useCallback((threadId: string): A2AEnvelope[] => (
+    Object.values(mailboxesRef.current).flatMap(mailbox => [...mailbox.outbox, ...mailbox.inbox])
+      .filter(envelope => envelope.threadId === threadId)
+  ), []);
+
+  const updateTransaction = useCallback((txHash: string, status: 'success' | 'failed') => {
+    console.log(`🔄 Transaction updated:`, {
+      hash: txHash,
+      newStatus: status,
+    });
+    setTransactions(prev =>
+      prev.map(tx => {
+        if (tx.txHash === txHash) {
+          console.log(`  ✅ Updated transaction ${txHash.slice(0, 10)}... from ${tx.status} to ${status}`);
+          return { ...tx, status };
+        }
+        return tx;
+      })
+    );
+  }, []);
+
+  /**
+   * Build the agent's ERC-8004 card from its profile and wallet, store it and
+   * return its content-addressed URI. Pass the agent ID once it has one.
+   */
+  const publishAgentCard = useCallback(async (name: string, agentId: string | null, options: AgentCardOptions = {}) => {
+    const profile = profilesRef.current.find(p => p.id === name);
+    const role = profile?.role ?? 'employer';
+    const address = statesRef.current[name]?.address ?? '';
+    const card = buildAgentCard({
+      name: profile?.label ?? name,
+      description: options.description ?? `${ROLE_LABELS[role]} agent in the 0xGasless agent-to-agent demo`,
+      address,
+      chainId: network.chainId,
+      identityRegistry: identityRegistryOf(network),
+      agentId,
+      a2aEndpoint: transport.endpoint,
+      // Freelancers sell research briefs over HTTP 402 (see servePaidEndpoints)
+      x402Endpoint: role === 'freelancer' && address ? paidEndpointUrl(address, '') : undefined,
+      asset: defaultTokenOf(network).address,
+      accepts: network.tokens.filter(t => t.address).map(t => ({ symbol: t.symbol, asset: t.address, decimals: t.decimals })),
+      facilitator: network.x402?.facilitatorUrl ?? '',
+      price: options.price,
+      skills: options.skills ?? ROLE_SKILLS[role],
+    });
+    const uri = await cardStorage.put(serializeAgentCard(card));
+    console.log(`🪪 [${name}] Agent card stored in ${cardStorage.name}: ${uri}`);
+    return uri;
+  }, [transport, cardStorage, network]);
+
+  const register = useCallback(async (name: string, options: AgentCardOptions = {}) => {
+    const sdk = sdksRef.current[name];
+    if (!sdk) {
+      console.error(`[${name}] SDK not initialized`);
+      return;
+    }
+
+    try {
+      const address = await sdk.getAddress();
+      console.log(`${name} wallet address:`, address);
+
+      const identity = sdk.erc8004.identity();
+      const domain = `${name}-${Date.now()}`;
+      // The first card can't list the agent ID yet; `updateAgentCard` adds it
+      const agentCardURI = await publishAgentCard(name, null, options);
+      
+      console.log(`${name} registering with domain:`, domain);
+      
+      // Direct signing (will show Privy modal)
+      const tx = await identity.register(agentCardURI);
+      
+      console.log(`${name} registration TX:`, tx.hash);
+      
+      addTransaction({
+        type: 'register',
+        from: name,
+        txHash: tx.hash,
+        status: 'pending',
+        details: `Registering agent with URI: ${agentCardURI}`,
+      });
+
+      console.log(`⏳ [${name}] Waiting for transaction confirmation...`);
+      const receipt = await tx.wait();
+      if (receipt) {
+        console.log(`✅ [${name}] Transaction confirmed!`, {
+          blockNumber: receipt.blockNumber,
+          gasUsed: receipt.gasUsed?.toString(),
+          status: receipt.status,
+        });
+      }
+      
+      // Try to get Agent ID directly from receipt logs first (Faster & avoids RPC query limits)
+      let agentId = null;
+      if (receipt) {
+        try {
+          // Event: Registered(uint256 indexed agentId, string agentURI, address indexed owner)
+          // Topic 0: 0xca52e62c367d81bb2e328eb795f7c7ba24afb478408a26c0e201d155c449bc4a
+          const REGISTERED_TOPIC = '0xca52e62c367d81bb2e328eb795f7c7ba24afb478408a26c0e201d155c449bc4a';
+          
+          const registeredLog = receipt.logs.find((log: any) => log.topics[0] === REGISTERED_TOPIC);
+          if (registeredLog) {
+            // agentId is first indexed param (topic 1)
+            const idHex = registeredLog.topics[1];
+            agentId = BigInt(idHex).toString();
+            console.log(`✅ [${name}] Found Agent ID in receipt logs: ${agentId}`);
+          }
+        } catch (parseError) {
+          console.warn(`⚠️ [${name}] Failed to parse receipt logs, falling back to query:`, parseError);
+        }
+      }
+
+      // Fallback to query if not found in receipt
+      if (!agentId) {
+        agentId = await findAgentIdByOwner(address, network, sdk.getProvider(), { identity });
+      } else if (receipt) {
+        recordAgentOwner(network, agentId, address, receipt.blockNumber)
+          .catch(e => console.warn(`⚠️ [${name}] Could not index new agent ID:`, e.message));
+      }
+      
+      if (agentId) {
+        console.log(`✅ [${name}] Agent registered successfully:`, {
+          id: agentId,
+          domain: domain,
+          owner: address,
+        });
+        patchState(name, {
+          id: agentId,
+          domain: domain,
+          registered: true,
+          cardURI: agentCardURI,
+        });
+
+        updateTransaction(tx.hash, 'success');
+        addMessage({
+          from: name,
+          to: name,
+          message: `✅ Successfully registered as agent! ID: ${agentId}`,
+          type: 'transaction',
+          txHash: tx.hash,
+          status: 'success',
+        });
+      }
+    } catch (error: any) {
+      console.error(`\n❌ [${name}] Registration Error:`, {
+        errorType: error.constructor.name,
+        message: error.message,
+        code: error.code,
+        stack: error.stack,
+      });
+      const errorMsg = error.message || String(error);
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Registration failed: ${errorMsg}`,
+        type: 'transaction',
+        status: 'failed',
+      });
+      
+      if (error.transaction?.hash) {
+        addTransaction({
+          type: 'register',
+          from: name,
+          txHash: error.transaction.hash,
+          status: 'failed',
+          details: `Registration failed: ${errorMsg}`,
+        });
+      }
+    }
+  }, [patchState, publishAgentCard, addMessage, addTransaction, updateTransaction, network]);
+
+  /**
+   * Regenerate the card of an already-registered agent (now including its
+   * agent ID), store it and point the on-chain `tokenURI` at it.
+   */
+  const updateAgentCard = useCallback(async (name: string, options: AgentCardOptions = {}) => {
+    const sdk = sdksRef.current[name];
+    const agentId = statesRef.current[name]?.id;
+    if (!sdk || !agentId) {
+      console.error(`[${name}] Agent must be initialized and registered to update its card`);
+      return null;
+    }
+
+    try {
+      const agentCardURI = await publishAgentCard(name, agentId, options);
+      if (agentCardURI === statesRef.current[name]?.cardURI) {
+        console.log(`ℹ️ [${name}] Agent card unchanged — nothing to update`);
+        return null;
+      }
+
+      const tx = await sdk.erc8004.identity().setAgentURI(agentId, agentCardURI);
+      console.log(`🪪 [${name}] setAgentURI TX: ${tx.hash}`);
+      addTransaction({
+        type: 'card',
+        from: name,
+        txHash: tx.hash,
+        status: 'pending',
+        details: `Updating agent card to ${agentCardURI}`,
+      });
+
+      const receipt = await tx.wait();
+      if (receipt && receipt.status === 1) {
+        updateTransaction(tx.hash, 'success');
+        patchState(name, { cardURI: agentCardURI });
+        addMessage({
+          from: name,
+          to: name,
+          message: `🪪 Agent card updated: ${agentCardURI}`,
+          type: 'transaction',
+          txHash: tx.hash,
+          status: 'success',
+        });
+        return tx.hash;
+      }
+      updateTransaction(tx.hash, 'failed');
+      return null;
+    } catch (error: any) {
+      console.error(`❌ [${name}] Agent card update failed:`, error.message);
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Agent card update failed: ${error.message}`,
+        type: 'transaction',
+        status: 'failed',
+      });
+      return null;
+    }
+  }, [patchState, publishAgentCard, addMessage, addTransaction, updateTransaction]);
+
+  // Hosted facilitator, or the in-process one on local dev chains
+  const facilitatorFor = useCallback((sdk: AgentSDK): Facilitator => (
+    network.devAccounts ? createLocalFacilitator(network, sdk.getProvider()) : sdk.getFacilitator()
+  ), [network]);
+
+  /**
+   * How much of `required` (base units) the owner's delegation covers when
+   * the agent's `balance` falls short: the whole shortfall if it has an
+   * active delegation of `token` that can, otherwise 0 and the caller's
+   * balance check decides.
+   */
+  const delegatedShortfall = useCallback(async (name: string, agentAddress: string, token: PaymentToken, required: bigint, balance: bigint): Promise<bigint> => {
+    const owner = ownerRef.current;
+    const provider = sdksRef.current[name]?.getProvider();
+    if (!owner || !provider || balance >= required) return 0n;
+    const shortfall = required - balance;
+    const delegation = (await readDelegations(provider, network, owner, [agentAddress])).find(d => d.token === token.symbol);
+    if (!delegation || !delegationActive(delegation, await chainNow(provider)) || BigInt(delegation.remaining) < shortfall) return 0n;
+    return shortfall;
+  }, [network]);
+
+  /**
+   * Draw `amount` (base units) from the owner's delegation. Called last,
+   * right before signing or locking, so nothing is drawn for a payment the
+   * owner rejected or that failed on the way: the agent only ever holds what
+   * it is about to pay.
+   */
+  const drawDelegated = useCallback(async (name: string, signer: Signer, token: PaymentToken, amount: bigint) => {
+    const owner = ownerRef.current;
+    const label = `${formatUnits(amount, token.decimals)} ${token.symbol}`;
+    console.log(`🤝 [${name}] Drawing ${label} from the owner's delegation...`);
+    const tx = await drawFromOwner(signer, network, owner, token, amount);
+    addTransaction({ type: 'delegation', from: name, to: owner, txHash: tx.hash, status: 'pending', details: `Drawing ${label} from the owner's delegation` });
+    const receipt = await tx.wait();
+    if (!receipt || receipt.status !== 1) {
+      updateTransaction(tx.hash, 'failed');
+      throw new Error(`Drawing ${label} from the owner's delegation failed`);
+    }
+    updateTransaction(tx.hash, 'success');
+  }, [network, addTransaction, updateTransaction]);
+
+  /**
+   * Approve `spender` for `needed` (base units) of `token`, up from or down
+   * from `current`, and record it as an allowance transaction. Raising it
+   * goes through the owner's approval queue when it is over the agent's
+   * threshold. Throws if the owner rejects it or the approval fails.
+   */
+  const approveSpender = useCallback(async (name: string, tokenContract: Contract, token: PaymentToken, spender: string, spenderLabel: string, needed: bigint, current: bigint) => {
+    let allowance = needed;
+    const neededUnits = Number(formatUnits(needed, token.decimals));
+    const policy = profilesRef.current.find(p => p.id === name)?.policy ?? DEFAULT_SPENDING_POLICY;
+    if (needed > current && policy.approvalThreshold !== null && neededUnits > policy.approvalThreshold) {
+      const decision = await requestApproval({
+        agent: name,
+        kind: 'approval',
+        amount: neededUnits,
+        token: token.symbol,
+        counterparty: spender,
+        counterpartyAgentId: null,
+        call: {
+          contract: token.address,
+          method: 'approve',
+          args: [
+            { name: 'spender', value: `${spender} (${spenderLabel})` },
+            { name: 'amount', value: `${needed} (${neededUnits} ${token.symbol})` },
+          ],
+        },
+        editable: { min: neededUnits },
+        reason: `over the ${policy.approvalThreshold} approval threshold`,
+      });
+      if (!decision.approved) throw new Error(`Rejected by owner: ${token.symbol} allowance for ${spenderLabel}`);
+      if (decision.amount !== neededUnits) allowance = parseUnits(decision.amount.toFixed(token.decimals), token.decimals);
+    }
+
+    const label = `${formatUnits(allowance, token.decimals)} ${token.symbol}`;
+    console.log(needed > current ? `  ⚠️ Insufficient allowance, approving ${label} for ${spenderLabel}...` : `  ✂️ Reducing ${spenderLabel}'s allowance to ${label}...`);
+    // Direct signing (will show Privy modal)
+    const approveTx = await tokenContract.approve(spender, allowance);
+    console.log(`  📝 Approval TX: ${approveTx.hash}`);
+    addTransaction({
+      type: 'allowance',
+      from: name,
+      to: spender,
+      txHash: approveTx.hash,
+      status: 'pending',
+      details: `Allowing ${spenderLabel} to pull ${label}`,
+    });
+    const approveReceipt = await approveTx.wait();
+    if (!approveReceipt || approveReceipt.status !== 1) {
+      updateTransaction(approveTx.hash, 'failed');
+      throw new Error(`Approving ${spenderLabel} for ${label} failed`);
+    }
+    updateTransaction(approveTx.hash, 'success');
+    console.log(`  ✅ Approval confirmed in block: ${approveReceipt.blockNumber}`);
+  }, [requestApproval, addTransaction, updateTransaction]);
+
+  /**
+   * Sign an x402 authorization for `requirements`, after checking the
+   * balance and approving the relayer for what it will pull. `replaces` names
+   * an escrow whose held authorization this one supersedes; the allowance is
+   * lowered so the relayer can't pull that one too. Throws on failure.
+   */
+  const signPayment = useCallback(async (name: string, requirements: PaymentRequirements, replaces?: string): Promise<PaymentPayload> => {
+    const sdk = sdksRef.current[name];
+    if (!sdk) throw new Error(`${name} SDK not initialized`);
+
+    const token = network.tokens.find(t => t.address && t.address.toLowerCase() === requirements.asset.toLowerCase());
+    if (!token) throw new Error(`${requirements.asset} is not a supported payment token on ${network.label}`);
+    // Requirements may come from another agent's 402: never approve or sign for a relayer we don't know
+    const relayerAddress = network.x402?.verifyingContract || '';
+    if (requirements.network !== network.name || requirements.relayerContract.toLowerCase() !== relayerAddress.toLowerCase()) {
+      throw new Error(`Payment requirements are for ${requirements.network} relayer ${requirements.relayerContract}, not ${network.label}'s`);
+    }
+
+    // Approve relayer if needed
+    const signer = sdk.getSigner();
+    const tokenAddress = token.address;
+    // Drawn from the owner's delegation only once everything else is settled
+    let fromOwner = 0n;
+    
+    console.log(`🔐 Checking token approval...`);
+    console.log(`  Token: ${tokenAddress}`);
+    console.log(`  Relayer: ${relayerAddress}`);
+    
+    if (tokenAddress && relayerAddress) {
+      // Use signer directly - it's already connected to the provider
+      // JsonRpcSigner doesn't support connect(), so we use it as-is
+      const tokenContract = new Contract(tokenAddress, TOKEN_ABI, signer);
+      const walletAddress = await signer.getAddress();
+      
+      // Check balance first, counting what the owner's delegation will cover
+      const balance = await tokenContract.balanceOf(walletAddress);
+      const decimals = Number(await tokenContract.decimals());
+      if (decimals !== token.decimals) {
+        throw new Error(`${token.symbol} reports ${decimals} decimals but is configured with ${token.decimals}`);
+      }
+      const requiredAmount = BigInt(requirements.maxAmountRequired);
+      
+      console.log(`💰 Balance check:`);
+      console.log(`  Current balance: ${balance.toString()} (${formatUnits(balance, decimals)} ${token.symbol})`);
+      console.log(`  Required amount: ${requiredAmount.toString()} (${formatUnits(requiredAmount, decimals)} ${token.symbol})`);
+      fromOwner = await delegatedShortfall(name, walletAddress, token, requiredAmount, balance);
+      if (fromOwner > 0n) console.log(`  Owner's delegation covers: ${fromOwner.toString()} (${formatUnits(fromOwner, decimals)} ${token.symbol})`);
+      
+      if (balance + fromOwner < requiredAmount) {
+        const errorMsg = `Insufficient balance! Need ${formatUnits(requiredAmount, decimals)} ${token.symbol} but only have ${formatUnits(balance, decimals)} ${token.symbol}`;
+        console.error(`  ❌ ${errorMsg}`);
+        throw new Error(errorMsg);
+      }
+      console.log(`  ✅ Sufficient balance`);
+      
+      // Authorizations held for locked escrows are still to be pulled, so the allowance has to keep covering them
+      const outstanding = escrowsRef.current
+        .filter(e => e.payer === name && e.status === 'locked' && e.authorization && e.token === token.symbol && e.id !== replaces)
+        .reduce((sum, e) => sum + BigInt(e.amount), 0n);
+      const neededAllowance = requiredAmount + outstanding;
+
+      // Check allowance
+      const currentAllowance = await tokenContract.allowance(walletAddress, relayerAddress);
+      console.log(`🔐 Allowance check:`);
+      console.log(`  Current allowance: ${currentAllowance.toString()} (${formatUnits(currentAllowance, decimals)} ${token.symbol})`);
+      console.log(`  Needed allowance: ${neededAllowance.toString()} (${formatUnits(neededAllowance, decimals)} ${token.symbol}, ${formatUnits(outstanding, decimals)} of it held for escrows)`);
+
+      if (currentAllowance < neededAllowance) {
+        // Approve exactly what's needed, so the relayer can never pull more than was signed for
+        await approveSpender(name, tokenContract, token, relayerAddress, 'the x402 relayer', neededAllowance, currentAllowance);
+      } else if (replaces && currentAllowance > neededAllowance) {
+        // The replaced authorization is for more and stays valid until it expires: shrink the allowance so it can't be pulled
+        await approveSpender(name, tokenContract, token, relayerAddress, 'the x402 relayer', neededAllowance, currentAllowance);
+      } else {
+        console.log(`  ✅ Sufficient allowance`);
+      }
+    }
+
+    if (fromOwner > 0n) await drawDelegated(name, signer, token, fromOwner);
+
+    const { createPaymentPayload } = await import('@0xgasless/agent-sdk');
+    console.log(`🔐 Creating payment payload...`);
+    const payload = await createPaymentPayload(requirements, signer as any, network);
+    console.log(`✅ Payment payload created`);
+    return payload;
+  }, [network, approveSpender, delegatedShortfall, drawDelegated]);
+
+  /**
+   * Everything short of settling an x402 payment of `amount` (base units):
+   * sign the authorization (valid for `timeoutSeconds`) and have the
+   * facilitator verify it. Throws on failure.
+   */
+  const authorizePayment = useCallback(async (
+    name: string,
+    toAddress: string,
+    amount: string,
+    tokenSymbol?: string,
+    timeoutSeconds: number = 3600,
+    replaces?: string
+  ): Promise<HeldAuthorization> => {
+    const sdk = sdksRef.current[name];
+    if (!sdk) throw new Error(`${name} SDK not initialized`);
+
+    const token = tokenSymbol ? tokenBySymbol(network, tokenSymbol) : defaultTokenOf(network);
+    console.log(`📍 Recipient: ${toAddress}`);
+    if (token) console.log(`💵 Amount: ${amount} (${formatUnits(amount, token.decimals)} ${token.symbol})`);
+    if (!token?.address) throw new Error(`${tokenSymbol ?? 'The default token'} is not a supported payment token on ${network.label}`);
+
+    const facilitator = facilitatorFor(sdk);
+    console.log(`🌐 Network: ${network.name} (Chain ID: ${network.chainId})`);
+    console.log(`🔗 Facilitator: ${network.devAccounts ? 'in-process (local)' : network.x402?.facilitatorUrl}`);
+
+    const requirements = {
+      scheme: 'exact' as const,
+      network: network.name,
+      asset: token.address,
+      payTo: toAddress,
+      maxAmountRequired: amount,
+      maxTimeoutSeconds: timeoutSeconds,
+      description: `Payment from ${name}`,
+      relayerContract: network.x402?.verifyingContract || '',
+    };
+
+    console.log(`📋 Payment requirements:`, requirements);
+
+    const payload = await signPayment(name, requirements, replaces);
+
+    console.log(`🔍 Verifying payment with facilitator...`);
+    const verifyResult = await facilitator.verify(payload, requirements);
+    console.log(`📊 Verification result:`, {
+      isValid: verifyResult.isValid,
+    });
+
+    if (!verifyResult.isValid) {
+      const invalidReason = verifyResult.invalidReason || 'Unknown reason';
+      console.error(`\n❌ Verification failed!`);
+      console.error(`   Reason: ${invalidReason}`);
+
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Payment verification failed: ${invalidReason}`,
+        type: 'payment',
+        status: 'failed',
+      });
+
+      throw new Error(`Verification failed: ${invalidReason}`);
+    }
+    return { payload, requirements, verification: verifyResult };
+  }, [addMessage, facilitatorFor, signPayment, network]);
+
+  /**
+   * Submit a verified authorization through the facilitator and file its
+   * receipt.
+   * @returns the settlement transaction hash; throws on failure
+   */
+  const settleAuthorization = useCallback(async (
+    name: string,
+    held: HeldAuthorization,
+    method: PaymentReceipt['method'] = 'x402'
+  ): Promise<string> => {
+    const sdk = sdksRef.current[name];
+    if (!sdk) throw new Error(`${name} SDK not initialized`);
+    const { payload, requirements } = held;
+    const token = network.tokens.find(t => t.address.toLowerCase() === requirements.asset.toLowerCase());
+
+    console.log(`💰 Settling payment...`);
+    const settleResult = await facilitatorFor(sdk).settle(payload, requirements);
+    console.log(`📊 Settlement result:`, {
+      success: settleResult.success,
+      transaction: settleResult.transaction,
+    });
+
+    if (settleResult.success && settleResult.transaction) {
+      console.log(`✅ Payment settled successfully!`);
+      console.log(`🔗 Transaction hash: ${settleResult.transaction}`);
+      issueReceipt(name, {
+        method,
+        payTo: requirements.payTo,
+        asset: requirements.asset,
+        amount: requirements.maxAmountRequired,
+        txHash: settleResult.transaction,
+        facilitator: { verify: held.verification, settle: settleResult },
+      });
+      addTransaction({
+        type: 'payment',
+        from: name,
+        txHash: settleResult.transaction,
+        status: 'success',
+        details: `Paid ${token ? `${formatUnits(requirements.maxAmountRequired, token.decimals)} ${token.symbol}` : requirements.maxAmountRequired} to ${requirements.payTo.slice(0, 10)}...`,
+      });
+
+      addMessage({
+        from: name,
+        to: name,
+        message: `💰 Payment sent! TX: ${settleResult.transaction.slice(0, 10)}...`,
+        type: 'payment',
+        txHash: settleResult.transaction,
+        status: 'success',
+      });
+
+      return settleResult.transaction;
+    }
+
+    const errorReason = settleResult.errorReason || 'Unknown error';
+    console.error(`\n❌ Settlement failed!`);
+    console.error(`   Error reason: ${errorReason}`);
+
+    addMessage({
+      from: name,
+      to: name,
+      message: `❌ Payment failed: ${errorReason}`,
+      type: 'payment',
+      status: 'failed',
+    });
+
+    throw new Error(`Settlement failed: ${errorReason}`);
+  }, [addMessage, addTransaction, issueReceipt, facilitatorFor, network]);
+
+  /**
+   * Pay `amount` (in the token's base units) over x402. `tokenSymbol` picks
+   * any token in the network's registry; defaults to the network's default.
+   */
+  const sendPayment = useCallback(async (name: string, toAddress: string, amount: string, tokenSymbol?: string) => {
+    if (!sdksRef.current[name]) {
+      console.error(`[${name}] SDK not initialized`);
+      return null;
+    }
+
+    console.log(`\n💳 [${name}] ========== Payment Process Started ==========`);
+    try {
+      const token = tokenSymbol ? tokenBySymbol(network, tokenSymbol) : defaultTokenOf(network);
+      if (!token) throw new Error(`${tokenSymbol} is not a supported payment token on ${network.label}`);
+      const units = await checkPolicy(
+        name,
+        { kind: 'payment', amount: Number(formatUnits(amount, token.decimals)), token: token.symbol, payee: toAddress },
+        x402Call(token, toAddress, amount),
+        {}
+      );
+      const approved = parseUnits(units.toFixed(token.decimals), token.decimals).toString();
+
+      const held = await authorizePayment(name, toAddress, approved, token.symbol);
+      const txHash = await settleAuthorization(name, held);
+      recordSpend(name, units, token.symbol);
+      return txHash;
+    } catch (error: any) {
+      console.error(`\n❌ [${name}] Payment Error:`, {
+        errorType: error.constructor.name,
+        message: error.message,
+        code: error.code,
+        response: error.response?.data,
+        stack: error.stack,
+      });
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Payment failed: ${error.message}`,
+        type: 'payment',
+        status: 'failed',
+      });
+      
+      return null;
+    }
+  }, [checkPolicy, recordSpend, authorizePayment, settleAuthorization, addMessage, network]);
+
+  // ---- Paid endpoints (x402 over HTTP) ----
+
+  /**
+   * Serve the agent's paid resources from this tab: `GET /research/:topic`
+   * costs `price` whole units of any token the network accepts, and the
+   * brief is written by the agent's model. Returns a function that stops it.
+   */
+  const servePaidEndpoints = useCallback((name: string, apiKey: string, price: number) => {
+    const sdk = sdksRef.current[name];
+    const address = statesRef.current[name]?.address;
+    if (!sdk || !address) return () => {};
+
+    const server = createPaidEndpointServer({
+      network,
+      facilitator: facilitatorFor(sdk),
+      payTo: address,
+      basePath: paidEndpointBase(address),
+      routes: [{
+        method: 'GET',
+        path: '/research/:topic',
+        description: `Research brief from ${profilesRef.current.find(p => p.id === name)?.label ?? name}`,
+        accepts: () => network.tokens
+          .filter(t => t.address)
+          .map(t => ({ asset: t.address, amount: parseUnits(price.toFixed(t.decimals), t.decimals).toString() })),
+        serve: async params => {
+          const { content } = await providerFor(name, apiKey).complete({
+            messages: [
+              { role: 'system', content: 'You are a research agent selling briefs. Write a concise research brief (under 200 words) on the topic you are given.' },
+              { role: 'user', content: params.topic },
+            ],
+            position: { kind: 'resource', resource: 'research/:topic', params },
+          });
+          return content;
+        },
+      }],
+      onSettled: (route, requirements, settlement) => {
+        const token = network.tokens.find(t => t.address.toLowerCase() === requirements.asset.toLowerCase());
+        const amount = token ? `${formatUnits(requirements.maxAmountRequired, token.decimals)} ${token.symbol}` : requirements.maxAmountRequired;
+        console.log(`🧾 [${name}] Served ${route.method} ${requirements.resource} for ${amount} — TX ${settlement.transaction}`);
+        addMessage({
+          from: name,
+          to: name,
+          message: `💵 Sold ${route.method} ${new URL(requirements.resource!).pathname.replace(paidEndpointBase(address), '')} for ${amount}`,
+          type: 'payment',
+          txHash: settlement.transaction,
+          status: 'success',
+        });
+      },
+    });
+    return hostPaidEndpoints(address, server);
+  }, [network, facilitatorFor, providerFor, addMessage]);
+
+  /**
+   * Fetch another agent's paid resource, paying its 402 automatically with
+   * any registry token as long as it costs no more than `maxPrice` whole units.
+   * @returns The resource and the settlement transaction, or null on failure
+   */
+  const fetchPaid = useCallback(async (name: string, url: string, maxPrice: number) => {
+    if (!sdksRef.current[name]) {
+      console.error(`[${name}] SDK not initialized`);
+      return null;
+    }
+
+    console.log(`\n🌐 [${name}] GET ${url}`);
+    try {
+      const { response, paid, settlement } = await x402Fetch(url, { method: 'GET' }, {
+        fetch: fetchPaidEndpoint,
+        pay: async requirements => {
+          const token = network.tokens.find(t => t.address.toLowerCase() === requirements.asset.toLowerCase())!;
+          // The price is the server's, so the owner can only take it or leave it
+          await checkPolicy(name, {
+            kind: 'payment',
+            amount: Number(formatUnits(requirements.maxAmountRequired, token.decimals)),
+            token: token.symbol,
+            payee: requirements.payTo,
+          }, x402Call(token, requirements.payTo, requirements.maxAmountRequired));
+          return signPayment(name, requirements);
+        },
+        select: accepts => accepts.find(r => {
+          const token = network.tokens.find(t => t.address && t.address.toLowerCase() === r.asset.toLowerCase());
+          return token && Number(formatUnits(r.maxAmountRequired, token.decimals)) <= maxPrice;
+        }) ?? null,
+      });
+      const body = await response.text();
+      if (!response.ok) {
+        let reason = body;
+        try { reason = JSON.parse(body).error ?? body; } catch { /* plain-text error */ }
+        throw new Error(`${response.status}: ${reason}`);
+      }
+
+      const token = paid && network.tokens.find(t => t.address.toLowerCase() === paid.asset.toLowerCase());
+      const amount = paid && token ? `${formatUnits(paid.maxAmountRequired, token.decimals)} ${token.symbol}` : null;
+      if (settlement && paid) {
+        console.log(`✅ [${name}] Paid ${amount} — TX ${settlement.transaction}`);
+        issueReceipt(name, {
+          method: 'http402',
+          payTo: paid.payTo,
+          asset: paid.asset,
+          amount: paid.maxAmountRequired,
+          txHash: settlement.transaction,
+          facilitator: { settle: settlement },
+          resource: url,
+        });
+        if (token) recordSpend(name, Number(formatUnits(paid.maxAmountRequired, token.decimals)), token.symbol);
+        addTransaction({
+          type: 'payment',
+          from: name,
+          txHash: settlement.transaction,
+          status: 'success',
+          details: `Paid ${amount} for ${new URL(url).pathname}`,
+        });
+      }
+      return { body, amount, txHash: settlement?.transaction ?? null };
+    } catch (error: any) {
+      console.error(`❌ [${name}] Paid fetch failed:`, error);
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Payment failed: ${error.message}`,
+        type: 'payment',
+        status: 'failed',
+      });
+      return null;
+    }
+  }, [network, checkPolicy, recordSpend, signPayment, issueReceipt, addMessage, addTransaction]);
+
+  // ---- Escrow ----
+
+  /**
+   * Lock `amount` (base units) for `toAddress` once a price is agreed, in the
+   * network's escrow contract or, without one, as a held x402 authorization.
+   * `arbiter` may release or refund the deal — the validator judging the
+   * delivery; defaults to the payer.
+   */
+  const lockEscrow = useCallback(async (
+    name: string,
+    toAddress: string,
+    amount: string,
+    tokenSymbol: string,
+    threadId: string,
+    arbiter?: string
+  ): Promise<Escrow | null> => {
+    const sdk = sdksRef.current[name];
+    const token = tokenBySymbol(network, tokenSymbol);
+    if (!sdk || !token?.address) {
+      console.error(`[${name}] SDK not initialized or ${tokenSymbol} not configured`);
+      return null;
+    }
+
+    const label = `${formatUnits(amount, token.decimals)} ${token.symbol}`;
+    const timeout = escrowTimeoutSeconds();
+    console.log(`\n🔒 [${name}] Escrowing ${label} for ${toAddress} via ${network.escrow ? `contract ${network.escrow}` : 'held x402 authorization'} (${timeout}s)`);
+
+    try {
+      // The lock is the commitment to pay, so it is what the policy judges and the caps count
+      // The owner can't resize it: the agreed price is what gets locked
+      const units = await checkPolicy(
+        name,
+        { kind: 'payment', amount: Number(formatUnits(amount, token.decimals)), token: token.symbol, payee: toAddress },
+        network.escrow
+          ? { contract: network.escrow, method: 'lock', args: [{ name: 'payee', value: toAddress }, { name: 'token', value: `${token.address} (${token.symbol})` }, { name: 'amount', value: `${amount} (${label})` }] }
+          : x402Call(token, toAddress, amount)
+      );
+
+      const base = { id: escrowIdFor(threadId), threadId, payer: name, payee: toAddress, token: token.symbol, amount, status: 'locked' as const };
+      let escrow: Escrow;
+      if (network.escrow) {
+        const signer = sdk.getSigner();
+        const payerAddress = await signer.getAddress();
+        const tokenContract = new Contract(token.address, TOKEN_ABI, signer);
+        const balance: bigint = await tokenContract.balanceOf(payerAddress);
+        const fromOwner = await delegatedShortfall(name, payerAddress, token, BigInt(amount), balance);
+        if (balance + fromOwner < BigInt(amount)) throw new Error(`Insufficient balance! Need ${label} but only have ${formatUnits(balance, token.decimals)} ${token.symbol}`);
+        const allowance: bigint = await tokenContract.allowance(payerAddress, network.escrow);
+        if (allowance < BigInt(amount)) {
+          await approveSpender(name, tokenContract, token, network.escrow, 'the escrow contract', BigInt(amount), allowance);
+        }
+
+        const deadline = (await chainNow(sdk.getProvider())) + timeout;
+        if (fromOwner > 0n) await drawDelegated(name, signer, token, fromOwner);
+        const tx = await escrowContract(network, signer).lock(base.id, toAddress, arbiter ?? payerAddress, token.address, amount, deadline);
+        console.log(`📝 Escrow lock TX: ${tx.hash}`);
+        addTransaction({
+          type: 'escrow_lock',
+          from: name,
+          to: toAddress,
+          txHash: tx.hash,
+          status: 'pending',
+          details: `Locking ${label} in escrow`,
+        });
+
+        const receipt = await tx.wait();
+        if (!receipt || receipt.status !== 1) {
+          updateTransaction(tx.hash, 'failed');
+          throw new Error('Escrow lock transaction failed');
+        }
+        updateTransaction(tx.hash, 'success');
+        escrow = { ...base, mode: 'contract', deadline, lockTx: tx.hash };
+      } else {
+        const authorization = await authorizePayment(name, toAddress, amount, token.symbol, timeout);
+        addTransaction({
+          type: 'escrow_lock',
+          from: name,
+          to: toAddress,
+          txHash: '',
+          status: 'success',
+          details: `Signed an x402 authorization for ${label}, held until delivery`,
+        });
+        escrow = { ...base, mode: 'authorization', deadline: authorization.payload.payload.authorization.validBefore, authorization };
+      }
+
+      putEscrow(escrow);
+      recordSpend(name, units, token.symbol, escrow.id);
+      addMessage({
+        from: name,
+        to: name,
+        message: `🔒 ${label} escrowed until ${new Date(escrow.deadline * 1000).toLocaleTimeString()}`,
+        type: 'escrow',
+        txHash: escrow.lockTx,
+        status: 'success',
+      });
+      return escrow;
+    } catch (error: any) {
+      console.error(`\n❌ [${name}] Escrow Lock Error:`, {
+        errorType: error.constructor.name,
+        message: error.message,
+        code: error.code,
+      });
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Escrow failed: ${error.message}`,
+        type: 'escrow',
+        status: 'failed',
+      });
+      return null;
+    }
+  }, [checkPolicy, recordSpend, authorizePayment, delegatedShortfall, drawDelegated, approveSpender, putEscrow, addMessage, addTransaction, updateTransaction, network]);
+
+  /**
+   * Pay a locked escrow out: `paid` (base units, default all of it) to the
+   * payee and the rest back to the payer.
+   * @returns the transaction that paid the payee
+   */
+  const releaseEscrow = useCallback(async (name: string, escrowId: string, paid?: string) => {
+    const sdk = sdksRef.current[name];
+    const escrow = escrowsRef.current.find(e => e.id === escrowId);
+    if (!sdk || escrow?.status !== 'locked') {
+      console.error(`[${name}] SDK not initialized or escrow ${escrowId} not locked`);
+      return null;
+    }
+
+    const token = tokenBySymbol(network, escrow.token);
+    const amount = paid ?? escrow.amount;
+    const label = token ? `${formatUnits(amount, token.decimals)} ${token.symbol}` : `${amount} ${escrow.token}`;
+    console.log(`\n🔓 [${name}] Releasing ${label} from escrow ${escrowId.slice(0, 10)}... to ${escrow.payee}`);
+
+    try {
+      let txHash: string;
+      if (escrow.mode === 'contract') {
+        const tx = await escrowContract(network, sdk.getSigner()).release(escrow.id, amount);
+        console.log(`📝 Escrow release TX: ${tx.hash}`);
+        addTransaction({
+          type: 'escrow_release',
+          from: name,
+          to: escrow.payee,
+          txHash: tx.hash,
+          status: 'pending',
+          details: `Releasing ${label} from escrow`,
+        });
+
+        const receipt = await tx.wait();
+        if (!receipt || receipt.status !== 1) {
+          updateTransaction(tx.hash, 'failed');
+          throw new Error('Escrow release transaction failed');
+        }
+        updateTransaction(tx.hash, 'success');
+        txHash = tx.hash;
+        issueReceipt(escrow.payer, { method: 'escrow', payTo: escrow.payee, asset: token?.address ?? '', amount, txHash });
+        addMessage({
+          from: name,
+          to: name,
+          message: `💰 Released ${label} from escrow! TX: ${txHash.slice(0, 10)}...`,
+          type: 'payment',
+          txHash,
+          status: 'success',
+        });
+      } else {
+        if (!escrow.authorization) throw new Error('The held authorization was lost on reload; it will expire unused');
+        // An authorization is for an exact amount, so paying less signs a fresh one
+        const held = BigInt(amount) === BigInt(escrow.amount)
+          ? escrow.authorization
+          : await authorizePayment(escrow.payer, escrow.payee, amount, escrow.token, undefined, escrow.id);
+        txHash = await settleAuthorization(escrow.payer, held, 'escrow');
+        addTransaction({
+          type: 'escrow_release',
+          from: name,
+          to: escrow.payee,
+          txHash,
+          status: 'success',
+          details: `Settled the held authorization for ${label}`,
+        });
+      }
+
+      putEscrow({ ...escrow, status: 'released', authorization: undefined });
+      if (token) adjustSpend(escrow.id, Number(formatUnits(amount, token.decimals)));
+      return txHash;
+    } catch (error: any) {
+      console.error(`\n❌ [${name}] Escrow Release Error:`, {
+        errorType: error.constructor.name,
+        message: error.message,
+        code: error.code,
+      });
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Escrow release failed: ${error.message}`,
+        type: 'payment',
+        status: 'failed',
+      });
+      return null;
+    }
+  }, [authorizePayment, settleAuthorization, issueReceipt, adjustSpend, putEscrow, addMessage, addTransaction, updateTransaction, network]);
+
+  /**
+   * Return a locked escrow to its payer. On-chain only the payee, the arbiter
+   * or — after the deadline — anyone may; a held authorization is discarded.
+   * @returns true once refunded
+   */
+  const refundEscrow = useCallback(async (name: string, escrowId: string, reason: string) => {
+    const sdk = sdksRef.current[name];
+    const escrow = escrowsRef.current.find(e => e.id === escrowId);
+    if (!sdk || escrow?.status !== 'locked') {
+      console.error(`[${name}] SDK not initialized or escrow ${escrowId} not locked`);
+      return false;
+    }
+
+    const token = tokenBySymbol(network, escrow.token);
+    const label = token ? `${formatUnits(escrow.amount, token.decimals)} ${token.symbol}` : `${escrow.amount} ${escrow.token}`;
+    console.log(`\n↩️ [${name}] Refunding ${label} from escrow ${escrowId.slice(0, 10)}...: ${reason}`);
+
+    try {
+      let txHash: string | undefined;
+      if (escrow.mode === 'contract') {
+        const tx = await escrowContract(network, sdk.getSigner()).refund(escrow.id);
+        console.log(`📝 Escrow refund TX: ${tx.hash}`);
+        addTransaction({
+          type: 'escrow_refund',
+          from: name,
+          txHash: tx.hash,
+          status: 'pending',
+          details: `Refunding ${label} from escrow: ${reason}`,
+        });
+
+        const receipt = await tx.wait();
+        if (!receipt || receipt.status !== 1) {
+          updateTransaction(tx.hash, 'failed');
+          throw new Error('Escrow refund transaction failed');
+        }
+        updateTransaction(tx.hash, 'success');
+        txHash = tx.hash;
+      } else {
+        // The facilitator has seen the authorization and it stays valid until it expires:
+        // shrink the relayer's allowance to what the payer's other held authorizations need
+        const payerSdk = sdksRef.current[escrow.payer];
+        const relayerAddress = network.x402?.verifyingContract;
+        if (payerSdk && token?.address && relayerAddress) {
+          const signer = payerSdk.getSigner();
+          const tokenContract = new Contract(token.address, TOKEN_ABI, signer);
+          const current: bigint = await tokenContract.allowance(await signer.getAddress(), relayerAddress);
+          const needed = escrowsRef.current
+            .filter(e => e.payer === escrow.payer && e.status === 'locked' && e.authorization && e.token === escrow.token && e.id !== escrow.id)
+            .reduce((sum, e) => sum + BigInt(e.amount), 0n);
+          if (current > needed) await approveSpender(escrow.payer, tokenContract, token, relayerAddress, 'the x402 relayer', needed, current);
+        }
+        addTransaction({
+          type: 'escrow_refund',
+          from: name,
+          txHash: '',
+          status: 'success',
+          details: `Discarded the held authorization for ${label}: ${reason}`,
+        });
+      }
+
+      putEscrow({ ...escrow, status: 'refunded', authorization: undefined });
+      adjustSpend(escrow.id, 0);
+      addMessage({
+        from: name,
+        to: name,
+        message: `↩️ ${label} refunded from escrow: ${reason}`,
+        type: 'escrow',
+        txHash,
+        status: 'success',
+      });
+      return true;
+    } catch (error: any) {
+      console.error(`\n❌ [${name}] Escrow Refund Error:`, {
+        errorType: error.constructor.name,
+        message: error.message,
+        code: error.code,
+      });
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Escrow refund failed: ${error.message}`,
+        type: 'escrow',
+        status: 'failed',
+      });
+      return false;
+    }
+  }, [approveSpender, putEscrow, adjustSpend, addMessage, addTransaction, updateTransaction, network]);
+
+  // Refund deals left locked past their deadline (a held authorization has expired by then)
+  useEffect(() => {
+    let sweeping = false;
+    const sweep = async () => {
+      for (const escrow of escrowsRef.current) {
+        const sdk = sdksRef.current[escrow.payer];
+        if (escrow.status !== 'locked' || !sdk) continue;
+        if ((await chainNow(sdk.getProvider())) < escrow.deadline) continue;
+        await refundEscrow(escrow.payer, escrow.id, 'deadline passed');
+      }
+    };
+    const timer = setInterval(() => {
+      if (sweeping) return;
+      sweeping = true;
+      sweep()
+        .catch((e: any) => console.warn('⚠️ [Escrow] Deadline sweep failed:', e.message))
+        .finally(() => { sweeping = false; });
+    }, ESCROW_SWEEP_MS);
+    return () => clearInterval(timer);
+  }, [refundEscrow]);
+
+  const sendMessage = useCallback((name: string, to: string, message: string) => {
+    return addMessage({
+      from: name,
+      to,
+      message,
+      type: 'message',
+    });
+  }, [addMessage]);
+
+  /**
+   * Sanitize AI response to prevent hallucination artifacts.
+   * `otherLabel` is the scenario's name for the other side, whose lines get stripped.
+   */
+  const sanitizeResponse = (text: string, maxLen: number, ownLabel: string, otherLabel: string): string => {
+    let clean = text;
+
+    // Strip markdown bold/italic/headers
+    clean = clean.replace(/#{1,3}\s+/g, '');
+    clean = clean.replace(/\*{1,2}([^*]+)\*{1,2}/g, '$1');
+    clean = clean.replace(/_{1,2}([^_]+)_{1,2}/g, '$1');
+
+    // Strip lines that look like the agent roleplaying the other side
+    const escape = (label: string) => label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const otherSpeaker = new RegExp(`^(${escape(otherLabel)}|Agent [AB]|You):`, 'i');
+    const anySpeaker = new RegExp(`^\\*?\\*?(You|Agent [AB]|${escape(ownLabel)}|${escape(otherLabel)}):\\*?\\*?\\s*`, 'i');
+    const lines = clean.split('\n').filter(line => {
+      const trimmed = line.trim();
+      if (otherSpeaker.test(trimmed)) return false;
+      if (/^---+$/.test(trimmed)) return false;
+      return true;
+    });
+
+    clean = lines.join('\n').trim();
+    clean = clean.replace(anySpeaker, '');
+
+    if (clean.length > maxLen) clean = clean.slice(0, maxLen).trim();
+
+    return clean || 'Thanks for sharing!';
+  };
+
+  /**
+   * Generate the agent's next line and send it to `to` over the A2A
+   * transport. The agent only sees its own mailbox: the thread with `to`
+   * in `context.threadId`.
+   */
+  const sendAIMessage = useCallback(async (
+    name: string,
+    to: string,
+    apiKey: string,
+    context: AIMessageContext
+  ) => {
+    // Rendered right away and filled in as tokens arrive
+    let draft: AgentMessage | null = null;
+    try {
+      const mailbox = mailboxesRef.current[name];
+      const peerAgentId = statesRef.current[to]?.id;
+      if (!mailbox) throw new Error('Agent not initialized');
+      if (!peerAgentId) throw new Error('Recipient is not registered on ERC-8004');
+      const conversationHistory = mailbox.thread(peerAgentId, context.threadId).map(envelope => ({
+        from: envelope.from.agentId === peerAgentId ? to : name,
+        message: envelope.body.text,
+      }));
+
+      const { scenario, phase } = context;
+      const tokens = tokenSymbols(network);
+      const terms = context.terms ?? { budget: 10, token: defaultTokenOf(network).symbol, tokens };
+      const role = roleOf(name);
+      const otherRole: AgentRole = role === 'employer' ? 'freelancer' : 'employer';
+
+      const systemPrompt = renderPrompt(scenario, phase, role, terms, context.exchange ?? 0);
+
+      const messages: OpenRouterMessage[] = [
+        { role: 'system', content: systemPrompt },
+        ...conversationHistory.slice(-10).map(msg => ({
+          role: (msg.from === name ? 'assistant' : 'user') as 'user' | 'assistant',
+          content: msg.message,
+        })),
+      ];
+
+      const phaseConfig = getPhase(scenario, phase);
+      const toolDefinitions = paymentTools(tokens);
+      const tools = (phaseConfig.tools?.[role] ?? []).map(tool => toolDefinitions[tool]);
+
+      draft = { id: createEnvelopeId(), timestamp: new Date(), from: name, to, message: '', type: 'message', streaming: true };
+      const draftMessage = draft;
+      setMessages(prev => [...prev, draftMessage]);
+      const streamId = draft.id;
+      const provider = providerFor(name, apiKey);
+      const reply = await provider.complete({
+        messages,
+        tools,
+        onDelta: textSoFar => updateMessage(streamId, { message: textSoFar }),
+        position: { kind: 'turn', scenario, phase, role, exchange: context.exchange ?? 0, terms },
+      });
+      const raw = reply.content;
+
+      let intent: PaymentIntent | undefined;
+      // Only the first call counts — one commitment per turn
+      const call = reply.toolCalls[0];
+      if (call) {
+        try {
+          intent = parsePaymentIntent(call, tokens);
+          console.log(`🔧 [${name}] Tool call: ${describeIntent(intent)}`);
+        } catch (e: any) {
+          console.warn(`⚠️ [${name}] ${e.message}`);
+        }
+      }
+
+      // A bare tool call has no text; show what the agent committed to instead
+      const response = raw.trim() || !intent
+        ? sanitizeResponse(
+          raw,
+          phaseConfig.maxLength ?? 500,
+          scenario.roles[role].label,
+          scenario.roles[otherRole].label,
+        )
+        : intent.kind === 'send_payment'
+          ? `Sending ${intent.amount} ${intent.token} now.`
+          : `Agreed — ${intent.price} ${intent.token} it is.`;
+
+      const envelope = await mailbox.send(peerAgentId, context.threadId, { text: response, intent, phase }, streamId);
+      const final = { message: response, intent, streaming: false, signedBy: envelope.from.address };
+      updateMessage(streamId, final);
+      return { ...draft, ...final };
+    } catch (error: any) {
+      const failure = { message: `❌ AI error: ${error.message}`, status: 'failed' as const, streaming: false };
+      if (draft) {
+        updateMessage(draft.id, failure);
+        return { ...draft, ...failure };
+      }
+      return addMessage({
+        from: name,
+        to,
+        type: 'message',
+        ...failure,
+      });
+    }
+  }, [roleOf, providerFor, addMessage, updateMessage, network]);
+
+  // Transfer funds from agent wallet back to owner wallet
+  const transferFundsToOwner = useCallback(async (name: string, ownerWalletAddress: string, tokenAddress?: string) => {
+    const sdk = sdksRef.current[name];
+    if (!sdk) {
+      console.error(`[${name}] SDK not initialized`);
+      return null;
+    }
+
+    try {
+      const signer = sdk.getSigner();
+      const provider = sdk.getProvider();
+      const agentAddress = await signer.getAddress();
+
+      console.log(`\n💸 [${name}] ========== Transfer Funds to Owner ==========`);
+      console.log(`📍 Agent address: ${agentAddress}`);
+      console.log(`📍 Owner address: ${ownerWalletAddress}`);
+
+      if (tokenAddress) {
+        // Transfer ERC20 token (USDT/USDC)
+        console.log(`🪙 Transferring ERC20 token: ${tokenAddress}`);
+        const tokenABI = [
+          'function balanceOf(address owner) view returns (uint256)',
+          'function transfer(address to, uint256 amount) returns (bool)',
+          'function decimals() view returns (uint8)',
+        ];
+        const tokenContract = new Contract(tokenAddress, tokenABI, signer);
+        const balance = await tokenContract.balanceOf(agentAddress);
+        const decimals = await tokenContract.decimals();
+        const balanceFormatted = Number(balance) / 10 ** Number(decimals);
+
+        console.log(`💰 Agent balance: ${balanceFormatted} tokens`);
+
+        if (balance === 0n) {
+          console.log(`⚠️ No tokens to transfer`);
+          addMessage({
+            from: name,
+            to: name,
+            message: `No tokens available to transfer to owner`,
+            type: 'transaction',
+            status: 'failed',
+          });
+          return null;
+        }
+
+        const symbol = network.tokens.find(t => t.address.toLowerCase() === tokenAddress.toLowerCase())?.symbol ?? 'tokens';
+        const approvedFormatted = await checkPolicy(
+          name,
+          { kind: 'withdrawal', amount: balanceFormatted, token: symbol, payee: ownerWalletAddress },
+          { contract: tokenAddress, method: 'transfer', args: [{ name: 'to', value: `${ownerWalletAddress} (owner)` }, { name: 'amount', value: `${balance} (${balanceFormatted} ${symbol})` }] },
+          { max: balanceFormatted }
+        );
+        // The owner may have chosen to withdraw only part of it
+        const amount = approvedFormatted === balanceFormatted ? balance : parseUnits(approvedFormatted.toFixed(Number(decimals)), decimals);
+
+        addTransaction({
+          type: 'payment',
+          from: name,
+          txHash: '',
+          status: 'pending',
+          details: `Transferring ${approvedFormatted} tokens to owner ${ownerWalletAddress.slice(0, 10)}...`,
+        });
+
+        const tx = await tokenContract.transfer(ownerWalletAddress, amount);
+        console.log(`📝 Transfer TX: ${tx.hash}`);
+
+        const receipt = await tx.wait();
+        if (receipt && receipt.status === 1) {
+          console.log(`✅ Transfer confirmed in block ${receipt.blockNumber}`);
+          updateTransaction(tx.hash, 'success');
+          addMessage({
+            from: name,
+            to: name,
+            message: `✅ Transferred ${approvedFormatted} tokens to owner wallet`,
+            type: 'transaction',
+            txHash: tx.hash,
+            status: 'success',
+          });
+          return tx.hash;
+        } else {
+          throw new Error('Transfer transaction failed');
+        }
+      } else {
+        // Transfer native token (AVAX) — reserve gas so the tx doesn't revert
+        console.log(`💎 Transferring native ${network.nativeSymbol}`);
+        const balance = await provider.getBalance(agentAddress);
+        const balanceInAvax = Number(balance) / 1e18;
+
+        console.log(`💰 Agent balance: ${balanceInAvax} ${network.nativeSymbol}`);
+
+        if (balance === 0n) {
+          console.log(`⚠️ No ${network.nativeSymbol} to transfer`);
+          addMessage({
+            from: name,
+            to: name,
+            message: `No ${network.nativeSymbol} available to transfer to owner`,
+            type: 'transaction',
+            status: 'failed',
+          });
+          return null;
+        }
+
+        // Estimate gas cost so we don't try to send the entire balance; a smart account's is sponsored
+        let transferAmount = balance;
+        if (!(signer instanceof SmartAccountEthersSigner)) {
+          const gasEstimate = await provider.estimateGas({
+            to: ownerWalletAddress,
+            from: agentAddress,
+            value: balance / 2n,
+          });
+          const feeData = await provider.getFeeData();
+          const gasPrice = feeData.maxFeePerGas || feeData.gasPrice || 25000000000n;
+          transferAmount = balance - gasEstimate * gasPrice * 2n;
+        }
+
+        if (transferAmount <= 0n) {
+          console.log(`⚠️ Balance too low to cover gas`);
+          addMessage({
+            from: name,
+            to: name,
+            message: `${network.nativeSymbol} balance too low to cover transfer gas costs`,
+            type: 'transaction',
+            status: 'failed',
+          });
+          return null;
+        }
+
+        const transferAmountInAvax = Number(transferAmount) / 1e18;
+        addTransaction({
+          type: 'payment',
+          from: name,
+          txHash: '',
+          status: 'pending',
+          details: `Transferring ${transferAmountInAvax.toFixed(6)} ${network.nativeSymbol} to owner ${ownerWalletAddress.slice(0, 10)}...`,
+        });
+
+        const tx = await signer.sendTransaction({
+          to: ownerWalletAddress,
+          value: transferAmount,
+        });
+        console.log(`📝 Transfer TX: ${tx.hash}`);
+
+        const receipt = await tx.wait();
+        if (receipt && receipt.status === 1) {
+          console.log(`✅ Transfer confirmed in block ${receipt.blockNumber}`);
+          updateTransaction(tx.hash, 'success');
+          addMessage({
+            from: name,
+            to: name,
+            message: `✅ Transferred ${transferAmountInAvax.toFixed(6)} ${network.nativeSymbol} to owner wallet`,
+            type: 'transaction',
+            txHash: tx.hash,
+            status: 'success',
+          });
+          return tx.hash;
+        } else {
+          throw new Error('Transfer transaction failed');
+        }
+      }
+    } catch (error: any) {
+      console.error(`\n❌ [${name}] Transfer Error:`, {
+        errorType: error.constructor.name,
+        message: error.message,
+        code: error.code,
+        stack: error.stack,
+      });
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Transfer failed: ${error.message}`,
+        type: 'transaction',
+        status: 'failed',
+      });
+      return null;
+    }
+  }, [checkPolicy, addMessage, addTransaction, updateTransaction, network]);
+
+  // Set an allowance the agent granted back to zero
+  const revokeAllowance = useCallback(async (name: string, tokenAddress: string, spender: string) => {
+    const sdk = sdksRef.current[name];
+    if (!sdk) {
+      console.error(`[${name}] SDK not initialized`);
+      return null;
+    }
+    const symbol = network.tokens.find(t => t.address.toLowerCase() === tokenAddress.toLowerCase())?.symbol ?? 'token';
+    console.log(`\n🔑 [${name}] Revoking ${symbol} allowance of ${spender}`);
+
+    try {
+      const tx = await new Contract(tokenAddress, TOKEN_ABI, sdk.getSigner()).approve(spender, 0n);
+      console.log(`📝 Revoke TX: ${tx.hash}`);
+      addTransaction({
+        type: 'allowance',
+        from: name,
+        to: spender,
+        txHash: tx.hash,
+        status: 'pending',
+        details: `Revoking the ${symbol} allowance of ${spender.slice(0, 10)}...`,
+      });
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) {
+        updateTransaction(tx.hash, 'failed');
+        throw new Error('Revoke transaction failed');
+      }
+      updateTransaction(tx.hash, 'success');
+      console.log(`✅ Allowance revoked in block ${receipt.blockNumber}`);
+      return tx.hash as string;
+    } catch (error: any) {
+      console.error(`❌ [${name}] Revoke failed:`, error);
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Revoking the ${symbol} allowance failed: ${error.message}`,
+        type: 'transaction',
+        status: 'failed',
+      });
+      return null;
+    }
+  }, [addMessage, addTransaction, updateTransaction, network]);
+
+  /**
+   * Move everything `signer`'s wallet holds to `toAddress`, for a key
+   * rotation of agent `name`: any ERC-8004 identity first (reputation and
+   * validator stake are keyed by agent ID, so they follow it), then every
+   * payment token, then the native balance less gas. Throws at the first
+   * failure, leaving the rest where it is for a retry.
+   */
+  const sweepWallet = useCallback(async (name: string, signer: Signer, toAddress: string) => {
+    const sdk = sdksRef.current[name];
+    if (!sdk) throw new Error(`${name} SDK not initialized`);
+    const provider = sdk.getProvider();
+    const fromAddress = await signer.getAddress();
+    console.log(`\n🔁 [${name}] ========== Sweeping ${fromAddress} to ${toAddress} ==========`);
+
+    const send = async (details: string, submit: () => Promise<any>) => {
+      const tx = await submit();
+      console.log(`📝 ${details}: ${tx.hash}`);
+      addTransaction({ type: 'key_rotation', from: name, to: toAddress, txHash: tx.hash, status: 'pending', details });
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) {
+        updateTransaction(tx.hash, 'failed');
+        throw new Error(`${details} failed`);
+      }
+      updateTransaction(tx.hash, 'success');
+      return receipt;
+    };
+
+    const agentId = await findAgentIdByOwner(fromAddress, network, provider, { identity: sdk.erc8004.identity() });
+    if (agentId) {
+      const identity = new Contract(identityRegistryOf(network), ['function transferFrom(address from, address to, uint256 tokenId)'], signer);
+      const receipt = await send(`Moving agent #${agentId} to the new wallet`, () => identity.transferFrom(fromAddress, toAddress, BigInt(agentId)));
+      recordAgentOwner(network, agentId, toAddress, receipt.blockNumber)
+        .catch(e => console.warn(`⚠️ [${name}] Could not index the moved agent ID:`, e.message));
+    }
+
+    for (const token of network.tokens.filter(t => t.address)) {
+      const tokenContract = new Contract(token.address, TOKEN_ABI, signer);
+      const balance: bigint = await tokenContract.balanceOf(fromAddress);
+      if (balance === 0n) continue;
+      await send(`Moving ${formatUnits(balance, token.decimals)} ${token.symbol} to the new wallet`, () => tokenContract.transfer(toAddress, balance));
+    }
+
+    // Same gas reserve as a withdrawal to the owner, and likewise none for a smart account
+    const balance = await provider.getBalance(fromAddress);
+    if (balance > 0n) {
+      let amount = balance;
+      if (!(signer instanceof SmartAccountEthersSigner)) {
+        const gasEstimate = await provider.estimateGas({ to: toAddress, from: fromAddress, value: balance / 2n });
+        const feeData = await provider.getFeeData();
+        const gasPrice = feeData.maxFeePerGas || feeData.gasPrice || 25000000000n;
+        amount = balance - gasEstimate * gasPrice * 2n;
+      }
+      if (amount > 0n) {
+        await send(`Moving ${formatEther(amount)} ${network.nativeSymbol} to the new wallet`, () => signer.sendTransaction({ to: toAddress, value: amount }));
+      }
+    }
+    console.log(`✅ [${name}] Wallet swept`);
+  }, [addTransaction, updateTransaction, network]);
+
+  const smartAccountOf = useCallback((name: string): SmartAccountEthersSigner => {
+    const signer = sdksRef.current[name]?.getSigner();
+    if (!(signer instanceof SmartAccountEthersSigner)) throw new Error(`${name} is not a smart account`);
+    return signer;
+  }, []);
+
+  // Log a smart account's own operation (sessions, ownership) like any other transaction
+  const logAccountTx = useCallback(async (type: 'session' | 'key_rotation', name: string, details: string, send: () => Promise<TransactionResponse>) => {
+    const tx = await send();
+    console.log(`📝 ${details}: ${tx.hash}`);
+    addTransaction({ type, from: name, txHash: tx.hash, status: 'success', details });
+  }, [addTransaction]);
+
+  /**
+   * Give agent `name`'s smart account a session key that can only approve
+   * the x402 relayer, for at most `limit` tokens, until `validUntil` (Unix
+   * seconds). The caller keeps the returned session in the keystore.
+   */
+  const grantSession = useCallback(async (name: string, limit: number, validUntil: number): Promise<RelayerSession> => {
+    const signer = smartAccountOf(name);
+    console.log(`\n🎫 [${name}] Granting a relayer session key: ≤${limit} per approval until ${new Date(validUntil * 1000).toLocaleString()}`);
+    let granted: RelayerSession | null = null;
+    await logAccountTx('session', name, `Session key may approve the x402 relayer for up to ${limit} until ${new Date(validUntil * 1000).toLocaleString()}`, async () => {
+      const { session, tx } = await grantRelayerSession(signer, network, limit, validUntil);
+      granted = session;
+      return tx;
+    });
+    console.log(`✅ [${name}] Session key ${granted!.address} active`);
+    return granted!;
+  }, [smartAccountOf, logAccountTx, network]);
+
+  const endSession = useCallback(async (name: string) => {
+    const signer = smartAccountOf(name);
+    await logAccountTx('session', name, 'Ended the relayer session key', () => endRelayerSession(signer));
+    console.log(`🎫 [${name}] Session key ended`);
+  }, [smartAccountOf, logAccountTx]);
+
+  /** Key rotation for a smart account: the account stays, owned by `newOwner` */
+  const transferAccountOwnership = useCallback(async (name: string, newOwner: string) => {
+    const signer = smartAccountOf(name);
+    await logAccountTx('key_rotation', name, `Smart account now owned by ${newOwner.slice(0, 10)}...`, () => signer.transferOwnership(newOwner));
+    console.log(`🔁 [${name}] Smart account ownership moved to ${newOwner}`);
+  }, [smartAccountOf, logAccountTx]);
+
+  // Re-read an agent's ERC-8004 reputation into state
+  const refreshReputation = useCallback(async (name: string) => {
+    const sdk = sdksRef.current[name];
+    const id = getState(name).id;
+    if (!sdk || !id) return;
+    try {
+      const reputation = await readReputation(sdk, id);
+      patchState(name, { reputation });
+      console.log(`⭐ [${name}] Reputation refreshed:`, reputation);
+    } catch (error: any) {
+      console.warn(`⚠️ [${name}] Could not refresh reputation:`, error.message);
+    }
+  }, [getState, patchState]);
+
+  /**
+   * Ask the model to score delivered work from 0-100.
+   * @returns null if the model failed or its reply isn't a usable number — never a made-up score
+   */
+  const rateDelivery = useCallback(async (name: string, deliverable: string, apiKey: string, scenario: Scenario): Promise<number | null> => {
+    const messages: OpenRouterMessage[] = [
+      { role: 'system', content: scenario.review.join('\n') },
+      { role: 'user', content: deliverable },
+    ];
+
+    try {
+      const provider = providerFor(name, apiKey);
+      const { content: raw } = await provider.complete({ messages, position: { kind: 'review', scenario } });
+      const score = parseInt(raw.match(/\d+/)?.[0] ?? '', 10);
+      if (!isNaN(score)) return Math.max(0, Math.min(100, score));
+      console.warn(`⚠️ [${name}] No score in the review reply: ${raw.slice(0, 80)}`);
+    } catch (error: any) {
+      console.warn(`⚠️ [${name}] Could not rate delivery:`, error.message);
+    }
+    return null;
+  }, [providerFor]);
+
+  // Post an ERC-8004 reputation entry for another agent
+  const giveFeedback = useCallback(async (name: string, targetAgentId: string, score: number, tag: string = 'research') => {
+    const sdk = sdksRef.current[name];
+    if (!sdk) {
+      console.error(`[${name}] SDK not initialized`);
+      return null;
+    }
+
+    try {
+      console.log(`\n⭐ [${name}] Posting feedback for agent ${targetAgentId}: ${score}/100`);
+      const reputation = sdk.erc8004.reputation();
+      const tx = await reputation.giveFeedback(targetAgentId, BigInt(score), 0, 'starred', tag);
+      console.log(`📝 Feedback TX: ${tx.hash}`);
+
+      addTransaction({
+        type: 'feedback',
+        from: name,
+        txHash: tx.hash,
+        status: 'pending',
+        details: `Rated agent ${targetAgentId}: ${score}/100`,
+      });
+
+      const receipt = await tx.wait();
+      if (receipt && receipt.status === 1) {
+        console.log(`✅ Feedback confirmed in block ${receipt.blockNumber}`);
+        updateTransaction(tx.hash, 'success');
+        addMessage({
+          from: name,
+          to: name,
+          message: `⭐ Rated agent ${targetAgentId}: ${score}/100`,
+          type: 'feedback',
+          txHash: tx.hash,
+          status: 'success',
+        });
+        return tx.hash;
+      }
+      updateTransaction(tx.hash, 'failed');
+      throw new Error('Feedback transaction failed');
+    } catch (error: any) {
+      console.error(`\n❌ [${name}] Feedback Error:`, {
+        errorType: error.constructor.name,
+        message: error.message,
+        code: error.code,
+      });
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Feedback failed: ${error.message}`,
+        type: 'feedback',
+        status: 'failed',
+      });
+      return null;
+    }
+  }, [addMessage, addTransaction, updateTransaction]);
+
+  // Stake native AVAX on the Validation Registry so this agent can validate work
+  const stakeAsValidator = useCallback(async (name: string, amountWei?: bigint) => {
+    const sdk = sdksRef.current[name];
+    const agentId = getState(name).id;
+    if (!sdk || !agentId) {
+      console.error(`[${name}] SDK not initialized or agent not registered`);
+      return null;
+    }
+
+    try {
+      const validation = sdk.erc8004.validation();
+      const stake = amountWei ?? BigInt(await validation.getMinValidatorStake());
+      console.log(`\n🛡️ [${name}] Staking ${formatEther(stake)} ${network.nativeSymbol} as validator (agent ${agentId})`);
+
+      const tx = await validation.stakeAsValidator(agentId, { value: stake });
+      console.log(`📝 Stake TX: ${tx.hash}`);
+      addTransaction({
+        type: 'stake',
+        from: name,
+        txHash: tx.hash,
+        status: 'pending',
+        details: `Staking ${formatEther(stake)} ${network.nativeSymbol} as validator`,
+      });
+
+      const receipt = await tx.wait();
+      if (receipt && receipt.status === 1) {
+        console.log(`✅ Stake confirmed in block ${receipt.blockNumber}`);
+        updateTransaction(tx.hash, 'success');
+        const validator = await readValidatorInfo(sdk, agentId);
+        patchState(name, validator);
+        addMessage({
+          from: name,
+          to: name,
+          message: `🛡️ Staked ${formatEther(stake)} ${network.nativeSymbol} as validator`,
+          type: 'validation',
+          txHash: tx.hash,
+          status: 'success',
+        });
+        return tx.hash;
+      }
+      updateTransaction(tx.hash, 'failed');
+      throw new Error('Stake transaction failed');
+    } catch (error: any) {
+      console.error(`\n❌ [${name}] Stake Error:`, {
+        errorType: error.constructor.name,
+        message: error.message,
+        code: error.code,
+      });
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Validator stake failed: ${error.message}`,
+        type: 'validation',
+        status: 'failed',
+      });
+      return null;
+    }
+  }, [getState, patchState, addMessage, addTransaction, updateTransaction, network]);
+
+  /**
+   * Ask a validator agent to check delivered work.
+   * The work itself stays off-chain; only its keccak256 hash is recorded,
+   * and that hash doubles as the request ID for the validator's response.
+   */
+  const requestValidation = useCallback(async (name: string, validatorId: string, work: string) => {
+    const sdk = sdksRef.current[name];
+    const agentId = getState(name).id;
+    if (!sdk || !agentId) {
+      console.error(`[${name}] SDK not initialized or agent not registered`);
+      return null;
+    }
+
+    try {
+      const dataHash = keccakText(`${agentId}:${Date.now()}:${work}`);
+      console.log(`\n🔎 [${name}] Requesting validation from agent ${validatorId} for ${dataHash.slice(0, 10)}...`);
+
+      const validation = sdk.erc8004.validation();
+      const tx = await validation.requestValidation(validatorId, agentId, dataHash);
+      console.log(`📝 Validation request TX: ${tx.hash}`);
+      addTransaction({
+        type: 'validation',
+        from: name,
+        txHash: tx.hash,
+        status: 'pending',
+        details: `Requested validation from agent ${validatorId}`,
+      });
+
+      const receipt = await tx.wait();
+      if (receipt && receipt.status === 1) {
+        console.log(`✅ Validation request confirmed in block ${receipt.blockNumber}`);
+        updateTransaction(tx.hash, 'success');
+        return dataHash;
+      }
+      updateTransaction(tx.hash, 'failed');
+      throw new Error('Validation request transaction failed');
+    } catch (error: any) {
+      console.error(`\n❌ [${name}] Validation Request Error:`, {
+        errorType: error.constructor.name,
+        message: error.message,
+        code: error.code,
+      });
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Validation request failed: ${error.message}`,
+        type: 'validation',
+        status: 'failed',
+      });
+      return null;
+    }
+  }, [getState, addMessage, addTransaction, updateTransaction]);
+
+  // Score the work behind a pending request and submit the response on-chain
+  const respondToValidation = useCallback(async (name: string, dataHash: string, work: string, apiKey: string, scenario: Scenario) => {
+    const sdk = sdksRef.current[name];
+    if (!sdk) {
+      console.error(`[${name}] SDK not initialized`);
+      return null;
+    }
+
+    try {
+      const score = await rateDelivery(name, work, apiKey, scenario);
+      // No score means no response: the request stays pending and nothing is paid on it
+      if (score === null) throw new Error('the model gave no usable score');
+      console.log(`\n🛡️ [${name}] Submitting validation response for ${dataHash.slice(0, 10)}...: ${score}/100`);
+
+      const validation = sdk.erc8004.validation();
+      const tx = await validation.validationResponse(dataHash, score);
+      console.log(`📝 Validation response TX: ${tx.hash}`);
+      addTransaction({
+        type: 'validation',
+        from: name,
+        txHash: tx.hash,
+        status: 'pending',
+        details: `Validated delivery: ${score}/100`,
+      });
+
+      const receipt = await tx.wait();
+      if (receipt && receipt.status === 1) {
+        console.log(`✅ Validation response confirmed in block ${receipt.blockNumber}`);
+        updateTransaction(tx.hash, 'success');
+        addMessage({
+          from: name,
+          to: name,
+          message: `🛡️ Validated delivery: ${score}/100`,
+          type: 'validation',
+          txHash: tx.hash,
+          status: 'success',
+        });
+        return score;
+      }
+      updateTransaction(tx.hash, 'failed');
+      throw new Error('Validation response transaction failed');
+    } catch (error: any) {
+      console.error(`\n❌ [${name}] Validation Response Error:`, {
+        errorType: error.constructor.name,
+        message: error.message,
+        code: error.code,
+      });
+      addMessage({
+        from: name,
+        to: name,
+        message: `❌ Validation failed: ${error.message}`,
+        type: 'validation',
+        status: 'failed',
+      });
+      return null;
+    }
+  }, [rateDelivery, addMessage, addTransaction, updateTransaction]);
+
+  /**
+   * Bind every action to one agent, giving the same shape the old
+   * single-agent hook returned.
+   */
+  const agent = useCallback((name: string) => ({
+    id: name,
+    state: states[name] ?? emptyAgentState(),
+    register: (options?: AgentCardOptions) => register(name, options),
+    updateAgentCard: (options?: AgentCardOptions) => updateAgentCard(name, options),
+    sendPayment: (toAddress: string, amount: string, tokenSymbol?: string) => sendPayment(name, toAddress, amount, tokenSymbol),
+    servePaidEndpoints: (apiKey: string, price: number) => servePaidEndpoints(name, apiKey, price),
+    fetchPaid: (url: string, maxPrice: number) => fetchPaid(name, url, maxPrice),
+    sendMessage: (to: string, message: string) => sendMessage(name, to, message),
+    sendAIMessage: (to: string, apiKey: string, context: AIMessageContext) => sendAIMessage(name, to, apiKey, context),
+    recordPayment: (to: string, threadId: string, payment: A2APaymentRecord, agreed?: PaymentReceipt['agreed']) => recordPayment(name, to, threadId, payment, agreed),
+    lockEscrow: (toAddress: string, amount: string, tokenSymbol: string, threadId: string, arbiter?: string) => lockEscrow(name, toAddress, amount, tokenSymbol, threadId, arbiter),
+    releaseEscrow: (escrowId: string, paid?: string) => releaseEscrow(name, escrowId, paid),
+    refundEscrow: (escrowId: string, reason: string) => refundEscrow(name, escrowId, reason),
+    transferFundsToOwner: (ownerWalletAddress: string, tokenAddress?: string) => transferFundsToOwner(name, ownerWalletAddress, tokenAddress),
+    revokeAllowance: (tokenAddress: string, spender: string) => revokeAllowance(name, tokenAddress, spender),
+    sweepWallet: (signer: Signer, toAddress: string) => sweepWallet(name, signer, toAddress),
+    grantSession: (limit: number, validUntil: number) => grantSession(name, limit, validUntil),
+    endSession: () => endSession(name),
+    transferAccountOwnership: (newOwner: string) => transferAccountOwnership(name, newOwner),
+    refreshReputation: () => refreshReputation(name),
+    rateDelivery: (deliverable: string, apiKey: string, scenario: Scenario) => rateDelivery(name, deliverable, apiKey, scenario),
+    giveFeedback: (targetAgentId: string, score: number, tag?: string) => giveFeedback(name, targetAgentId, score, tag),
+    stakeAsValidator: (amountWei?: bigint) => stakeAsValidator(name, amountWei),
+    requestValidation: (validatorId: string, work: string) => requestValidation(name, validatorId, work),
+    respondToValidation: (dataHash: string, work: string, apiKey: string, scenario: Scenario) => respondToValidation(name, dataHash, work, apiKey, scenario),
+  }), [states, register, updateAgentCard, sendPayment, servePaidEndpoints, fetchPaid, sendMessage, sendAIMessage, recordPayment, lockEscrow, releaseEscrow, refundEscrow, transferFundsToOwner, revokeAllowance, sweepWallet, grantSession, endSession, transferAccountOwnership, refreshReputation, rateDelivery, giveFeedback, stakeAsValidator, requestValidation, respondToValidation]);
+
+  return {
+    states,
+    messages,
+    transactions,
+    escrows,
+    receipts,
+    approvals,
+    decideApproval,
+    agent,
+    getState,
+    initializeWithSigner,
+    forgetAgent,
+    addMessage,
+    threadEnvelopes,
+  };
+}
+
+export type AgentHandle = ReturnType<ReturnType<typeof useAgents>['agent']>;
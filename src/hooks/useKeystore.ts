@@ -0,0 +1,182 @@
+import { useState, useCallback, useRef } from 'react';
+import { Wallet } from 'ethers';
+import { AgentProfile } from '../types/agent';
+import { clearPlaintextKeys, loadAgentProfiles, loadPlaintextKeys, saveAgentProfiles } from '../services/agentRegistry';
+import {
+  BACKUP_FORMAT,
+  createVaultSession,
+  downloadBackup,
+  EMPTY_VAULT,
+  loadVault,
+  openBackup,
+  openVault,
+  removeVault,
+  saveVault,
+  sealVault,
+  VaultContents,
+  VaultSession,
+} from '../services/keystore';
+import { RelayerSession } from '../services/smartAccount';
+
+export type KeystoreStatus = 'setup' | 'locked' | 'unlocked';
+
+/**
+ * The encrypted agent keystore: set up, unlock and lock the vault, and keep
+ * it re-encrypted as keys are added, removed or rotated. Decrypted keys only
+ * exist in this hook's state while it is unlocked.
+ */
+export function useKeystore() {
+  const [status, setStatus] = useState<KeystoreStatus>(() => (loadVault() ? 'locked' : 'setup'));
+  const [contents, setContents] = useState<VaultContents>(EMPTY_VAULT);
+  const contentsRef = useRef(contents);
+  const sessionRef = useRef<VaultSession | null>(null);
+
+  // Re-encrypt and store; the vault on disk always matches what's in memory
+  const persist = useCallback(async (next: VaultContents) => {
+    if (!sessionRef.current) throw new Error('The keystore is locked');
+    saveVault(await sealVault(sessionRef.current, next));
+    contentsRef.current = next;
+    setContents(next);
+  }, []);
+
+  /**
+   * Create the vault: every existing agent's key — migrated from plaintext
+   * where an earlier version stored it, otherwise fresh — encrypted under
+   * `passphrase`. Plaintext keys are deleted once it is saved.
+   */
+  const setup = useCallback(async (passphrase: string) => {
+    const session = await createVaultSession(passphrase);
+    const profiles = loadAgentProfiles();
+    const plaintext = loadPlaintextKeys();
+    const agents = Object.fromEntries(profiles.map(p => [p.id, plaintext[p.id] ?? Wallet.createRandom().privateKey]));
+    sessionRef.current = session;
+    await persist({ agents, retired: [], sessions: {} });
+    clearPlaintextKeys(profiles);
+    console.log(`🔐 Keystore created for ${profiles.length} agent${profiles.length === 1 ? '' : 's'}`);
+    setStatus('unlocked');
+  }, [persist]);
+
+  /** @throws {Error} If the passphrase is wrong */
+  const unlock = useCallback(async (passphrase: string) => {
+    const vault = loadVault();
+    if (!vault) throw new Error('There is no keystore to unlock');
+    const opened = await openVault(vault, passphrase);
+    sessionRef.current = opened.session;
+    contentsRef.current = opened.contents;
+    setContents(opened.contents);
+    console.log('🔓 Keystore unlocked');
+    setStatus('unlocked');
+  }, []);
+
+  // Drop every decrypted key and the derived key; the UI unmounts everything that held a wallet
+  const lock = useCallback(() => {
+    sessionRef.current = null;
+    contentsRef.current = EMPTY_VAULT;
+    setContents(EMPTY_VAULT);
+    console.log('🔒 Keystore locked');
+    setStatus('locked');
+  }, []);
+
+  /** Forget the vault and every agent. Only a backup can bring the keys back. */
+  const reset = useCallback(() => {
+    removeVault();
+    saveAgentProfiles([]);
+    lock();
+    setStatus('setup');
+  }, [lock]);
+
+  const putKey = useCallback((agentId: string, privateKey: string) => (
+    persist({ ...contentsRef.current, agents: { ...contentsRef.current.agents, [agentId]: privateKey } })
+  ), [persist]);
+
+  const removeKey = useCallback((agentId: string) => {
+    const { [agentId]: _removed, ...agents } = contentsRef.current.agents;
+    const { [agentId]: _session, ...sessions } = contentsRef.current.sessions;
+    return persist({ ...contentsRef.current, agents, sessions });
+  }, [persist]);
+
+  /** Keep (or, with null, drop) the session key of an agent's smart account */
+  const putSession = useCallback((agentId: string, session: RelayerSession | null) => {
+    const { [agentId]: _previous, ...sessions } = contentsRef.current.sessions;
+    return persist({ ...contentsRef.current, sessions: session ? { ...sessions, [agentId]: session } : sessions });
+  }, [persist]);
+
+  /**
+   * Give an agent a fresh key, keeping the old one among the retired keys.
+   * @returns The new key
+   */
+  const rotateKey = useCallback(async (agentId: string) => {
+    const previous = contentsRef.current.agents[agentId];
+    if (!previous) throw new Error(`No key for ${agentId}`);
+    const next = Wallet.createRandom().privateKey;
+    await persist({
+      ...contentsRef.current,
+      agents: { ...contentsRef.current.agents, [agentId]: next },
+      retired: [...contentsRef.current.retired, { agentId, address: new Wallet(previous).address, privateKey: previous, retiredAt: Date.now() }],
+    });
+    return next;
+  }, [persist]);
+
+  /** Take back an agent's latest rotation: its most recently retired key becomes its key again */
+  const undoRotation = useCallback(async (agentId: string) => {
+    const index = contentsRef.current.retired.map(k => k.agentId).lastIndexOf(agentId);
+    if (index < 0) throw new Error(`No retired key for ${agentId}`);
+    const { privateKey } = contentsRef.current.retired[index];
+    await persist({
+      ...contentsRef.current,
+      agents: { ...contentsRef.current.agents, [agentId]: privateKey },
+      retired: contentsRef.current.retired.filter((_, i) => i !== index),
+    });
+    return privateKey;
+  }, [persist]);
+
+  /** Download the vault as it is stored, with the profiles it belongs to */
+  const exportBackup = useCallback((profiles: AgentProfile[]) => {
+    const vault = loadVault();
+    if (!vault) throw new Error('There is no keystore to back up');
+    downloadBackup({ format: BACKUP_FORMAT, version: 1, exportedAt: Date.now(), profiles, vault });
+  }, []);
+
+  /**
+   * Decrypt a backup with its own passphrase and add its keys to this
+   * vault, re-encrypted under this vault's passphrase. Agents already here
+   * keep their keys.
+   * @returns The backup's profiles that are new here
+   */
+  const importBackup = useCallback(async (file: File, passphrase: string, existing: AgentProfile[]) => {
+    const backup = await openBackup(file, passphrase);
+    const added = backup.profiles.filter(p => backup.contents.agents[p.id] && !existing.some(e => e.id === p.id));
+    await persist({
+      agents: { ...contentsRef.current.agents, ...Object.fromEntries(added.map(p => [p.id, backup.contents.agents[p.id]])) },
+      retired: [...contentsRef.current.retired, ...backup.contents.retired.filter(r => !contentsRef.current.retired.some(k => k.address === r.address))],
+      sessions: { ...contentsRef.current.sessions, ...Object.fromEntries(added.flatMap(p => (backup.contents.sessions[p.id] ? [[p.id, backup.contents.sessions[p.id]]] : []))) },
+    });
+    console.log(`📥 Imported ${added.length} agent${added.length === 1 ? '' : 's'} from ${file.name}`);
+    return added;
+  }, [persist]);
+
+  /**
+   * Set up this machine from a backup: its agents and keys become the vault,
+   * encrypted under the backup's passphrase. Agents with plaintext keys here
+   * are kept alongside them.
+   */
+  const restore = useCallback(async (file: File, passphrase: string) => {
+    const backup = await openBackup(file, passphrase);
+    const plaintext = loadPlaintextKeys();
+    const kept = loadAgentProfiles().filter(p => plaintext[p.id] && !backup.profiles.some(b => b.id === p.id));
+    const profiles = [...kept, ...backup.profiles.filter(p => backup.contents.agents[p.id])];
+    sessionRef.current = await createVaultSession(passphrase);
+    await persist({
+      agents: { ...Object.fromEntries(kept.map(p => [p.id, plaintext[p.id]])), ...backup.contents.agents },
+      retired: backup.contents.retired,
+      sessions: backup.contents.sessions,
+    });
+    clearPlaintextKeys(profiles);
+    console.log(`📥 Restored ${profiles.length} agent${profiles.length === 1 ? '' : 's'} from ${file.name}`);
+    setStatus('unlocked');
+  }, [persist]);
+
+  return { status, keys: contents.agents, retired: contents.retired, sessions: contents.sessions, setup, unlock, lock, reset, putKey, removeKey, putSession, rotateKey, undoRotation, exportBackup, importBackup, restore };
+}
+
+export type Keystore = ReturnType<typeof useKeystore>;
@@ -0,0 +1,119 @@
+/**
+ * ERC-8004 agent card generation and content addressing.
+ * Cards are serialized deterministically and addressed by a locally
+ * computed CIDv1 (raw codec, sha2-256) — the same CID `ipfs add
+ * --cid-version=1 --raw-leaves` produces for a file under one block — so
+ * the URI registered on-chain can be checked against any copy of the card.
+ */
+import { getBytes, sha256 } from 'ethers';
+import { AgentCard } from '../types/agentCard';
+
+const RAW_CODEC = 0x55;
+const SHA2_256 = 0x12;
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+function base32(bytes: Uint8Array): string {
+  let out = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return out;
+}
+
+/**
+ * CIDv1 of raw bytes, multibase base32 ("bafkrei…").
+ */
+export function computeCid(bytes: Uint8Array): string {
+  const digest = getBytes(sha256(bytes));
+  const cid = new Uint8Array([0x01, RAW_CODEC, SHA2_256, digest.length, ...digest]);
+  return `b${base32(cid)}`;
+}
+
+export function cidFromUri(uri: string): string | null {
+  const match = uri.match(/^ipfs:\/\/([a-z0-9]+)/i);
+  return match ? match[1] : null;
+}
+
+// Sorted keys at every level so the same card always hashes to the same CID
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function serializeAgentCard(card: AgentCard): Uint8Array {
+  return new TextEncoder().encode(stableStringify(card));
+}
+
+export function buildAgentCard(params: {
+  name: string;
+  description: string;
+  address: string;
+  chainId: number;
+  identityRegistry: string;
+  agentId?: string | null;
+  /** A2A endpoint other agents can reach this one at */
+  a2aEndpoint: string;
+  /** Base URL of the agent's paid HTTP resources, if it sells any */
+  x402Endpoint?: string;
+  asset: string;
+  accepts?: Array<{ symbol: string; asset: string; decimals: number }>;
+  facilitator: string;
+  price?: number;
+  skills?: string[];
+}): AgentCard {
+  const network = `eip155:${params.chainId}`;
+  return {
+    type: 'https://eips.ethereum.org/EIPS/eip-8004#registration-v1',
+    name: params.name,
+    description: params.description,
+    skills: params.skills,
+    endpoints: [
+      { name: 'A2A', endpoint: params.a2aEndpoint, version: '1' },
+      { name: 'agentWallet', endpoint: `${network}:${params.address}` },
+      ...(params.x402Endpoint ? [{ name: 'x402', endpoint: params.x402Endpoint }] : []),
+    ],
+    registrations: params.agentId
+      ? [{ agentId: Number(params.agentId), agentRegistry: `${network}:${params.identityRegistry}` }]
+      : [],
+    supportedTrust: ['reputation', 'crypto-economic'],
+    x402: {
+      scheme: 'exact',
+      network,
+      asset: params.asset,
+      payTo: params.address,
+      facilitator: params.facilitator,
+      price: params.price,
+      accepts: params.accepts,
+    },
+  };
+}
+
+/**
+ * Parse a fetched card, checking its bytes against the CID it was fetched by.
+ * @throws {Error} If the bytes don't match the CID or aren't an agent card
+ */
+export function parseAgentCard(bytes: Uint8Array, expectedCid?: string): AgentCard {
+  if (expectedCid && computeCid(bytes) !== expectedCid) {
+    throw new Error(`Agent card does not match its CID ${expectedCid}`);
+  }
+  const card = JSON.parse(new TextDecoder().decode(bytes));
+  if (!card || typeof card.name !== 'string' || !Array.isArray(card.endpoints)) {
+    throw new Error('Not an ERC-8004 agent card');
+  }
+  return card as AgentCard;
+}
@@ -0,0 +1,263 @@
+/**
+ * Owner → agent ID lookup for the ERC-8004 Identity Registry.
+ * Cheapest source first: ERC-721 Enumerable, the SDK's `Registered` event
+ * query, a persisted `Transfer` event index in IndexedDB, and finally a
+ * bounded, multicall-batched `ownerOf` scan. Every candidate is checked
+ * against the current `ownerOf`, so stale sources can't return a token the
+ * address no longer holds.
+ */
+import { Contract, Interface, Provider } from 'ethers';
+import { identityRegistryOf, NetworkDefinition } from '../config/networks';
+import { findHighestAgentId } from './discovery';
+import { multicall } from './multicall';
+
+const DB_NAME = '0xgasless_agent_index';
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const ERC721_ENUMERABLE_ID = '0x780e9d63';
+const MIN_CHUNK = 128;
+
+const REGISTRY_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+  'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
+];
+const registryInterface = new Interface(REGISTRY_ABI);
+
+interface IndexedToken {
+  /** `<chainId>:<registry>` so several registries can share one database */
+  scope: string;
+  tokenId: string;
+  /** Lowercased; the zero address once burned */
+  owner: string;
+  block: number;
+}
+
+interface IndexCursor {
+  scope: string;
+  /** Next block to scan; everything before it is indexed */
+  nextBlock: number;
+  /** Widest getLogs range the RPC has accepted */
+  chunkSize: number;
+}
+
+export interface AgentIdLookupOptions {
+  /** SDK identity client; its `getAgentIdByOwner` searches recent `Registered` events */
+  identity?: { getAgentIdByOwner(owner: string): Promise<string | null> };
+  /** getLogs calls the event index may spend catching up before giving way */
+  maxChunks?: number;
+  /** Newest token IDs the last-resort `ownerOf` scan will check */
+  maxScan?: number;
+}
+
+// ----------------------------------------------------------------
+//  IndexedDB
+// ----------------------------------------------------------------
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const tokens = request.result.createObjectStore('tokens', { keyPath: ['scope', 'tokenId'] });
+        tokens.createIndex('byOwner', ['scope', 'owner']);
+        request.result.createObjectStore('cursors', { keyPath: 'scope' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readCursor(scope: string): Promise<IndexCursor | undefined> {
+  const db = await openDb();
+  return settle(db.transaction('cursors').objectStore('cursors').get(scope));
+}
+
+async function tokensOwnedBy(scope: string, owner: string): Promise<string[]> {
+  const db = await openDb();
+  const tokens: IndexedToken[] = await settle(
+    db.transaction('tokens').objectStore('tokens').index('byOwner').getAll([scope, owner.toLowerCase()])
+  );
+  return tokens.map(t => t.tokenId);
+}
+
+// Tokens and cursor in one transaction, so an interrupted scan resumes cleanly
+async function writeChunk(tokens: IndexedToken[], cursor: IndexCursor): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(['tokens', 'cursors'], 'readwrite');
+  tokens.forEach(token => tx.objectStore('tokens').put(token));
+  tx.objectStore('cursors').put(cursor);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function scopeFor(network: NetworkDefinition): string {
+  return `${network.chainId}:${identityRegistryOf(network).toLowerCase()}`;
+}
+
+// ----------------------------------------------------------------
+//  Transfer event index
+// ----------------------------------------------------------------
+
+/**
+ * First block with registry code, by binary search over `getCode`.
+ * RPCs without historical state can't answer, so fall back to a recent window.
+ */
+async function findDeploymentBlock(registry: string, provider: Provider, head: number): Promise<number> {
+  try {
+    let low = 0;
+    let high = head;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if ((await provider.getCode(registry, mid)) !== '0x') high = mid;
+      else low = mid + 1;
+    }
+    return low;
+  } catch (e: any) {
+    console.warn('⚠️ [AgentIndex] RPC has no historical state; indexing recent blocks only:', e.message);
+    return Math.max(0, head - 500_000);
+  }
+}
+
+const syncing = new Map<string, Promise<boolean>>();
+
+/**
+ * Scan `Transfer` logs into IndexedDB from where the last scan stopped,
+ * spending at most `maxChunks` getLogs calls. The range shrinks when the
+ * RPC rejects it and the accepted size is remembered.
+ * @returns true once the index has reached the chain head
+ */
+export function syncTransferIndex(network: NetworkDefinition, provider: Provider, maxChunks: number = 100): Promise<boolean> {
+  const registry = identityRegistryOf(network);
+  const scope = scopeFor(network);
+  const run = async () => {
+    const head = await provider.getBlockNumber();
+    const cursor: IndexCursor = (await readCursor(scope))
+      ?? { scope, nextBlock: await findDeploymentBlock(registry, provider, head), chunkSize: 2048 };
+
+    for (let chunks = 0; chunks < maxChunks && cursor.nextBlock <= head; chunks++) {
+      const toBlock = Math.min(head, cursor.nextBlock + cursor.chunkSize - 1);
+      let logs;
+      try {
+        logs = await provider.getLogs({ address: registry, topics: [TRANSFER_TOPIC], fromBlock: cursor.nextBlock, toBlock });
+      } catch (e: any) {
+        if (cursor.chunkSize <= MIN_CHUNK) throw e;
+        cursor.chunkSize = Math.max(MIN_CHUNK, Math.floor(cursor.chunkSize / 2));
+        continue;
+      }
+      const tokens = logs.map(log => ({
+        scope,
+        tokenId: BigInt(log.topics[3]).toString(),
+        owner: `0x${log.topics[2].slice(26)}`.toLowerCase(),
+        block: log.blockNumber,
+      }));
+      cursor.nextBlock = toBlock + 1;
+      await writeChunk(tokens, { ...cursor });
+    }
+
+    const complete = cursor.nextBlock > head;
+    console.log(`🗂️ [AgentIndex] Indexed up to block ${cursor.nextBlock - 1} of ${head}${complete ? '' : ' — will resume next time'}`);
+    return complete;
+  };
+
+  if (!syncing.has(scope)) syncing.set(scope, run().finally(() => syncing.delete(scope)));
+  return syncing.get(scope)!;
+}
+
+/**
+ * Record a token we just minted so the next lookup doesn't wait for the
+ * event index to catch up.
+ */
+export async function recordAgentOwner(network: NetworkDefinition, tokenId: string, owner: string, block: number): Promise<void> {
+  const scope = scopeFor(network);
+  const db = await openDb();
+  await settle(db.transaction('tokens', 'readwrite').objectStore('tokens').put({ scope, tokenId, owner: owner.toLowerCase(), block }));
+}
+
+// ----------------------------------------------------------------
+//  Lookup
+// ----------------------------------------------------------------
+
+// The candidates `owner` still holds, highest ID first
+async function stillOwned(registry: string, provider: Provider, owner: string, candidates: string[]): Promise<string[]> {
+  const unique = [...new Set(candidates)].sort((a, b) => Number(BigInt(b) - BigInt(a)));
+  const owners = await multicall(provider, unique.map(id => ({
+    target: registry, iface: registryInterface, method: 'ownerOf', args: [id],
+  })));
+  return unique.filter((_, i) => owners[i]?.[0]?.toLowerCase() === owner.toLowerCase());
+}
+
+/**
+ * Agent ID owned by `owner`, or null. When it owns several, the highest ID.
+ */
+export async function findAgentIdByOwner(
+  owner: string,
+  network: NetworkDefinition,
+  provider: Provider,
+  options: AgentIdLookupOptions = {}
+): Promise<string | null> {
+  const { identity, maxChunks = 100, maxScan = 2000 } = options;
+  const registryAddress = identityRegistryOf(network);
+  const registry = new Contract(registryAddress, REGISTRY_ABI, provider);
+
+  const balance: bigint = await registry.balanceOf(owner);
+  if (balance === 0n) return null;
+
+  // 1. ERC-721 Enumerable answers directly
+  try {
+    if (await registry.supportsInterface(ERC721_ENUMERABLE_ID)) {
+      const ids: bigint[] = await Promise.all(
+        Array.from({ length: Number(balance) }, (_, i) => registry.tokenOfOwnerByIndex(owner, i))
+      );
+      return ids.reduce((a, b) => (b > a ? b : a)).toString();
+    }
+  } catch {
+    // Not enumerable, or no ERC-165 — fall through
+  }
+
+  // 2. SDK: Registered events over recent blocks
+  if (identity) {
+    try {
+      const id = await identity.getAgentIdByOwner(owner);
+      if (id && (await stillOwned(registryAddress, provider, owner, [id])).length > 0) return id;
+    } catch (e: any) {
+      console.warn('⚠️ [AgentIndex] SDK event lookup failed:', e.message);
+    }
+  }
+
+  // 3. Persisted Transfer index: what we have, then catch up and look again
+  try {
+    const scope = scopeFor(network);
+    const [cached] = await stillOwned(registryAddress, provider, owner, await tokensOwnedBy(scope, owner));
+    if (cached) return cached;
+    await syncTransferIndex(network, provider, maxChunks);
+    const [indexed] = await stillOwned(registryAddress, provider, owner, await tokensOwnedBy(scope, owner));
+    if (indexed) return indexed;
+  } catch (e: any) {
+    console.warn('⚠️ [AgentIndex] Event index unavailable:', e.message);
+  }
+
+  // 4. Newest IDs first, batched through multicall
+  const highest = await findHighestAgentId(network, provider);
+  const ids: string[] = [];
+  for (let id = highest; id >= 1 && ids.length < maxScan; id--) ids.push(String(id));
+  const [scanned] = await stillOwned(registryAddress, provider, owner, ids);
+  if (!scanned && highest > maxScan) {
+    console.warn(`⚠️ [AgentIndex] ${owner} owns an agent outside the newest ${maxScan} IDs; the event index will find it once caught up`);
+  }
+  return scanned ?? null;
+}
@@ -0,0 +1,91 @@
+/**
+ * Local agent registry backed by localStorage.
+ * Each agent gets an ID and a role here; its wallet key lives in the
+ * encrypted keystore (`keystore.ts`) under the same ID. Registries saved
+ * before the keystore existed kept keys in plaintext — those are read once
+ * to migrate them and cleared when the vault is created.
+ */
+import { AgentProfile, AgentRole } from '../types/agent';
+
+const STORAGE_KEY = '0xgasless_agents';
+
+// Keys written before the registry existed, when the demo had exactly two agents
+const LEGACY_AGENTS: Array<{ id: string; role: AgentRole; storageKey: string }> = [
+  { id: 'agentA', role: 'employer', storageKey: '0xgasless_agentA_pk' },
+  { id: 'agentB', role: 'freelancer', storageKey: '0xgasless_agentB_pk' },
+];
+
+export const ROLE_LABELS: Record<AgentRole, string> = {
+  employer: 'Employer',
+  freelancer: 'Freelancer',
+};
+
+/** Default agent card skills, so discovery can find agents by what they do */
+export const ROLE_SKILLS: Record<AgentRole, string[]> = {
+  employer: ['hiring', 'payments'],
+  freelancer: ['research', 'analysis', 'writing'],
+};
+
+export function createAgentProfile(role: AgentRole, existing: AgentProfile[], id?: string): AgentProfile {
+  const sameRole = existing.filter(p => p.role === role).length;
+  return {
+    id: id || `agent-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    role,
+    label: sameRole === 0 ? ROLE_LABELS[role] : `${ROLE_LABELS[role]} ${sameRole + 1}`,
+    createdAt: Date.now(),
+  };
+}
+
+// Never writes keys: any left on a profile are dropped
+export function saveAgentProfiles(profiles: AgentProfile[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles.map(({ privateKey: _key, ...profile }: AgentProfile & { privateKey?: string }) => profile)));
+}
+
+function readStoredProfiles(): Array<AgentProfile & { privateKey?: string }> | null {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed)) return parsed;
+  } catch {
+    console.warn('⚠️ Stored agent registry is corrupt — starting fresh');
+  }
+  return null;
+}
+
+/**
+ * Load persisted agents. On first run, the two legacy per-agent keys keep
+ * their IDs (so their funds are migrated with them); otherwise one employer
+ * and one freelancer are created so the demo has a pair to work with.
+ * Nothing is saved here, so plaintext keys survive until the vault holds them.
+ */
+export function loadAgentProfiles(): AgentProfile[] {
+  const stored = readStoredProfiles();
+  if (stored) return stored.map(({ privateKey: _key, ...profile }) => profile);
+
+  const profiles: AgentProfile[] = [];
+  for (const legacy of LEGACY_AGENTS) {
+    const key = localStorage.getItem(legacy.storageKey);
+    profiles.push(createAgentProfile(legacy.role, profiles, key ? legacy.id : undefined));
+  }
+  return profiles;
+}
+
+/** Keys stored in plaintext by earlier versions, by agent ID */
+export function loadPlaintextKeys(): Record<string, string> {
+  const keys: Record<string, string> = {};
+  for (const legacy of LEGACY_AGENTS) {
+    const key = localStorage.getItem(legacy.storageKey);
+    if (key) keys[legacy.id] = key;
+  }
+  for (const profile of readStoredProfiles() ?? []) {
+    if (profile.privateKey) keys[profile.id] = profile.privateKey;
+  }
+  return keys;
+}
+
+/** Rewrite the registry without keys, once they are safely in the vault */
+export function clearPlaintextKeys(profiles: AgentProfile[]) {
+  saveAgentProfiles(profiles);
+  LEGACY_AGENTS.forEach(legacy => localStorage.removeItem(legacy.storageKey));
+}
@@ -0,0 +1,61 @@
+/**
+ * Token allowances agents have granted: which contracts may pull their
+ * tokens, and how much. Payments approve only what they need, so these
+ * should drain to zero as payments settle; anything left over can be revoked.
+ */
+import { formatUnits, Interface, MaxUint256, Provider } from 'ethers';
+import { NetworkDefinition } from '../config/networks';
+import { multicall } from './multicall';
+
+const allowanceInterface = new Interface(['function allowance(address owner, address spender) view returns (uint256)']);
+
+export interface Spender {
+  address: string;
+  label: string;
+}
+
+export interface Allowance {
+  token: string;
+  tokenAddress: string;
+  spender: string;
+  spenderLabel: string;
+  /** Whole token units */
+  amount: string;
+  /** Approvals this large are effectively unlimited */
+  unlimited: boolean;
+}
+
+/** The contracts agents approve on this network */
+export function spendersOf(network: NetworkDefinition): Spender[] {
+  return [
+    { address: network.x402?.verifyingContract ?? '', label: 'x402 relayer' },
+    { address: network.escrow ?? '', label: 'Escrow' },
+  ].filter(s => s.address);
+}
+
+// Wallets and older versions of this app approve max uint256; anything past half of it is never going to run out
+export function isUnlimited(amount: bigint): boolean {
+  return amount >= MaxUint256 / 2n;
+}
+
+/** Every non-zero allowance `owner` has granted a spender of this network, in one batch */
+export async function readAllowances(provider: Provider, owner: string, network: NetworkDefinition): Promise<Allowance[]> {
+  const pairs = network.tokens
+    .filter(t => t.address)
+    .flatMap(token => spendersOf(network).map(spender => ({ token, spender })));
+  const results = await multicall(provider, pairs.map(({ token, spender }) => ({
+    target: token.address, iface: allowanceInterface, method: 'allowance', args: [owner, spender.address],
+  })));
+  return pairs.flatMap(({ token, spender }, i) => {
+    const amount: bigint = results[i]?.[0] ?? 0n;
+    if (amount === 0n) return [];
+    return [{
+      token: token.symbol,
+      tokenAddress: token.address,
+      spender: spender.address,
+      spenderLabel: spender.label,
+      amount: formatUnits(amount, token.decimals),
+      unlimited: isUnlimited(amount),
+    }];
+  });
+}
@@ -0,0 +1,85 @@
+/**
+ * Where agent cards live. Every backend stores bytes under their CID and
+ * hands back an `ipfs://<cid>` URI, so switching backends never changes
+ * what gets registered on-chain.
+ */
+import { computeCid } from './agentCard';
+
+export interface CardStorage {
+  readonly name: string;
+  /** Store bytes and return their `ipfs://` URI */
+  put(bytes: Uint8Array): Promise<string>;
+  get(cid: string): Promise<Uint8Array | null>;
+}
+
+/**
+ * Process-lifetime storage, for tests and throwaway demos.
+ */
+export function createMemoryCardStorage(): CardStorage {
+  const blobs = new Map<string, Uint8Array>();
+  return {
+    name: 'memory',
+    put: async bytes => {
+      const cid = computeCid(bytes);
+      blobs.set(cid, bytes);
+      return `ipfs://${cid}`;
+    },
+    get: async cid => blobs.get(cid) ?? null,
+  };
+}
+
+/**
+ * Browser-persisted stand-in for IPFS: cards survive reloads but are only
+ * resolvable from this browser.
+ */
+export function createLocalCardStorage(prefix: string = '0xgasless_card_'): CardStorage {
+  return {
+    name: 'localStorage',
+    put: async bytes => {
+      const cid = computeCid(bytes);
+      localStorage.setItem(prefix + cid, new TextDecoder().decode(bytes));
+      return `ipfs://${cid}`;
+    },
+    get: async cid => {
+      const text = localStorage.getItem(prefix + cid);
+      return text === null ? null : new TextEncoder().encode(text);
+    },
+  };
+}
+
+/**
+ * Any Kubo-compatible IPFS HTTP API (a local node, or a pinning service
+ * exposing `/api/v0/add`). Reads go through the node's `/api/v0/cat`.
+ */
+export function createIpfsCardStorage(apiUrl: string, token?: string): CardStorage {
+  const base = apiUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+  return {
+    name: `IPFS ${base}`,
+    put: async bytes => {
+      const cid = computeCid(bytes);
+      const form = new FormData();
+      form.append('file', new Blob([new Uint8Array(bytes)], { type: 'application/json' }), `${cid}.json`);
+      const response = await fetch(`${base}/api/v0/add?cid-version=1&raw-leaves=true&pin=true`, {
+        method: 'POST',
+        headers,
+        body: form,
+      });
+      if (!response.ok) throw new Error(`IPFS add failed: ${await response.text()}`);
+      const { Hash } = await response.json();
+      if (Hash !== cid) console.warn(`⚠️ [Cards] IPFS node returned ${Hash}, expected ${cid}`);
+      return `ipfs://${Hash}`;
+    },
+    get: async cid => {
+      const response = await fetch(`${base}/api/v0/cat?arg=${cid}`, { method: 'POST', headers });
+      return response.ok ? new Uint8Array(await response.arrayBuffer()) : null;
+    },
+  };
+}
+
+export function createCardStorage(): CardStorage {
+  const apiUrl = import.meta.env.VITE_IPFS_API_URL;
+  return apiUrl
+    ? createIpfsCardStorage(apiUrl, import.meta.env.VITE_IPFS_API_TOKEN)
+    : createLocalCardStorage();
+}
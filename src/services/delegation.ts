@@ -0,0 +1,139 @@
+/**
+ * Budgets the owner delegates to agents. Instead of transferring tokens to
+ * an agent up front, the owner lets it draw up to an amount of a token from
+ * the owner's balance until a deadline, and the agent draws only what a
+ * payment is short of, right before paying it.
+ * Networks with a `SpendingDelegation` contract enforce both limits
+ * on-chain. Elsewhere the owner approves the agent directly: the amount is
+ * enforced by the token, but the deadline only by this app.
+ */
+import { Contract, Interface, Provider, Signer, TransactionResponse } from 'ethers';
+import { NetworkDefinition, PaymentToken } from '../config/networks';
+import { multicall } from './multicall';
+
+const STORAGE_PREFIX = '0xgasless_delegations_';
+
+const DELEGATION_ABI = [
+  'function delegate(address agent, address token, uint256 amount, uint64 validUntil)',
+  'function revoke(address agent, address token)',
+  'function draw(address owner, address token, uint256 amount)',
+  'function delegations(address owner, address agent, address token) view returns (uint256 remaining, uint64 validUntil)',
+];
+
+const TOKEN_ABI = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+];
+
+const delegationInterface = new Interface(DELEGATION_ABI);
+const tokenInterface = new Interface(TOKEN_ABI);
+
+export interface Delegation {
+  /** Agent address */
+  agent: string;
+  /** Token symbol */
+  token: string;
+  tokenAddress: string;
+  /** Still drawable, in the token's base units */
+  remaining: string;
+  /** Unix seconds; 0 for an allowance this app has no deadline for */
+  validUntil: number;
+}
+
+export function delegationActive(delegation: Delegation, now: number): boolean {
+  return BigInt(delegation.remaining) > 0n && delegation.validUntil > now;
+}
+
+// Allowance mode only: the deadlines the app enforces, by "agent:token"
+type Deadlines = Record<string, number>;
+
+const deadlineKey = (agent: string, tokenAddress: string) => `${agent}:${tokenAddress}`.toLowerCase();
+
+function loadDeadlines(network: NetworkDefinition): Deadlines {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_PREFIX + network.name) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveDeadline(network: NetworkDefinition, agent: string, tokenAddress: string, validUntil: number | null) {
+  const { [deadlineKey(agent, tokenAddress)]: _previous, ...deadlines } = loadDeadlines(network);
+  if (validUntil !== null) deadlines[deadlineKey(agent, tokenAddress)] = validUntil;
+  localStorage.setItem(STORAGE_PREFIX + network.name, JSON.stringify(deadlines));
+}
+
+async function confirmed(tx: TransactionResponse, what: string): Promise<string> {
+  const receipt = await tx.wait();
+  if (!receipt || receipt.status !== 1) throw new Error(`${what} failed`);
+  return tx.hash;
+}
+
+/** Every delegation `owner` has left to `agents` on this network, in one batch */
+export async function readDelegations(provider: Provider, network: NetworkDefinition, owner: string, agents: string[]): Promise<Delegation[]> {
+  const deadlines = network.delegation ? {} : loadDeadlines(network);
+  const pairs = network.tokens
+    .filter(t => t.address)
+    .flatMap(token => agents.map(agent => ({ token, agent })));
+  const results = await multicall(provider, pairs.map(({ token, agent }) => (
+    network.delegation
+      ? { target: network.delegation, iface: delegationInterface, method: 'delegations', args: [owner, agent, token.address] }
+      : { target: token.address, iface: tokenInterface, method: 'allowance', args: [owner, agent] }
+  )));
+  return pairs.flatMap(({ token, agent }, i) => {
+    const remaining: bigint = results[i]?.[0] ?? 0n;
+    if (remaining === 0n) return [];
+    const validUntil = network.delegation ? Number(results[i]![1]) : deadlines[deadlineKey(agent, token.address)] ?? 0;
+    return [{ agent, token: token.symbol, tokenAddress: token.address, remaining: remaining.toString(), validUntil }];
+  });
+}
+
+/**
+ * Let `agent` draw up to `amount` (base units) of `token` from the owner
+ * until `validUntil`, replacing any earlier delegation of that token to it.
+ * `outstanding` is what the owner's other active delegations of the token
+ * may still draw: the contract is approved for exactly that plus `amount`.
+ * @returns The delegating transaction's hash
+ */
+export async function grantDelegation(
+  owner: Signer,
+  network: NetworkDefinition,
+  agent: string,
+  token: PaymentToken,
+  amount: bigint,
+  validUntil: number,
+  outstanding: bigint
+): Promise<string> {
+  const tokenContract = new Contract(token.address, TOKEN_ABI, owner);
+  if (!network.delegation) {
+    const hash = await confirmed(await tokenContract.approve(agent, amount), `Approving ${agent} for ${token.symbol}`);
+    saveDeadline(network, agent, token.address, validUntil);
+    return hash;
+  }
+  await confirmed(await tokenContract.approve(network.delegation, outstanding + amount), `Approving the delegation contract for ${token.symbol}`);
+  return confirmed(await new Contract(network.delegation, DELEGATION_ABI, owner).delegate(agent, token.address, amount, validUntil), 'Delegating');
+}
+
+/**
+ * End a delegation, and shrink the owner's approval to what its other
+ * delegations (`outstanding`) may still draw.
+ * @returns The revoking transaction's hash
+ */
+export async function revokeDelegation(owner: Signer, network: NetworkDefinition, delegation: Delegation, outstanding: bigint): Promise<string> {
+  const tokenContract = new Contract(delegation.tokenAddress, TOKEN_ABI, owner);
+  if (!network.delegation) {
+    const hash = await confirmed(await tokenContract.approve(delegation.agent, 0n), `Revoking ${delegation.agent}'s ${delegation.token} allowance`);
+    saveDeadline(network, delegation.agent, delegation.tokenAddress, null);
+    return hash;
+  }
+  const hash = await confirmed(await new Contract(network.delegation, DELEGATION_ABI, owner).revoke(delegation.agent, delegation.tokenAddress), 'Revoking');
+  await confirmed(await tokenContract.approve(network.delegation, outstanding), `Reducing the delegation contract's ${delegation.token} approval`);
+  return hash;
+}
+
+/** Move `amount` (base units) of the owner's `token` to the agent signing */
+export async function drawFromOwner(agent: Signer, network: NetworkDefinition, owner: string, token: PaymentToken, amount: bigint): Promise<TransactionResponse> {
+  if (network.delegation) return new Contract(network.delegation, DELEGATION_ABI, agent).draw(owner, token.address, amount);
+  return new Contract(token.address, TOKEN_ABI, agent).transferFrom(owner, await agent.getAddress(), amount);
+}
@@ -0,0 +1,187 @@
+/**
+ * Agent discovery over the ERC-8004 Identity Registry.
+ * Enumerates registered agent IDs, resolves each one's owner and agent card
+ * (from its `tokenURI`), caches the results in localStorage and searches
+ * them by name, description or skill.
+ */
+import { Contract, Provider } from 'ethers';
+import { identityRegistryOf, NetworkDefinition } from '../config/networks';
+import { AgentCard } from '../types/agentCard';
+import { cidFromUri, parseAgentCard } from './agentCard';
+import { CardStorage } from './cardStorage';
+
+const CACHE_PREFIX = '0xgasless_discovery_';
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+const REGISTRY_ABI = [
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function tokenURI(uint256 tokenId) view returns (string)',
+];
+
+export interface DiscoveredAgent {
+  agentId: string;
+  owner: string;
+  uri: string;
+  /** Null when the card couldn't be fetched or parsed; see `error` */
+  card: AgentCard | null;
+  error?: string;
+  fetchedAt: number;
+}
+
+function registryContract(network: NetworkDefinition, provider: Provider) {
+  return new Contract(identityRegistryOf(network), REGISTRY_ABI, provider);
+}
+
+/**
+ * Highest minted agent ID: grow an upper bound until `ownerOf` reverts,
+ * then binary-search it. IDs start at 1; 0 means nothing is registered.
+ */
+export async function findHighestAgentId(network: NetworkDefinition, provider: Provider): Promise<number> {
+  const registry = registryContract(network, provider);
+  const exists = async (id: number) => {
+    try {
+      await registry.ownerOf(id);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!(await exists(1))) return 0;
+  let low = 1;
+  let high = 64;
+  while (await exists(high)) {
+    low = high;
+    high *= 2;
+  }
+  while (low < high - 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (await exists(mid)) low = mid;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Fetch the card behind an agent URI. `ipfs://` is tried in local card
+ * storage first, then a public gateway, and checked against its CID.
+ */
+export async function fetchAgentCard(uri: string, storage?: CardStorage): Promise<AgentCard> {
+  const cid = cidFromUri(uri);
+  if (cid) {
+    const local = await storage?.get(cid);
+    if (local) return parseAgentCard(local, cid);
+    const response = await fetch(`${IPFS_GATEWAY}${cid}`);
+    if (!response.ok) throw new Error(`IPFS gateway returned ${response.status}`);
+    return parseAgentCard(new Uint8Array(await response.arrayBuffer()), cid);
+  }
+  if (uri.startsWith('data:')) {
+    const response = await fetch(uri);
+    return parseAgentCard(new Uint8Array(await response.arrayBuffer()));
+  }
+  if (/^https?:\/\//.test(uri)) {
+    const response = await fetch(uri);
+    if (!response.ok) throw new Error(`Card host returned ${response.status}`);
+    return parseAgentCard(new Uint8Array(await response.arrayBuffer()));
+  }
+  throw new Error(`Unsupported agent URI scheme: ${uri.slice(0, 24)}`);
+}
+
+// One cache per network: agent IDs are only unique within a registry
+function loadCache(network: NetworkDefinition): Record<string, DiscoveredAgent> {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_PREFIX + network.name) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveCache(network: NetworkDefinition, cache: Record<string, DiscoveredAgent>) {
+  localStorage.setItem(CACHE_PREFIX + network.name, JSON.stringify(cache));
+}
+
+/**
+ * Resolve one agent ID to its owner and card, using the cache when fresh.
+ * @returns null if the ID isn't minted
+ */
+export async function resolveAgent(
+  agentId: string,
+  network: NetworkDefinition,
+  provider: Provider,
+  storage?: CardStorage,
+  options: { refresh?: boolean } = {}
+): Promise<DiscoveredAgent | null> {
+  const cache = loadCache(network);
+  const cached = cache[agentId];
+  if (cached && !options.refresh && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached;
+
+  const registry = registryContract(network, provider);
+  let owner: string;
+  let uri: string;
+  try {
+    [owner, uri] = await Promise.all([registry.ownerOf(agentId), registry.tokenURI(agentId)]);
+  } catch {
+    return null;
+  }
+
+  const entry: DiscoveredAgent = { agentId, owner, uri, card: null, fetchedAt: Date.now() };
+  try {
+    entry.card = await fetchAgentCard(uri, storage);
+  } catch (e: any) {
+    entry.error = e.message;
+  }
+
+  saveCache(network, { ...loadCache(network), [agentId]: entry });
+  return entry;
+}
+
+/**
+ * List registered agents, newest first, resolving up to `limit` of them
+ * a few at a time.
+ */
+export async function discoverAgents(
+  network: NetworkDefinition,
+  provider: Provider,
+  storage?: CardStorage,
+  options: { limit?: number; refresh?: boolean; concurrency?: number; onProgress?: (done: number, total: number) => void } = {}
+): Promise<DiscoveredAgent[]> {
+  const { limit = 50, refresh = false, concurrency = 4, onProgress } = options;
+  const highest = await findHighestAgentId(network, provider);
+  const ids: string[] = [];
+  for (let id = highest; id >= 1 && ids.length < limit; id--) ids.push(String(id));
+
+  const found: DiscoveredAgent[] = [];
+  let done = 0;
+  for (let i = 0; i < ids.length; i += concurrency) {
+    const batch = await Promise.all(ids.slice(i, i + concurrency).map(id => resolveAgent(id, network, provider, storage, { refresh })));
+    batch.forEach(agent => { if (agent) found.push(agent); });
+    done += batch.length;
+    onProgress?.(done, ids.length);
+  }
+  return found;
+}
+
+export function cachedAgents(network: NetworkDefinition): DiscoveredAgent[] {
+  return Object.values(loadCache(network)).sort((a, b) => Number(b.agentId) - Number(a.agentId));
+}
+
+/**
+ * Case-insensitive match on every query word against the card's name,
+ * description and skills (or the agent ID / owner for cards that didn't load).
+ */
+export function searchAgents(agents: DiscoveredAgent[], query: string): DiscoveredAgent[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return agents;
+  return agents.filter(agent => {
+    const haystack = [
+      agent.agentId,
+      agent.owner,
+      agent.card?.name,
+      agent.card?.description,
+      ...(agent.card?.skills ?? []),
+      ...(agent.card?.endpoints.map(e => e.name) ?? []),
+    ].join(' ').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * Escrowed payments: the payer locks the agreed price when negotiation
+ * concludes, and it is released to the payee once the delivery is accepted
+ * or refunded when validation fails or the deadline passes.
+ * Networks with an `AgentEscrow` contract lock the tokens on-chain. Elsewhere
+ * the payer signs and pre-verifies an x402 authorization for the amount and
+ * holds it until release; that binds the payer to the price but doesn't stop
+ * it moving the funds, and an unused authorization simply expires.
+ */
+import { Contract, Provider, Signer, id as keccakText } from 'ethers';
+import { NetworkDefinition } from '../config/networks';
+import { PaymentPayload, PaymentRequirements, VerifyResponse } from './localFacilitator';
+
+const STORAGE_PREFIX = '0xgasless_escrows_';
+const DEFAULT_TIMEOUT_SECONDS = 3600;
+
+const ESCROW_ABI = [
+  'function lock(bytes32 id, address payee, address arbiter, address token, uint256 amount, uint64 deadline)',
+  'function release(bytes32 id, uint256 paid)',
+  'function refund(bytes32 id)',
+  'function deals(bytes32 id) view returns (address payer, address payee, address arbiter, address token, uint256 amount, uint64 deadline, uint8 status)',
+];
+
+/** A signed, facilitator-verified x402 authorization, not yet settled */
+export interface HeldAuthorization {
+  payload: PaymentPayload;
+  requirements: PaymentRequirements;
+  /** The facilitator's verify answer, kept for the payment receipt */
+  verification?: VerifyResponse;
+}
+
+export interface Escrow {
+  /** bytes32 deal ID, derived from the conversation's thread ID */
+  id: string;
+  threadId: string;
+  mode: 'contract' | 'authorization';
+  /** Local agent that locked the funds */
+  payer: string;
+  payee: string;
+  /** Token symbol */
+  token: string;
+  /** In the token's base units */
+  amount: string;
+  /** Unix seconds; after it a locked deal is refundable by anyone, or its authorization has expired */
+  deadline: number;
+  status: 'locked' | 'released' | 'refunded';
+  lockTx?: string;
+  /** Authorization mode only; kept in memory, never persisted */
+  authorization?: HeldAuthorization;
+}
+
+export function escrowIdFor(threadId: string): string {
+  return keccakText(`escrow:${threadId}`);
+}
+
+export function escrowTimeoutSeconds(): number {
+  const configured = Number(import.meta.env.VITE_ESCROW_TIMEOUT_SECONDS);
+  return configured > 0 ? configured : DEFAULT_TIMEOUT_SECONDS;
+}
+
+/** Chain time, not wall-clock time: local chains can be warped */
+export async function chainNow(provider: Provider): Promise<number> {
+  const block = await provider.getBlock('latest');
+  return block?.timestamp ?? Math.floor(Date.now() / 1000);
+}
+
+export function escrowContract(network: NetworkDefinition, runner: Signer | Provider): Contract {
+  if (!network.escrow) throw new Error(`${network.label} has no escrow contract`);
+  return new Contract(network.escrow, ESCROW_ABI, runner);
+}
+
+/**
+ * The deal as the contract has it: who locked it for whom, and whether it
+ * is still locked (1), released (2) or refunded (3).
+ */
+export async function readDeal(network: NetworkDefinition, provider: Provider, id: string) {
+  const deal = await escrowContract(network, provider).deals(id);
+  return { payer: deal.payer as string, payee: deal.payee as string, status: Number(deal.status) };
+}
+
+// One list per network: deal IDs only mean something to that network's contract
+export function loadEscrows(network: NetworkDefinition): Escrow[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_PREFIX + network.name) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function saveEscrows(network: NetworkDefinition, escrows: Escrow[]) {
+  const persisted = escrows.map(({ authorization: _held, ...escrow }) => escrow);
+  localStorage.setItem(STORAGE_PREFIX + network.name, JSON.stringify(persisted));
+}
@@ -0,0 +1,146 @@
+/**
+ * Encrypted storage for agent private keys. All keys live in one vault in
+ * localStorage, AES-GCM encrypted under a key derived from the owner's
+ * passphrase with PBKDF2. The derived key is non-extractable and decrypted
+ * keys are only held in memory while the keystore is unlocked, so nothing on
+ * the origin can read a usable key from storage.
+ */
+import { decodeBase64, encodeBase64, toUtf8String } from 'ethers';
+import { AgentProfile } from '../types/agent';
+import { RelayerSession } from './smartAccount';
+
+const VAULT_KEY = '0xgasless_keystore';
+const PBKDF2_ITERATIONS = 600_000;
+export const BACKUP_FORMAT = '0xgasless-agent-backup';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/** What a vault stores, in the clear */
+export interface VaultContents {
+  /** Agent ID → private key */
+  agents: Record<string, string>;
+  /** Keys replaced by rotation, kept in case anything was left behind */
+  retired: Array<{ agentId: string; address: string; privateKey: string; retiredAt: number }>;
+  /** Agent ID → the session key its smart account approves the relayer with */
+  sessions: Record<string, RelayerSession>;
+}
+
+/** A vault as stored: everything but the ciphertext is public */
+export interface EncryptedVault {
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  ciphertext: string;
+}
+
+/** An unlocked vault: the derived key, for re-encrypting after changes */
+export interface VaultSession {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+/** An exported backup; the keys in it are exactly as encrypted as in storage */
+export interface KeyBackup {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  exportedAt: number;
+  /** Agent profiles, which carry no keys */
+  profiles: AgentProfile[];
+  vault: EncryptedVault;
+}
+
+export const EMPTY_VAULT: VaultContents = { agents: {}, retired: [], sessions: {} };
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new Uint8Array(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Start a new vault protected by `passphrase`.
+ * @throws {Error} If the passphrase is too short
+ */
+export async function createVaultSession(passphrase: string): Promise<VaultSession> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS };
+}
+
+/** Encrypt `contents` under the session's key, with a fresh IV */
+export async function sealVault(session: VaultSession, contents: VaultContents): Promise<EncryptedVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, session.key, new TextEncoder().encode(JSON.stringify(contents)));
+  return {
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: session.iterations, salt: encodeBase64(session.salt) },
+    cipher: { name: 'AES-GCM', iv: encodeBase64(iv) },
+    ciphertext: encodeBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt a vault.
+ * @throws {Error} If the passphrase is wrong or the vault has been tampered with
+ */
+export async function openVault(vault: EncryptedVault, passphrase: string): Promise<{ session: VaultSession; contents: VaultContents }> {
+  const salt = decodeBase64(vault.kdf.salt);
+  const key = await deriveKey(passphrase, salt, vault.kdf.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(decodeBase64(vault.cipher.iv)) }, key, new Uint8Array(decodeBase64(vault.ciphertext)));
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+  const contents = JSON.parse(toUtf8String(new Uint8Array(plaintext))) as VaultContents;
+  return { session: { key, salt, iterations: vault.kdf.iterations }, contents: { ...EMPTY_VAULT, ...contents } };
+}
+
+export function loadVault(): EncryptedVault | null {
+  try {
+    return JSON.parse(localStorage.getItem(VAULT_KEY) || 'null');
+  } catch {
+    return null;
+  }
+}
+
+export function saveVault(vault: EncryptedVault) {
+  localStorage.setItem(VAULT_KEY, JSON.stringify(vault));
+}
+
+export function removeVault() {
+  localStorage.removeItem(VAULT_KEY);
+}
+
+export function downloadBackup(backup: KeyBackup) {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `agent-keys-${new Date(backup.exportedAt).toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a backup file and decrypt it.
+ * @throws {Error} If the file isn't a backup or the passphrase is wrong
+ */
+export async function openBackup(file: File, passphrase: string): Promise<{ profiles: AgentProfile[]; contents: VaultContents }> {
+  let backup: KeyBackup;
+  try {
+    backup = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+  if (backup?.format !== BACKUP_FORMAT || !Array.isArray(backup.profiles) || !backup.vault?.ciphertext) {
+    throw new Error(`${file.name} is not an agent key backup`);
+  }
+  const { contents } = await openVault(backup.vault, passphrase);
+  return { profiles: backup.profiles, contents };
+}
@@ -0,0 +1,150 @@
+/**
+ * Language-model providers the agents can talk through.
+ * OpenRouter and any OpenAI-compatible server (llama.cpp, Ollama, vLLM…)
+ * share the chat-completions client; the scripted mock replays the
+ * scenario's canned replies so the whole flow runs without an API key.
+ */
+import { AgentRole, LLMConfig, LLMProviderKind } from '../types/agent';
+import { DealTerms, MockTurn, Scenario } from '../types/scenario';
+import {
+  ChatEndpoint,
+  completeChat,
+  openRouterEndpoint,
+  streamChat,
+  OpenRouterMessage,
+  OpenRouterReply,
+  OpenRouterTool,
+  OpenRouterToolCall,
+} from './openrouter';
+import { fillPlaceholders, isMeteredDelivery } from './scenarios';
+
+/**
+ * Where in a scenario a request is made. Real models ignore it;
+ * the mock uses it to pick its reply.
+ */
+export type LLMScriptPosition =
+  | { kind: 'turn'; scenario: Scenario; phase: string; role: AgentRole; exchange: number; terms: DealTerms }
+  | { kind: 'review'; scenario: Scenario }
+  /** A paid x402 resource, e.g. `research/:topic` */
+  | { kind: 'resource'; resource: string; params: Record<string, string> };
+
+export interface LLMRequest {
+  messages: OpenRouterMessage[];
+  tools?: OpenRouterTool[];
+  /** Called with the full text so far as the reply streams in */
+  onDelta?: (textSoFar: string) => void;
+  position?: LLMScriptPosition;
+}
+
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  complete(request: LLMRequest): Promise<OpenRouterReply>;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderKind, string> = {
+  'openrouter': 'OpenRouter',
+  'openai-compatible': 'OpenAI-compatible',
+  'mock': 'Scripted mock',
+};
+
+export const DEFAULT_LLM_CONFIGS: Record<LLMProviderKind, LLMConfig> = {
+  'openrouter': { provider: 'openrouter', model: 'openai/gpt-4o-mini' },
+  'openai-compatible': { provider: 'openai-compatible', model: 'llama3.1', baseUrl: 'http://localhost:11434/v1' },
+  'mock': { provider: 'mock', model: 'scripted' },
+};
+
+export const DEFAULT_LLM_CONFIG = DEFAULT_LLM_CONFIGS.openrouter;
+
+export function needsOpenRouterKey(config: LLMConfig = DEFAULT_LLM_CONFIG): boolean {
+  return config.provider === 'openrouter';
+}
+
+function createChatProvider(kind: LLMProviderKind, endpoint: ChatEndpoint, model: string): LLMProvider {
+  return {
+    kind,
+    complete: ({ messages, tools, onDelta }) => onDelta
+      ? streamChat(endpoint, messages, onDelta, { tools, model })
+      : completeChat(endpoint, messages, { tools, model }),
+  };
+}
+
+export function createOpenRouterProvider(apiKey: string, model: string = DEFAULT_LLM_CONFIG.model): LLMProvider {
+  return createChatProvider('openrouter', openRouterEndpoint(apiKey), model);
+}
+
+export function createOpenAICompatibleProvider(baseUrl: string, model: string, apiKey?: string): LLMProvider {
+  return createChatProvider('openai-compatible', { baseUrl, apiKey, name: baseUrl }, model);
+}
+
+/**
+ * Deterministic provider that replays `scenario.mock`. The reply for a turn
+ * depends only on the phase, role and exchange index, so every run of a
+ * scenario produces the same conversation.
+ */
+export function createMockProvider(delayPerWordMs: number = 20): LLMProvider {
+  const pick = (position?: LLMScriptPosition): { text: string; toolCall?: OpenRouterToolCall } => {
+    if (!position) return { text: 'OK.' };
+    if (position.kind === 'resource') {
+      return { text: `Brief on ${Object.values(position.params).join(', ')}: three findings, two open questions and a short reading list.` };
+    }
+    if (position.kind === 'review') return { text: position.scenario.mock?.review ?? '85' };
+
+    const { scenario, phase, role, exchange, terms } = position;
+    const turns = (isMeteredDelivery(scenario, phase, terms) ? scenario.metering?.mock?.[role] : scenario.mock?.phases[phase]?.[role]) ?? [];
+    const turn: MockTurn = turns.length > 0
+      ? turns[exchange % turns.length]
+      : `(${scenario.roles[role].label}, ${phase} ${exchange + 1})`;
+    const fill = (text: string) => fillPlaceholders(text, scenario, terms, exchange);
+
+    if (typeof turn === 'string') return { text: fill(turn) };
+    return {
+      text: fill(turn.text ?? ''),
+      toolCall: turn.tool && {
+        id: `mock-${phase}-${role}-${exchange}`,
+        type: 'function',
+        function: { name: turn.tool.name, arguments: fill(JSON.stringify(turn.tool.arguments)) },
+      },
+    };
+  };
+
+  return {
+    kind: 'mock',
+    complete: async ({ tools = [], onDelta, position }) => {
+      const { text, toolCall } = pick(position);
+      if (onDelta) {
+        // Replay word by word so the chat view streams like a real model
+        const words = text.split(/(?<=\s)/);
+        let soFar = '';
+        for (const word of words) {
+          soFar += word;
+          onDelta(soFar);
+          if (delayPerWordMs > 0) await new Promise(r => setTimeout(r, delayPerWordMs));
+        }
+      }
+      // Only hand back tool calls the caller actually offered
+      const offered = toolCall && tools.some(t => t.function.name === toolCall.function.name);
+      return { content: text, toolCalls: offered ? [toolCall] : [] };
+    },
+  };
+}
+
+/**
+ * Build the provider an agent's config asks for.
+ * @throws {Error} If OpenRouter is selected but no API key is available
+ */
+export function createLLMProvider(config: LLMConfig = DEFAULT_LLM_CONFIG, openRouterKey: string): LLMProvider {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(
+        config.baseUrl || DEFAULT_LLM_CONFIGS['openai-compatible'].baseUrl!,
+        config.model,
+        config.apiKey,
+      );
+    case 'mock':
+      return createMockProvider();
+    case 'openrouter':
+    default:
+      if (!openRouterKey) throw new Error('Set VITE_OPENROUTER_API_KEY in .env or pick another model provider');
+      return createOpenRouterProvider(openRouterKey, config.model);
+  }
+}
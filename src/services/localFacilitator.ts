@@ -0,0 +1,129 @@
+/**
+ * In-process x402 facilitator for local dev chains. Does what the hosted
+ * facilitator does — checks the signed `TransferWithAuthorization` against
+ * the payment requirements, then submits it to the relayer — using the
+ * network's dev facilitator key to pay gas.
+ */
+import { Contract, JsonRpcProvider, NonceManager, Provider, TypedDataEncoder, Wallet, verifyTypedData } from 'ethers';
+import type { FacilitatorClient } from '@0xgasless/agent-sdk';
+import { NetworkDefinition } from '../config/networks';
+import { isValidContractSignature } from './smartAccount';
+
+/** What sendPayment needs from a facilitator, hosted or local */
+export type Facilitator = Pick<FacilitatorClient, 'verify' | 'settle'>;
+
+// The SDK doesn't re-export its x402 wire types from the package root
+export type PaymentPayload = Parameters<Facilitator['verify']>[0];
+export type PaymentRequirements = Parameters<Facilitator['verify']>[1];
+export type VerifyResponse = Awaited<ReturnType<Facilitator['verify']>>;
+export type SettleResponse = Awaited<ReturnType<Facilitator['settle']>>;
+
+const RELAYER_ABI = [
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+  'function transferWithAuthorization(address token, address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, bytes signature)',
+];
+
+const TOKEN_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+];
+
+// Same typed data the SDK's createPaymentPayload signs
+const AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+};
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export function createLocalFacilitator(network: NetworkDefinition, provider: Provider = new JsonRpcProvider(network.rpcUrl)): Facilitator {
+  if (!network.devAccounts) throw new Error(`${network.label} has no dev accounts to run a local facilitator`);
+  // NonceManager so back-to-back settlements don't race for the same nonce
+  const settler = new NonceManager(new Wallet(network.devAccounts.facilitator, provider));
+
+  const verify = async (payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> => {
+    const { authorization, signature } = payload.payload;
+    const invalid = (invalidReason: string): VerifyResponse => ({ isValid: false, payer: authorization.from, invalidReason });
+
+    if (payload.scheme !== 'exact' || requirements.scheme !== 'exact') return invalid('unsupported_scheme');
+    if (payload.network !== network.name || requirements.network !== network.name) return invalid('invalid_network');
+    if (!network.x402?.verifyingContract || !sameAddress(requirements.relayerContract, network.x402.verifyingContract)) return invalid('invalid_relayer');
+    if (!sameAddress(payload.token, requirements.asset)) return invalid('invalid_token');
+    if (!sameAddress(authorization.to, requirements.payTo)) return invalid('invalid_recipient');
+    if (BigInt(authorization.value) !== BigInt(requirements.maxAmountRequired)) return invalid('invalid_amount');
+
+    // Chain time, not wall-clock time: anvil can be warped
+    const block = await provider.getBlock('latest');
+    const now = block?.timestamp ?? Math.floor(Date.now() / 1000);
+    if (now <= Number(authorization.validAfter)) return invalid('authorization_not_yet_valid');
+    if (now >= Number(authorization.validBefore)) return invalid('authorization_expired');
+
+    const domain = {
+      name: network.x402.domainName || 'B402',
+      version: network.x402.domainVersion || '1',
+      chainId: network.chainId,
+      verifyingContract: requirements.relayerContract,
+    };
+    // Smart account payers sign through EIP-1271, like the relayer checks them
+    const signedByPayer = async () => {
+      try {
+        if (sameAddress(verifyTypedData(domain, AUTHORIZATION_TYPES, authorization, signature), authorization.from)) return true;
+      } catch {
+        // Not a plain ECDSA signature
+      }
+      return isValidContractSignature(provider, authorization.from, TypedDataEncoder.hash(domain, AUTHORIZATION_TYPES, authorization), signature);
+    };
+    if (!(await signedByPayer())) return invalid('invalid_signature');
+
+    const relayer = new Contract(requirements.relayerContract, RELAYER_ABI, provider);
+    if (await relayer.authorizationState(authorization.from, authorization.nonce)) return invalid('nonce_already_used');
+
+    const token = new Contract(requirements.asset, TOKEN_ABI, provider);
+    const value = BigInt(authorization.value);
+    const [balance, allowance]: [bigint, bigint] = await Promise.all([
+      token.balanceOf(authorization.from),
+      token.allowance(authorization.from, requirements.relayerContract),
+    ]);
+    if (balance < value) return invalid('insufficient_funds');
+    if (allowance < value) return invalid('insufficient_allowance');
+
+    return { isValid: true, payer: authorization.from };
+  };
+
+  const settle = async (payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> => {
+    const { authorization, signature } = payload.payload;
+    const failed = (errorReason: string): SettleResponse => ({ success: false, network: network.name, payer: authorization.from, errorReason });
+
+    const check = await verify(payload, requirements);
+    if (!check.isValid) return failed(check.invalidReason ?? 'invalid_payment');
+
+    try {
+      const relayer = new Contract(requirements.relayerContract, RELAYER_ABI, settler);
+      const tx = await relayer.transferWithAuthorization(
+        requirements.asset,
+        authorization.from,
+        authorization.to,
+        authorization.value,
+        authorization.validAfter,
+        authorization.validBefore,
+        authorization.nonce,
+        signature
+      );
+      console.log(`🏦 [LocalFacilitator] Settlement TX: ${tx.hash}`);
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) return failed('settlement_reverted');
+      return { success: true, transaction: tx.hash, network: network.name, payer: authorization.from };
+    } catch (e: any) {
+      console.error('❌ [LocalFacilitator] Settlement failed:', e);
+      return failed(e.shortMessage ?? e.message);
+    }
+  };
+
+  return { verify, settle };
+}
@@ -0,0 +1,76 @@
+/**
+ * Batched view calls through Multicall3, so reading many tokens or balances
+ * costs one RPC round trip instead of one per call. Falls back to individual
+ * calls, a few at a time, on chains without Multicall3.
+ */
+import { Contract, Interface, Provider, Result } from 'ethers';
+
+// Same address on every chain it's deployed to (https://www.multicall3.com)
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+export interface ViewCall {
+  target: string;
+  iface: Interface;
+  method: string;
+  args: unknown[];
+}
+
+// Individual calls in flight at once without Multicall3, to stay under public RPCs' rate limits
+const FALLBACK_CONCURRENCY = 20;
+
+const deployedOn = new WeakMap<Provider, Promise<boolean>>();
+
+function hasMulticall(provider: Provider): Promise<boolean> {
+  if (!deployedOn.has(provider)) {
+    deployedOn.set(provider, provider.getCode(MULTICALL3_ADDRESS).then(code => code !== '0x', () => false));
+  }
+  return deployedOn.get(provider)!;
+}
+
+/**
+ * Run view calls in batches of `batchSize`.
+ * @returns One decoded result per call, or null where that call reverted
+ */
+export async function multicall(provider: Provider, calls: ViewCall[], batchSize: number = 200): Promise<Array<Result | null>> {
+  if (calls.length === 0) return [];
+
+  if (!(await hasMulticall(provider))) {
+    const results: Array<Result | null> = [];
+    for (let i = 0; i < calls.length; i += FALLBACK_CONCURRENCY) {
+      results.push(...await Promise.all(calls.slice(i, i + FALLBACK_CONCURRENCY).map(async call => {
+        try {
+          const data = await provider.call({ to: call.target, data: call.iface.encodeFunctionData(call.method, call.args) });
+          return call.iface.decodeFunctionResult(call.method, data);
+        } catch {
+          return null;
+        }
+      })));
+    }
+    return results;
+  }
+
+  const multicall3 = new Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+  const results: Array<Result | null> = [];
+  for (let i = 0; i < calls.length; i += batchSize) {
+    const batch = calls.slice(i, i + batchSize);
+    const responses: Array<{ success: boolean; returnData: string }> = await multicall3.aggregate3.staticCall(
+      batch.map(call => ({ target: call.target, allowFailure: true, callData: call.iface.encodeFunctionData(call.method, call.args) }))
+    );
+    responses.forEach((response, j) => {
+      if (!response.success) {
+        results.push(null);
+        return;
+      }
+      try {
+        results.push(batch[j].iface.decodeFunctionResult(batch[j].method, response.returnData));
+      } catch {
+        results.push(null);
+      }
+    });
+  }
+  return results;
+}
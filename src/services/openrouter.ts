@@ -1,47 +1,198 @@
 /**
- * OpenRouter API client for AI agent conversations
+ * OpenRouter API client for AI agent conversations.
+ * OpenRouter speaks the OpenAI chat-completions protocol, so the same
+ * functions also drive any OpenAI-compatible server via `ChatEndpoint`.
  */
 export interface OpenRouterMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
 }
 
+/**
+ * OpenAI-style function tool the model may call instead of (or alongside) replying.
+ */
+export interface OpenRouterTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface OpenRouterToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    /** JSON-encoded arguments, as produced by the model */
+    arguments: string;
+  };
+}
+
 export interface OpenRouterResponse {
   choices: Array<{
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: OpenRouterToolCall[];
     };
   }>;
 }
 
-export async function callOpenRouter(
-  messages: OpenRouterMessage[],
-  apiKey: string,
-  model: string = 'openai/gpt-4o-mini'
-): Promise<string> {
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
+export interface OpenRouterReply {
+  content: string;
+  toolCalls: OpenRouterToolCall[];
+}
+
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+/**
+ * Where to send chat-completion requests.
+ */
+export interface ChatEndpoint {
+  /** Base URL up to (not including) `/chat/completions` */
+  baseUrl: string;
+  apiKey?: string;
+  /** Used in error messages */
+  name: string;
+  headers?: Record<string, string>;
+}
+
+export function openRouterEndpoint(apiKey: string): ChatEndpoint {
+  return {
+    baseUrl: OPENROUTER_BASE_URL,
+    apiKey,
+    name: 'OpenRouter',
     headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
       'HTTP-Referer': window.location.origin,
       'X-Title': 'Agent SDK Demo',
     },
+  };
+}
+
+async function postCompletion(endpoint: ChatEndpoint, body: Record<string, unknown>): Promise<Response> {
+  const response = await fetch(`${endpoint.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(endpoint.apiKey ? { 'Authorization': `Bearer ${endpoint.apiKey}` } : {}),
+      ...endpoint.headers,
+    },
     body: JSON.stringify({
-      model,
-      messages,
       temperature: 0.7,
       max_tokens: 300,
+      ...body,
     }),
   });
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`OpenRouter API error: ${error}`);
+    throw new Error(`${endpoint.name} API error: ${error}`);
   }
 
+  return response;
+}
+
+function toolOptions(tools: OpenRouterTool[]): Record<string, unknown> {
+  return tools.length > 0 ? { tools, tool_choice: 'auto' } : {};
+}
+
+/**
+ * Single non-streaming completion against any chat endpoint.
+ */
+export async function completeChat(
+  endpoint: ChatEndpoint,
+  messages: OpenRouterMessage[],
+  options: { tools?: OpenRouterTool[]; model: string }
+): Promise<OpenRouterReply> {
+  const { tools = [], model } = options;
+  const response = await postCompletion(endpoint, { model, messages, ...toolOptions(tools) });
   const data: OpenRouterResponse = await response.json();
-  return data.choices[0]?.message?.content || 'No response';
+  const message = data.choices[0]?.message;
+  return {
+    content: message?.content ?? '',
+    toolCalls: message?.tool_calls ?? [],
+  };
+}
+
+interface OpenRouterStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+  }>;
+  error?: { message?: string };
 }
 
+/**
+ * Stream a completion over SSE. `onDelta` is called with the full text
+ * received so far after every content chunk. Tools, when given, are offered
+ * to the model; their calls are reassembled from the stream and returned
+ * next to the final text (which may be empty).
+ */
+export async function streamChat(
+  endpoint: ChatEndpoint,
+  messages: OpenRouterMessage[],
+  onDelta: (textSoFar: string) => void,
+  options: { tools?: OpenRouterTool[]; model: string }
+): Promise<OpenRouterReply> {
+  const { tools = [], model } = options;
+  const response = await postCompletion(endpoint, { model, messages, stream: true, ...toolOptions(tools) });
+  if (!response.body) throw new Error(`${endpoint.name} API error: response has no body to stream`);
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  const toolCalls: OpenRouterToolCall[] = [];
+
+  const handleLine = (line: string): boolean => {
+    // Blank lines separate events; lines starting with ":" are keep-alive comments
+    if (!line.startsWith('data:')) return false;
+    const payload = line.slice(5).trim();
+    if (payload === '[DONE]') return true;
+
+    let chunk: OpenRouterStreamChunk;
+    try {
+      chunk = JSON.parse(payload);
+    } catch {
+      return false;
+    }
+    if (chunk.error) throw new Error(`${endpoint.name} API error: ${chunk.error.message ?? 'stream failed'}`);
+
+    const delta = chunk.choices?.[0]?.delta;
+    if (delta?.content) {
+      content += delta.content;
+      onDelta(content);
+    }
+    for (const part of delta?.tool_calls ?? []) {
+      const call = toolCalls[part.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.function.name += part.function.name;
+      if (part.function?.arguments) call.function.arguments += part.function.arguments;
+    }
+    return false;
+  };
+
+  let done = false;
+  while (!done) {
+    const { value, done: streamEnded } = await reader.read();
+    if (streamEnded) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (handleLine(line.trim())) { done = true; break; }
+    }
+  }
+  if (!done && buffer) handleLine(buffer.trim());
+  await reader.cancel().catch(() => {});
+
+  return { content, toolCalls: toolCalls.filter(Boolean) };
+}
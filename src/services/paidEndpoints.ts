@@ -0,0 +1,115 @@
+/**
+ * Hosts agents' x402 servers (`x402Http.ts`) at real URLs. The service
+ * worker in `public/x402-sw.js` hands every request under
+ * `/x402/<agent address>/` to the open tabs, and the tab serving that agent
+ * answers it, so any tab — or any code in this one — can `fetch` another
+ * agent's paid endpoints. Where service workers aren't available (insecure
+ * origins, or before the worker controls the page) requests are dispatched
+ * to the servers in this tab directly.
+ */
+import { PaidEndpointServer } from './x402Http';
+
+const WORKER_URL = '/x402-sw.js';
+const PREFIX = '/x402/';
+
+const servers = new Map<string, PaidEndpointServer>();
+let listening = false;
+
+interface ForwardedRequest {
+  method: string;
+  url: string;
+  headers: [string, string][];
+  body: string | null;
+}
+
+function serverFor(url: string): PaidEndpointServer | undefined {
+  const { pathname } = new URL(url, location.origin);
+  if (!pathname.startsWith(PREFIX)) return undefined;
+  return servers.get(pathname.slice(PREFIX.length).split('/')[0].toLowerCase());
+}
+
+async function answer(event: MessageEvent) {
+  if (event.data?.type !== 'x402-request') return;
+  const port = event.ports[0];
+  const forwarded = event.data.request as ForwardedRequest;
+  const server = serverFor(forwarded.url);
+  if (!server) {
+    port.postMessage({ served: false });
+    return;
+  }
+  try {
+    const response = await server.handle(new Request(forwarded.url, {
+      method: forwarded.method,
+      headers: forwarded.headers,
+      body: forwarded.body,
+    }));
+    port.postMessage({
+      served: true,
+      status: response.status,
+      headers: [...response.headers],
+      body: await response.text(),
+    });
+  } catch (e: any) {
+    // A facilitator or RPC failure still gets an answer, or the worker waits out its timeout
+    console.error('❌ [x402] Paid endpoint failed:', e);
+    port.postMessage({
+      served: true,
+      status: 500,
+      headers: [['content-type', 'application/json']],
+      body: JSON.stringify({ error: e.message ?? String(e) }),
+    });
+  }
+}
+
+/**
+ * Register the service worker and start answering the requests it forwards.
+ * @returns Whether requests will go through the worker
+ */
+export async function startPaidEndpointHost(): Promise<boolean> {
+  if (!('serviceWorker' in navigator)) {
+    console.warn('⚠️ [x402] Service workers unavailable — paid endpoints only reachable from this tab');
+    return false;
+  }
+  if (!listening) {
+    navigator.serviceWorker.addEventListener('message', event => { void answer(event); });
+    listening = true;
+  }
+  try {
+    await navigator.serviceWorker.register(WORKER_URL);
+    await navigator.serviceWorker.ready;
+    return true;
+  } catch (e: any) {
+    console.warn('⚠️ [x402] Could not register the paid endpoint worker:', e.message);
+    return false;
+  }
+}
+
+/** Base path of an agent's paid endpoints */
+export function paidEndpointBase(address: string): string {
+  return `${PREFIX}${address.toLowerCase()}`;
+}
+
+export function paidEndpointUrl(address: string, path: string): string {
+  return `${location.origin}${paidEndpointBase(address)}${path}`;
+}
+
+/** Serve an agent's endpoints from this tab until the returned function is called */
+export function servePaidEndpoints(address: string, server: PaidEndpointServer): () => void {
+  const key = address.toLowerCase();
+  servers.set(key, server);
+  return () => {
+    if (servers.get(key) === server) servers.delete(key);
+  };
+}
+
+/**
+ * `fetch` for paid endpoints: through the worker when it controls the page,
+ * otherwise straight to a server in this tab.
+ */
+export async function fetchPaidEndpoint(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  if (navigator.serviceWorker?.controller) return fetch(input, init);
+  const request = new Request(input, init);
+  const server = serverFor(request.url);
+  if (!server) return new Response(JSON.stringify({ error: `Nothing in this tab serves ${request.url}` }), { status: 404, headers: { 'Content-Type': 'application/json' } });
+  return server.handle(request);
+}
@@ -0,0 +1,102 @@
+/**
+ * Payment tools offered to the agents' LLM calls.
+ * An agent commits to a price or a payment by calling one of these tools;
+ * the conversation loop executes the validated call instead of reading
+ * amounts out of free text.
+ */
+import { PaymentIntent } from '../types/agent';
+import { OpenRouterTool, OpenRouterToolCall } from './openrouter';
+
+export type PaymentToolName = PaymentIntent['kind'];
+
+export const PAYMENT_TOOL_NAMES: PaymentToolName[] = ['send_payment', 'accept_offer'];
+
+/**
+ * Tool definitions for one network. `tokens` are the symbols an agent may
+ * name, which the schemas enumerate so the model can't invent one.
+ */
+export function paymentTools(tokens: string[]): Record<PaymentToolName, OpenRouterTool> {
+  return {
+    send_payment: {
+      type: 'function',
+      function: {
+        name: 'send_payment',
+        description: 'Pay the other agent now. Call this exactly once, with the price you agreed on.',
+        parameters: {
+          type: 'object',
+          properties: {
+            amount: { type: 'number', description: 'Amount to pay, in whole token units (e.g. 5 for 5 USDT)' },
+            token: { type: 'string', enum: tokens, description: 'Symbol of the token you agreed to pay in' },
+            memo: { type: 'string', description: 'Short note on what the payment is for' },
+          },
+          required: ['amount', 'token'],
+          additionalProperties: false,
+        },
+      },
+    },
+    accept_offer: {
+      type: 'function',
+      function: {
+        name: 'accept_offer',
+        description: 'Accept a price for the work. Call this only when both sides have settled on a number and a token.',
+        parameters: {
+          type: 'object',
+          properties: {
+            price: { type: 'number', description: 'Agreed price, in whole units of the token' },
+            token: { type: 'string', enum: tokens, description: 'Symbol of the token payment will be made in' },
+          },
+          required: ['price', 'token'],
+          additionalProperties: false,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Validate a raw tool call into a `PaymentIntent`, accepting only `tokens`.
+ * @throws {Error} If the tool is unknown or its arguments are malformed
+ */
+export function parsePaymentIntent(call: OpenRouterToolCall, tokens: string[]): PaymentIntent {
+  const name = call.function?.name;
+  const fail = (reason: string): never => { throw new Error(`Invalid ${name} call: ${reason}`); };
+
+  let args: Record<string, unknown>;
+  try {
+    args = JSON.parse(call.function.arguments || '{}');
+  } catch {
+    return fail('arguments are not valid JSON');
+  }
+
+  const positive = (key: string): number => {
+    const value = Number(args[key]);
+    if (!Number.isFinite(value) || value <= 0) fail(`"${key}" must be a positive number`);
+    return value;
+  };
+
+  // Case-insensitive, returned in the registry's spelling (e.g. "USDC.e")
+  const token = (): string => {
+    const match = tokens.find(t => t.toUpperCase() === String(args.token ?? '').toUpperCase());
+    return match ?? fail(`unsupported token "${args.token}"`);
+  };
+
+  switch (name) {
+    case 'send_payment':
+      return {
+        kind: 'send_payment',
+        amount: positive('amount'),
+        token: token(),
+        memo: typeof args.memo === 'string' ? args.memo.slice(0, 140) : '',
+      };
+    case 'accept_offer':
+      return { kind: 'accept_offer', price: positive('price'), token: token() };
+    default:
+      return fail('unknown tool');
+  }
+}
+
+export function describeIntent(intent: PaymentIntent): string {
+  return intent.kind === 'send_payment'
+    ? `send_payment(${intent.amount} ${intent.token}${intent.memo ? `, "${intent.memo}"` : ''})`
+    : `accept_offer(${intent.price} ${intent.token})`;
+}
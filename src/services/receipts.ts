@@ -0,0 +1,92 @@
+/**
+ * Payment receipts: persisted per network, and exportable as JSON or as a
+ * printable invoice the browser can save as PDF.
+ */
+import { explorerTxUrl, NetworkDefinition } from '../config/networks';
+import { PaymentReceipt } from '../types/receipt';
+
+const STORAGE_PREFIX = '0xgasless_receipts_';
+
+export const RECEIPT_METHOD_LABELS: Record<PaymentReceipt['method'], string> = {
+  x402: 'x402 payment',
+  escrow: 'Escrow release',
+  http402: 'Paid HTTP request (402)',
+};
+
+// One list per network, like escrows: transaction hashes only mean something there
+export function loadReceipts(network: NetworkDefinition): PaymentReceipt[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_PREFIX + network.name) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function saveReceipts(network: NetworkDefinition, receipts: PaymentReceipt[]) {
+  localStorage.setItem(STORAGE_PREFIX + network.name, JSON.stringify(receipts));
+}
+
+export function invoiceNumber(receipt: PaymentReceipt): string {
+  return `INV-${receipt.txHash.slice(2, 10).toUpperCase()}`;
+}
+
+export function downloadReceipt(receipt: PaymentReceipt) {
+  const blob = new Blob([JSON.stringify(receipt, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `receipt-${invoiceNumber(receipt)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const party = (p: PaymentReceipt['payer'] | PaymentReceipt['payee']) =>
+  `${p.name ? `${escapeHtml(p.name)}<br>` : ''}${p.agentId ? `ERC-8004 agent #${escapeHtml(p.agentId)}<br>` : ''}<code>${escapeHtml(p.address)}</code>`;
+
+/**
+ * Render the receipt as an invoice page. Pass `print` to open the print
+ * dialog straight away (where "Save as PDF" lives).
+ */
+export function openInvoice(receipt: PaymentReceipt, network: NetworkDefinition, print: boolean = true) {
+  const explorer = explorerTxUrl(network, receipt.txHash);
+  const rows: Array<[string, string]> = [
+    ['Network', `${escapeHtml(network.label)} (chain ${receipt.chainId})`],
+    ['Method', RECEIPT_METHOD_LABELS[receipt.method]],
+    ['Agreed price', receipt.agreed ? `${receipt.agreed.price} ${escapeHtml(receipt.agreed.token)}` : '—'],
+    ['Conversation', receipt.threadId ? `<code>${escapeHtml(receipt.threadId)}</code>` : '—'],
+    ['Transcript hash', receipt.transcriptHash ? `<code>${receipt.transcriptHash}</code>` : '—'],
+    ['Resource', receipt.resource ? `<code>${escapeHtml(receipt.resource)}</code>` : '—'],
+    ['Facilitator', receipt.facilitator
+      ? `verify: ${receipt.facilitator.verify ? (receipt.facilitator.verify.isValid ? 'valid' : escapeHtml(receipt.facilitator.verify.invalidReason ?? 'invalid')) : 'by the payee'}; settle: ${receipt.facilitator.settle?.success ? 'success' : escapeHtml(receipt.facilitator.settle?.errorReason ?? '—')}`
+      : 'none (on-chain escrow)'],
+    ['Transaction', explorer ? `<a href="${explorer}"><code>${receipt.txHash}</code></a>` : `<code>${receipt.txHash}</code>`],
+    ['Block', receipt.blockNumber !== null ? String(receipt.blockNumber) : 'pending'],
+  ];
+
+  const html = `<!doctype html>
+<html><head><meta charset="utf-8"><title>${invoiceNumber(receipt)}</title>
+<style>
+  body { font: 13px/1.5 system-ui, sans-serif; color: #111; max-width: 720px; margin: 40px auto; padding: 0 24px; }
+  h1 { font-size: 20px; margin: 0; } .muted { color: #666; }
+  .parties { display: flex; gap: 48px; margin: 24px 0; } .parties div { flex: 1; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  td { padding: 6px 0; border-bottom: 1px solid #eee; vertical-align: top; } td:first-child { width: 160px; color: #666; }
+  code { font-size: 11px; word-break: break-all; } .total { font-size: 18px; font-weight: 600; margin-top: 24px; text-align: right; }
+</style></head><body>
+<h1>Invoice ${invoiceNumber(receipt)}</h1>
+<p class="muted">Paid ${escapeHtml(new Date(receipt.issuedAt).toLocaleString())}</p>
+<div class="parties"><div><strong>From (payer)</strong><br>${party(receipt.payer)}</div><div><strong>To (payee)</strong><br>${party(receipt.payee)}</div></div>
+<table>${rows.map(([k, v]) => `<tr><td>${k}</td><td>${v}</td></tr>`).join('')}</table>
+<p class="total">${escapeHtml(receipt.amount)} ${escapeHtml(receipt.token.symbol)}</p>
+<p class="muted"><code>${escapeHtml(receipt.token.symbol)} ${receipt.token.address}</code> · ${receipt.amountBaseUnits} base units</p>
+</body></html>`;
+
+  const page = window.open('', '_blank');
+  if (!page) throw new Error('Allow pop-ups to open the invoice');
+  page.document.write(html);
+  page.document.close();
+  if (print) page.print();
+}
@@ -0,0 +1,142 @@
+/**
+ * Scenario loading and prompt rendering.
+ * Built-in scenarios live as JSON in `src/scenarios/`; more can be imported
+ * at runtime from a JSON file with the same shape.
+ */
+import { AgentRole } from '../types/agent';
+import { DealTerms, Scenario, ScenarioPhase } from '../types/scenario';
+import { PAYMENT_TOOL_NAMES } from './paymentIntent';
+
+const ROLES: AgentRole[] = ['employer', 'freelancer'];
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+/**
+ * Validate untrusted JSON into a `Scenario`.
+ * @throws {Error} Describing the first problem found
+ */
+export function parseScenario(raw: unknown): Scenario {
+  const fail = (reason: string): never => { throw new Error(`Invalid scenario: ${reason}`); };
+  if (!raw || typeof raw !== 'object') fail('expected a JSON object');
+  const s = raw as Record<string, any>;
+
+  for (const key of ['id', 'name', 'description', 'deliveryPhase', 'paymentPhase']) {
+    if (typeof s[key] !== 'string' || !s[key]) fail(`"${key}" must be a non-empty string`);
+  }
+  for (const role of ROLES) {
+    if (typeof s.roles?.[role]?.label !== 'string') fail(`roles.${role}.label is required`);
+  }
+  if (!isStringArray(s.topics)) fail('"topics" must be an array of strings');
+  if (typeof s.budgetCap !== 'number' || s.budgetCap <= 0) fail('"budgetCap" must be a positive number');
+  if (!s.rules || typeof s.rules !== 'object' || !Object.values(s.rules).every(isStringArray)) {
+    fail('"rules" must map names to arrays of strings');
+  }
+  if (!isStringArray(s.review)) fail('"review" must be an array of strings');
+  if (!Array.isArray(s.phases) || s.phases.length === 0) fail('"phases" must be a non-empty array');
+
+  const names = new Set<string>();
+  (s.phases as ScenarioPhase[]).forEach((phase, i) => {
+    if (typeof phase?.name !== 'string' || !phase.name) fail(`phases[${i}].name is required`);
+    if (names.has(phase.name)) fail(`phase "${phase.name}" is defined twice`);
+    names.add(phase.name);
+    if (!Number.isInteger(phase.exchanges) || phase.exchanges < 0) fail(`phase "${phase.name}" needs a whole number of exchanges`);
+    for (const role of ROLES) {
+      if (!isStringArray(phase.prompts?.[role])) fail(`phase "${phase.name}" is missing the ${role} prompt`);
+    }
+    if (phase.rules !== undefined && !s.rules[phase.rules]) fail(`phase "${phase.name}" uses unknown rules "${phase.rules}"`);
+    for (const role of ROLES) {
+      const tools: unknown = phase.tools?.[role];
+      if (tools === undefined) continue;
+      if (!isStringArray(tools) || !tools.every(t => (PAYMENT_TOOL_NAMES as string[]).includes(t))) {
+        fail(`phase "${phase.name}" offers unknown tools to the ${role}`);
+      }
+    }
+  });
+
+  if (s.mock !== undefined && (typeof s.mock?.phases !== 'object' || s.mock.phases === null)) {
+    fail('"mock.phases" must map phase names to canned replies');
+  }
+  if (s.metering !== undefined) {
+    if (!Number.isInteger(s.metering?.chunks) || s.metering.chunks < 1) fail('"metering.chunks" must be a whole number of at least 1');
+    if (typeof s.metering.chunkPriceCap !== 'number' || s.metering.chunkPriceCap <= 0) fail('"metering.chunkPriceCap" must be a positive number');
+    for (const role of ROLES) {
+      if (!isStringArray(s.metering.prompts?.[role])) fail(`"metering.prompts" is missing the ${role} prompt`);
+    }
+  }
+
+  if (!names.has(s.deliveryPhase)) fail(`deliveryPhase "${s.deliveryPhase}" is not a phase`);
+  if (!names.has(s.paymentPhase)) fail(`paymentPhase "${s.paymentPhase}" is not a phase`);
+  if (s.closingPhase !== undefined && !names.has(s.closingPhase)) fail(`closingPhase "${s.closingPhase}" is not a phase`);
+
+  return s as Scenario;
+}
+
+export const BUILTIN_SCENARIOS: Scenario[] = Object.values(
+  import.meta.glob<{ default: unknown }>('../scenarios/*.json', { eager: true }),
+)
+  .map(mod => parseScenario(mod.default))
+  .sort((a, b) => (a.id === 'research-brief' ? -1 : b.id === 'research-brief' ? 1 : a.name.localeCompare(b.name)));
+
+export async function loadScenarioFile(file: File): Promise<Scenario> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`Invalid scenario: ${file.name} is not valid JSON`);
+  }
+  return parseScenario(raw);
+}
+
+export function getPhase(scenario: Scenario, name: string): ScenarioPhase {
+  return scenario.phases.find(p => p.name === name) ?? scenario.phases[0];
+}
+
+// What the freelancer opens negotiation at, relative to the employer's budget
+export function quoteFor(budget: number): number {
+  return Math.max(3, budget - 3);
+}
+
+// "a", "b", or "c"
+function orList(items: string[]): string {
+  return items.join(', ').replace(/, ([^,]*)$/, ', or $1');
+}
+
+/**
+ * Fill {budget}, {quote}, {token}, {tokens} and {topics} placeholders, plus
+ * {chunk}, {chunks} and {chunkPrice} on metered runs (`exchange` is the
+ * chunk index); unknown ones are left as-is.
+ */
+export function fillPlaceholders(text: string, scenario: Scenario, terms: DealTerms, exchange: number = 0): string {
+  const vars: Record<string, string> = {
+    budget: String(terms.budget),
+    quote: String(quoteFor(terms.budget)),
+    token: terms.token,
+    tokens: orList(terms.tokens),
+    topics: orList(scenario.topics.map(t => `"${t}"`)),
+    ...(terms.metering && {
+      chunk: String(exchange + 1),
+      chunks: String(terms.metering.chunks),
+      chunkPrice: String(terms.metering.chunkPrice),
+    }),
+  };
+  return text.replace(/\{(\w+)\}/g, (match, key) => vars[key] ?? match);
+}
+
+/** Whether this phase delivers in paid chunks on this run */
+export function isMeteredDelivery(scenario: Scenario, phaseName: string, terms: DealTerms): boolean {
+  return !!terms.metering && !!scenario.metering && phaseName === scenario.deliveryPhase;
+}
+
+/**
+ * Build the system prompt for one role in one phase, with rules appended
+ * and placeholders filled in. Metered deliveries use the scenario's
+ * metering prompts.
+ */
+export function renderPrompt(scenario: Scenario, phaseName: string, role: AgentRole, terms: DealTerms, exchange: number = 0): string {
+  const phase = getPhase(scenario, phaseName);
+  const rules = scenario.rules[phase.rules ?? 'default'] ?? [];
+  const prompt = isMeteredDelivery(scenario, phaseName, terms) ? scenario.metering!.prompts[role] : phase.prompts[role];
+  return fillPlaceholders([...prompt, ...rules].join('\n'), scenario, terms, exchange);
+}
@@ -0,0 +1,364 @@
+/**
+ * Agents as 0xGasless ERC-4337 smart accounts. The agent's local key owns
+ * the account and every transaction goes out as a user operation sponsored
+ * by the network's paymaster, so the account never needs native gas. A
+ * session key can be granted that may only approve the x402 relayer, up to
+ * a limit, and payments' approvals then go through it.
+ */
+import {
+  AbstractSigner,
+  formatUnits,
+  getBytes,
+  Interface,
+  parseUnits,
+  Provider,
+  resolveAddress,
+  TransactionRequest,
+  TransactionResponse,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+  Wallet,
+  ZeroHash,
+} from 'ethers';
+import {
+  createABISessionDatum,
+  createSessionKeyManagerModule,
+  createSessionSmartAccountClient,
+  createSmartAccountClient,
+  DEFAULT_ECDSA_OWNERSHIP_MODULE,
+  DEFAULT_ENTRYPOINT_ADDRESS,
+  DEFAULT_SESSION_KEY_MANAGER_MODULE,
+  EthersSigner,
+  PaymasterMode,
+  type Session,
+  type Transaction,
+  type UserOpResponse,
+  type ZeroXgaslessSmartAccount,
+} from '@0xgasless/smart-account';
+import { NetworkDefinition } from '../config/networks';
+
+type Hex = `0x${string}`;
+
+// The SDK doesn't re-export its session storage types from the package root
+type ISessionStorage = Session['sessionStorageClient'];
+type SessionLeafNode = Awaited<ReturnType<ISessionStorage['getSessionData']>>;
+type SessionSearchParam = Parameters<ISessionStorage['getSessionData']>[0];
+type SessionStatus = SessionLeafNode['status'];
+
+const SPONSORED = { paymasterServiceData: { mode: PaymasterMode.SPONSORED } };
+const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+
+const tokenInterface = new Interface(['function approve(address spender, uint256 amount) returns (bool)']);
+const ownershipInterface = new Interface(['function transferOwnership(address owner)']);
+const sessionManagerInterface = new Interface(['function setMerkleRoot(bytes32 root)']);
+const erc1271Interface = new Interface(['function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)']);
+
+/** A relayer session key, as kept in the keystore */
+export interface RelayerSession {
+  privateKey: string;
+  address: string;
+  /** Largest allowance the session key may give the relayer, in whole token units */
+  limit: number;
+  /** Unix seconds */
+  validUntil: number;
+  /** Token addresses it covers, lowercase; each is also the ID of its session leaf */
+  tokens: string[];
+  merkleRoot: string;
+  leaves: SessionLeafNode[];
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export function smartAccountsSupported(network: NetworkDefinition): boolean {
+  return !!network.oxgas;
+}
+
+/** Whether `session` still limits anything */
+export function sessionActive(session: RelayerSession | null | undefined): session is RelayerSession {
+  return !!session && session.validUntil > Date.now() / 1000;
+}
+
+/**
+ * Session storage over a single `RelayerSession`. The SDK's own storages
+ * keep the session key in plaintext localStorage or lose it on reload; this
+ * one is persisted through the keystore instead.
+ */
+class RelayerSessionStorage implements ISessionStorage {
+  smartAccountAddress: Hex;
+  leaves: SessionLeafNode[];
+  merkleRoot: string;
+  private signer: EthersSigner<Wallet>;
+
+  constructor(smartAccountAddress: string, sessionKey: Wallet, leaves: SessionLeafNode[] = [], merkleRoot = '') {
+    this.smartAccountAddress = smartAccountAddress.toLowerCase() as Hex;
+    this.signer = new EthersSigner(sessionKey, 'ethers');
+    this.leaves = leaves;
+    this.merkleRoot = merkleRoot;
+  }
+
+  private matches(leaf: SessionLeafNode, param: SessionSearchParam): boolean {
+    if (param.status && leaf.status !== param.status) return false;
+    if (param.sessionID) return leaf.sessionID === param.sessionID;
+    return !!param.sessionPublicKey && !!param.sessionValidationModule
+      && sameAddress(leaf.sessionPublicKey, param.sessionPublicKey)
+      && sameAddress(leaf.sessionValidationModule, param.sessionValidationModule);
+  }
+
+  async addSessionData(leaf: SessionLeafNode) {
+    this.leaves.push(leaf);
+  }
+
+  async getSessionData(param: SessionSearchParam) {
+    const leaf = this.leaves.find(l => this.matches(l, param));
+    if (!leaf) throw new Error('Session not found.');
+    return leaf;
+  }
+
+  async updateSessionStatus(param: SessionSearchParam, status: SessionStatus) {
+    this.leaves = this.leaves.map(l => (this.matches(l, param) ? { ...l, status } : l));
+  }
+
+  async clearPendingSessions() {
+    this.leaves = this.leaves.filter(l => l.status !== 'PENDING');
+  }
+
+  // There is only ever the one session key
+  async addSigner() { return this.signer; }
+  async getSignerByKey() { return this.signer; }
+  async getSignerBySession() { return this.signer; }
+
+  async getAllSessionData(param?: SessionSearchParam) {
+    return param ? this.leaves.filter(l => this.matches(l, param)) : [...this.leaves];
+  }
+
+  async getMerkleRoot() { return this.merkleRoot; }
+
+  async setMerkleRoot(merkleRoot: string) {
+    this.merkleRoot = merkleRoot;
+  }
+}
+
+function connectAccount(owner: Wallet, network: NetworkDefinition, accountAddress?: string): Promise<ZeroXgaslessSmartAccount> {
+  if (!network.oxgas) throw new Error(`${network.label} has no 0xGasless bundler and paymaster for smart accounts`);
+  return createSmartAccountClient({
+    signer: owner,
+    chainId: network.chainId,
+    rpcUrl: network.rpcUrl,
+    bundlerUrl: network.oxgas.bundlerUrl,
+    paymasterUrl: network.oxgas.paymasterUrl,
+    accountAddress: accountAddress as Hex | undefined,
+  });
+}
+
+/** The address `owner`'s smart account has, deployed or not */
+export async function smartAccountAddressOf(owner: Wallet, network: NetworkDefinition): Promise<string> {
+  return (await connectAccount(owner, network)).getAccountAddress();
+}
+
+/**
+ * Adapter to make a 0xGasless smart account an ethers.Signer: transactions
+ * go out as sponsored user operations, and signatures are the account's
+ * EIP-1271 ones, made with its owner key.
+ */
+export class SmartAccountEthersSigner extends AbstractSigner {
+  readonly session: RelayerSession | null;
+  readonly account: ZeroXgaslessSmartAccount;
+  private address: string;
+  private network: NetworkDefinition;
+  /** Token address → a client that signs with the session key */
+  private sessionClients: Record<string, ZeroXgaslessSmartAccount>;
+
+  constructor(
+    account: ZeroXgaslessSmartAccount,
+    address: string,
+    network: NetworkDefinition,
+    session: RelayerSession | null,
+    sessionClients: Record<string, ZeroXgaslessSmartAccount>,
+    provider: Provider
+  ) {
+    super(provider);
+    this.account = account;
+    this.address = address;
+    this.network = network;
+    this.session = session;
+    this.sessionClients = sessionClients;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: Provider | null): SmartAccountEthersSigner {
+    return new SmartAccountEthersSigner(this.account, this.address, this.network, this.session, this.sessionClients, provider!);
+  }
+
+  async signTransaction(): Promise<string> {
+    throw new Error('Smart accounts send user operations, not signed transactions');
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    await this.deploy();
+    return this.account.signMessage(message);
+  }
+
+  async signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, any>): Promise<string> {
+    await this.deploy();
+    return this.account.signMessage(getBytes(TypedDataEncoder.hash(domain, types, value)));
+  }
+
+  async sendTransaction(tx: TransactionRequest): Promise<TransactionResponse> {
+    if (!tx.to) throw new Error("Smart accounts can't deploy contracts");
+    const call = { to: await resolveAddress(tx.to, this.provider), value: BigInt(tx.value ?? 0), data: tx.data ?? '0x' };
+    return this.wait(await this.clientFor(call).sendTransaction(call, SPONSORED));
+  }
+
+  /** Several calls in one user operation, sent with the owner key */
+  async sendCalls(calls: Transaction[]): Promise<TransactionResponse> {
+    return this.wait(await this.account.sendTransaction(calls, SPONSORED));
+  }
+
+  /** Hand the account to a new owner key; its address, identity and funds stay put */
+  transferOwnership(newOwner: string): Promise<TransactionResponse> {
+    return this.sendCalls([{ to: DEFAULT_ECDSA_OWNERSHIP_MODULE, data: ownershipInterface.encodeFunctionData('transferOwnership', [newOwner]) }]);
+  }
+
+  /** EIP-1271 checks need the account's code, which its first user operation deploys */
+  async deploy() {
+    if (await this.account.isAccountDeployed()) return;
+    console.log(`🏗️ Deploying smart account ${this.address}...`);
+    await this.wait(await this.account.deploy(SPONSORED));
+  }
+
+  // Relayer approvals have to go through the session key while one is active, so its limit holds
+  private clientFor(call: { to: string; data: string }): ZeroXgaslessSmartAccount {
+    const relayer = this.network.x402?.verifyingContract;
+    if (!sessionActive(this.session) || !relayer || !call.data.startsWith(tokenInterface.getFunction('approve')!.selector)) return this.account;
+    const [spender, amount]: [string, bigint] = tokenInterface.decodeFunctionData('approve', call.data) as any;
+    const client = this.sessionClients[call.to.toLowerCase()];
+    if (!sameAddress(spender, relayer) || !client) return this.account;
+
+    const token = this.network.tokens.find(t => sameAddress(t.address, call.to));
+    const limit = parseUnits(String(this.session.limit), token?.decimals ?? 18);
+    if (amount > limit) {
+      throw new Error(`Approving ${formatUnits(amount, token?.decimals ?? 18)} ${token?.symbol ?? 'tokens'} for the x402 relayer is over the session key's limit of ${this.session.limit}`);
+    }
+    return client;
+  }
+
+  // A user operation can fail inside a bundle that succeeds, so its own status decides
+  private async wait(response: UserOpResponse): Promise<TransactionResponse> {
+    const { success, reason, receipt } = await response.wait();
+    if (success !== 'true') throw new Error(`User operation failed${reason ? `: ${reason}` : ''}`);
+    const tx = await this.provider!.getTransaction(receipt.transactionHash);
+    if (!tx) throw new Error(`Bundle transaction ${receipt.transactionHash} not found`);
+    return tx;
+  }
+}
+
+/** An agent's smart account as an ethers Signer, with its session key if it has one */
+export async function createSmartAccountSigner(
+  owner: Wallet,
+  network: NetworkDefinition,
+  accountAddress: string,
+  session: RelayerSession | null,
+  provider: Provider
+): Promise<SmartAccountEthersSigner> {
+  const account = await connectAccount(owner, network, accountAddress);
+  const sessionClients: Record<string, ZeroXgaslessSmartAccount> = {};
+  if (sessionActive(session)) {
+    const storage = new RelayerSessionStorage(accountAddress, new Wallet(session.privateKey, provider), session.leaves, session.merkleRoot);
+    // Typed narrower than it is: the whole config is passed on to createSmartAccountClient
+    const config = {
+      entryPointAddress: DEFAULT_ENTRYPOINT_ADDRESS,
+      accountAddress: accountAddress as Hex,
+      chainId: network.chainId,
+      rpcUrl: network.rpcUrl,
+      bundlerUrl: network.oxgas!.bundlerUrl,
+      paymasterUrl: network.oxgas!.paymasterUrl,
+    };
+    for (const token of session.tokens) {
+      sessionClients[token] = await createSessionSmartAccountClient(config, { sessionStorageClient: storage, sessionID: token });
+    }
+  }
+  return new SmartAccountEthersSigner(account, accountAddress, network, session, sessionClients, provider);
+}
+
+/**
+ * Give the account a fresh session key that may only call `approve` on the
+ * network's tokens, with the x402 relayer as spender and at most `limit`
+ * tokens, until `validUntil`. Replaces any earlier session key.
+ */
+export async function grantRelayerSession(
+  signer: SmartAccountEthersSigner,
+  network: NetworkDefinition,
+  limit: number,
+  validUntil: number
+): Promise<{ session: RelayerSession; tx: TransactionResponse }> {
+  const relayer = network.x402?.verifyingContract;
+  if (!relayer) throw new Error(`${network.label} has no x402 relayer to scope a session key to`);
+  if (!(limit > 0)) throw new Error('The session limit has to be above zero');
+
+  const accountAddress = await signer.getAddress();
+  const sessionKey = new Wallet(Wallet.createRandom().privateKey);
+  const tokens = network.tokens.filter(t => t.address);
+  // A fresh storage, so the new merkle root covers only this session's leaves
+  const storage = new RelayerSessionStorage(accountAddress, sessionKey);
+  const manager = await createSessionKeyManagerModule({ smartAccountAddress: accountAddress as Hex, sessionStorageClient: storage });
+  const { data } = await manager.createSessionData(tokens.map(token => ({
+    ...createABISessionDatum({
+      interval: { validUntil, validAfter: 0 },
+      sessionKeyAddress: sessionKey.address as Hex,
+      contractAddress: token.address as Hex,
+      functionSelector: 'approve(address,uint256)',
+      // Byte offsets into the arguments: spender == relayer, amount <= limit
+      rules: [
+        { offset: 0, condition: 0, referenceValue: relayer },
+        { offset: 32, condition: 1, referenceValue: parseUnits(String(limit), token.decimals) },
+      ],
+      valueLimit: 0n,
+    }),
+    preferredSessionId: token.address.toLowerCase(),
+  })));
+
+  await signer.deploy();
+  const calls: Transaction[] = [];
+  if (!(await signer.account.isModuleEnabled(DEFAULT_SESSION_KEY_MANAGER_MODULE))) {
+    calls.push(await signer.account.getEnableModuleData(DEFAULT_SESSION_KEY_MANAGER_MODULE));
+  }
+  calls.push({ to: DEFAULT_SESSION_KEY_MANAGER_MODULE, data });
+  const tx = await signer.sendCalls(calls);
+  await storage.updateSessionStatus({ sessionPublicKey: sessionKey.address as Hex, sessionValidationModule: storage.leaves[0].sessionValidationModule }, 'ACTIVE');
+
+  return {
+    session: {
+      privateKey: sessionKey.privateKey,
+      address: sessionKey.address,
+      limit,
+      validUntil,
+      tokens: tokens.map(t => t.address.toLowerCase()),
+      merkleRoot: storage.merkleRoot,
+      leaves: storage.leaves,
+    },
+    tx,
+  };
+}
+
+/** Invalidate every session key of the account by clearing its merkle root */
+export function endRelayerSession(signer: SmartAccountEthersSigner): Promise<TransactionResponse> {
+  return signer.sendCalls([{ to: DEFAULT_SESSION_KEY_MANAGER_MODULE, data: sessionManagerInterface.encodeFunctionData('setMerkleRoot', [ZeroHash]) }]);
+}
+
+/**
+ * EIP-1271 check for signatures made by contract accounts.
+ * @returns False for addresses without code, or any revert
+ */
+export async function isValidContractSignature(provider: Provider, address: string, hash: string, signature: string): Promise<boolean> {
+  try {
+    if ((await provider.getCode(address)) === '0x') return false;
+    const result = await provider.call({ to: address, data: erc1271Interface.encodeFunctionData('isValidSignature', [hash, signature]) });
+    return result.slice(0, 10).toLowerCase() === EIP1271_MAGIC_VALUE;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Spending policies: the limits an agent's wallet checks before signing.
+ * `evaluateSpend` is pure; the spend ledger it's fed is kept per network in
+ * localStorage so daily caps survive a reload.
+ */
+import { NetworkDefinition } from '../config/networks';
+import { SpendingPolicy } from '../types/agent';
+
+const LEDGER_PREFIX = '0xgasless_spend_';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Session caps count from here */
+const SESSION_STARTED_AT = Date.now();
+
+export const DEFAULT_SPENDING_POLICY: SpendingPolicy = {
+  maxPerTransaction: null,
+  dailyCap: null,
+  sessionCap: null,
+  payeeAllowlist: [],
+  allowedTokens: [],
+  approvalThreshold: null,
+};
+
+/** Something an agent is about to sign */
+export interface Spend {
+  /** Withdrawals to the owner skip every limit but the approval threshold */
+  kind: 'payment' | 'withdrawal';
+  /** Whole token units */
+  amount: number;
+  token: string;
+  payee: string;
+  /** The payee's ERC-8004 agent ID, when known */
+  payeeAgentId: string | null;
+}
+
+/** One committed payment, for the caps */
+export interface SpendRecord {
+  agent: string;
+  amount: number;
+  token: string;
+  at: number;
+  /** Lets an escrow's entry be adjusted when it is released or refunded */
+  ref?: string;
+}
+
+export type PolicyVerdict =
+  | { allowed: true; needsApproval: boolean }
+  | { allowed: false; reason: string };
+
+export function evaluateSpend(policy: SpendingPolicy, spend: Spend, spent: { day: number; session: number }): PolicyVerdict {
+  const needsApproval = policy.approvalThreshold !== null && spend.amount > policy.approvalThreshold;
+  if (spend.kind === 'withdrawal') return { allowed: true, needsApproval };
+
+  if (policy.allowedTokens.length > 0 && !policy.allowedTokens.includes(spend.token)) {
+    return { allowed: false, reason: `${spend.token} is not an allowed token (${policy.allowedTokens.join(', ')})` };
+  }
+  if (policy.payeeAllowlist.length > 0 && !(spend.payeeAgentId && policy.payeeAllowlist.includes(spend.payeeAgentId))) {
+    return { allowed: false, reason: `payee ${spend.payeeAgentId ? `agent #${spend.payeeAgentId}` : spend.payee} is not on the allowlist` };
+  }
+  if (policy.maxPerTransaction !== null && spend.amount > policy.maxPerTransaction) {
+    return { allowed: false, reason: `${spend.amount} ${spend.token} is over the ${policy.maxPerTransaction} per-transaction limit` };
+  }
+  if (policy.dailyCap !== null && spent.day + spend.amount > policy.dailyCap) {
+    return { allowed: false, reason: `would bring the last 24 hours to ${spent.day + spend.amount} ${spend.token}, over the daily cap of ${policy.dailyCap}` };
+  }
+  if (policy.sessionCap !== null && spent.session + spend.amount > policy.sessionCap) {
+    return { allowed: false, reason: `would bring this session to ${spent.session + spend.amount} ${spend.token}, over the session cap of ${policy.sessionCap}` };
+  }
+  return { allowed: true, needsApproval };
+}
+
+export function loadSpendLedger(network: NetworkDefinition): SpendRecord[] {
+  try {
+    return JSON.parse(localStorage.getItem(LEDGER_PREFIX + network.name) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+// Only the last day matters to any cap, so older entries are dropped on save
+export function saveSpendLedger(network: NetworkDefinition, ledger: SpendRecord[]) {
+  const recent = ledger.filter(r => r.at > Date.now() - DAY_MS);
+  localStorage.setItem(LEDGER_PREFIX + network.name, JSON.stringify(recent));
+}
+
+/**
+ * What `agent` has committed in `token` over the last day and this session.
+ * Caps apply to each token on its own: whole units of different tokens
+ * needn't be worth the same.
+ */
+export function spentBy(ledger: SpendRecord[], agent: string, token: string): { day: number; session: number } {
+  const sum = (since: number) => ledger
+    .filter(r => r.agent === agent && r.token === token && r.at >= since)
+    .reduce((total, r) => Math.round((total + r.amount) * 1e6) / 1e6, 0);
+  return { day: sum(Date.now() - DAY_MS), session: sum(SESSION_STARTED_AT) };
+}
+
+/** One-line summary for the agent card */
+export function describePolicy(policy: SpendingPolicy = DEFAULT_SPENDING_POLICY): string {
+  const parts = [
+    policy.maxPerTransaction !== null && `≤${policy.maxPerTransaction}/tx`,
+    policy.dailyCap !== null && `${policy.dailyCap}/day`,
+    policy.sessionCap !== null && `${policy.sessionCap}/session`,
+    policy.allowedTokens.length > 0 && policy.allowedTokens.join('/'),
+    policy.payeeAllowlist.length > 0 && `pays #${policy.payeeAllowlist.join(', #')}`,
+    policy.approvalThreshold !== null && `approve >${policy.approvalThreshold}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'No spending limits';
+}
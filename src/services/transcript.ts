@@ -0,0 +1,250 @@
+/**
+ * Exportable, independently verifiable conversation transcripts.
+ * A transcript is the hash-chained list of signed A2A envelopes of one
+ * thread. Verification re-checks every signature, every chain link, that
+ * each signer owned its ERC-8004 identity, and what the two sides agreed
+ * to pay — so a deal can be replayed and proven after the fact.
+ */
+import { Contract, JsonRpcProvider, Provider, parseUnits } from 'ethers';
+import { identityRegistryOf, NetworkDefinition, networkForChainId, defaultTokenOf, tokenBySymbol } from '../config/networks';
+import { readDeal } from './escrow';
+import { A2AEnvelope, A2APaymentRecord, hashEnvelope, isWellFormedEnvelope, verifyEnvelope } from './transport';
+
+export interface Transcript {
+  version: 1;
+  threadId: string;
+  exportedAt: string;
+  chainId: number;
+  identityRegistry: string;
+  /** In chain order: each envelope's `prevHash` is the hash of the one before */
+  envelopes: A2AEnvelope[];
+}
+
+export interface TranscriptReport {
+  valid: boolean;
+  /** Problems found, each tied to an envelope index (-1 = whole transcript) */
+  problems: Array<{ index: number; reason: string }>;
+  participants: Array<{ agentId: string; address: string }>;
+  /** Price both sides committed to with accept_offer, if they did */
+  agreedPrice: number | null;
+  /** Token that price is in */
+  agreedToken: string | null;
+  /** The payer's send_payment commitment */
+  paymentIntent: { agentId: string; amount: number; token: string } | null;
+  /** The payer's signed receipts — one, or one per chunk on metered runs — checked against the chain when possible */
+  payments: Array<A2APaymentRecord & { confirmedOnChain: boolean | null }>;
+  /** Sum of the receipts */
+  paidTotal: number;
+}
+
+/**
+ * Put a thread's envelopes (gathered from any mailboxes, in any order)
+ * into chain order for export.
+ */
+export function buildTranscript(threadId: string, envelopes: A2AEnvelope[], network: NetworkDefinition): Transcript {
+  const unique = new Map<string, A2AEnvelope>();
+  envelopes.filter(e => e.threadId === threadId).forEach(e => unique.set(e.id, e));
+
+  const byPrev = new Map<string | null, A2AEnvelope>();
+  unique.forEach(e => byPrev.set(e.prevHash, e));
+  const ordered: A2AEnvelope[] = [];
+  for (let next = byPrev.get(null); next; next = byPrev.get(hashEnvelope(next))) {
+    ordered.push(next);
+    if (ordered.length > unique.size) break;
+  }
+  // Anything off the chain is kept (after it) so verification can flag it
+  unique.forEach(e => { if (!ordered.includes(e)) ordered.push(e); });
+
+  return {
+    version: 1,
+    threadId,
+    exportedAt: new Date().toISOString(),
+    chainId: network.chainId,
+    identityRegistry: identityRegistryOf(network),
+    envelopes: ordered,
+  };
+}
+
+export function downloadTranscript(transcript: Transcript) {
+  const blob = new Blob([JSON.stringify(transcript, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `transcript-${transcript.threadId}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function loadTranscriptFile(file: File): Promise<Transcript> {
+  let raw: any;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`Invalid transcript: ${file.name} is not valid JSON`);
+  }
+  if (raw?.version !== 1 || !Array.isArray(raw.envelopes) || typeof raw.threadId !== 'string') {
+    throw new Error('Invalid transcript: expected a version 1 transcript with envelopes');
+  }
+  return raw as Transcript;
+}
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+// Did `txHash` move `amount` of the token from payer to payee? An escrowed
+// payment moves it out of the network's escrow, from a deal the payer locked.
+async function paymentOnChain(
+  network: NetworkDefinition,
+  provider: Provider,
+  payment: A2APaymentRecord,
+  payer: string,
+  payee: string
+): Promise<boolean> {
+  const token = tokenBySymbol(network, payment.token);
+  if (!token?.address) return false;
+  const receipt = await provider.getTransactionReceipt(payment.txHash);
+  if (!receipt || receipt.status !== 1) return false;
+  let source = payer;
+  if (payment.escrow) {
+    if (payment.escrow.contract.toLowerCase() !== network.escrow?.toLowerCase()) return false;
+    const deal = await readDeal(network, provider, payment.escrow.id);
+    if (deal.payer.toLowerCase() !== payer.toLowerCase() || deal.payee.toLowerCase() !== payee.toLowerCase()) return false;
+    source = payment.escrow.contract;
+  }
+  const pad = (address: string) => `0x${address.toLowerCase().slice(2).padStart(64, '0')}`;
+  const amount = parseUnits(String(payment.amount), token.decimals);
+  return receipt.logs.some(log =>
+    log.address.toLowerCase() === token.address.toLowerCase()
+    && log.topics[0] === TRANSFER_TOPIC
+    && log.topics[1]?.toLowerCase() === pad(source)
+    && log.topics[2]?.toLowerCase() === pad(payee)
+    && BigInt(log.data) === amount
+  );
+}
+
+/**
+ * Verify a transcript against the ERC-8004 Identity Registry it names, on
+ * the known network with the transcript's chain ID. Pass `provider` to use
+ * an existing connection to that chain.
+ */
+export async function verifyTranscript(transcript: Transcript, provider?: Provider): Promise<TranscriptReport> {
+  const network = networkForChainId(transcript.chainId);
+  if (!network) throw new Error(`Transcript is for chain ${transcript.chainId}, which isn't a configured network`);
+  provider ??= new JsonRpcProvider(network.rpcUrl);
+
+  const problems: TranscriptReport['problems'] = [];
+  const { envelopes } = transcript;
+
+  const connected = await provider.getNetwork();
+  if (Number(connected.chainId) !== transcript.chainId) {
+    problems.push({ index: -1, reason: `transcript is for chain ${transcript.chainId}, provider is on ${connected.chainId}` });
+  }
+  if (transcript.identityRegistry.toLowerCase() !== identityRegistryOf(network).toLowerCase()) {
+    problems.push({ index: -1, reason: `unknown identity registry ${transcript.identityRegistry}` });
+  }
+  if (envelopes.length === 0) problems.push({ index: -1, reason: 'transcript has no messages' });
+
+  // Always resolve owners on-chain — the auditor trusts no local keys
+  const registry = new Contract(identityRegistryOf(network), ['function ownerOf(uint256 tokenId) view returns (address)'], provider);
+  const owners = new Map<string, Promise<string | null>>();
+  const resolveOwner = (agentId: string) => {
+    // A non-numeric ID fails inside the chain, as an unknown owner
+    if (!owners.has(agentId)) owners.set(agentId, Promise.resolve().then(() => registry.ownerOf(BigInt(agentId))).catch(() => null));
+    return owners.get(agentId)!;
+  };
+
+  const participants = new Map<string, string>();
+  // Only what these signed can be trusted to decide how a payment is checked
+  const authentic = new Set<A2AEnvelope>();
+  // Malformed envelopes are reported and otherwise left out: none of their fields can be read
+  const wellFormed = envelopes.filter(isWellFormedEnvelope);
+  for (const [index, envelope] of envelopes.entries()) {
+    if (!isWellFormedEnvelope(envelope)) {
+      problems.push({ index, reason: 'malformed envelope' });
+      continue;
+    }
+    const problem = await verifyEnvelope(envelope, resolveOwner, provider);
+    if (problem) problems.push({ index, reason: problem });
+    else authentic.add(envelope);
+    if (envelope.threadId !== transcript.threadId) problems.push({ index, reason: 'belongs to another thread' });
+
+    const previous = index === 0 ? null : envelopes[index - 1];
+    const linked = previous === null
+      ? envelope.prevHash === null
+      : isWellFormedEnvelope(previous) && envelope.prevHash === hashEnvelope(previous);
+    if (!linked) problems.push({ index, reason: 'hash chain broken — message missing, reordered or altered' });
+    if (previous && isWellFormedEnvelope(previous) && envelope.sentAt < previous.sentAt) problems.push({ index, reason: 'timestamp goes backwards' });
+
+    participants.set(envelope.from.agentId, envelope.from.address);
+  }
+  if (participants.size > 2) problems.push({ index: -1, reason: `expected two participants, found ${participants.size}` });
+
+  // Last accept_offer from each side; agreed only if both named the same price and token.
+  // Offers from before tokens were negotiable are in the network's default token.
+  const accepted = new Map<string, { price: number; token: string }>();
+  let paymentIntent: TranscriptReport['paymentIntent'] = null;
+  const receipts: Array<{ envelope: A2AEnvelope; payment: A2APaymentRecord }> = [];
+  for (const envelope of wellFormed) {
+    const { intent, payment } = envelope.body;
+    if (intent?.kind === 'accept_offer') {
+      accepted.set(envelope.from.agentId, { price: intent.price, token: intent.token ?? defaultTokenOf(network).symbol });
+    }
+    if (intent?.kind === 'send_payment') paymentIntent = { agentId: envelope.from.agentId, amount: intent.amount, token: intent.token };
+    if (payment) receipts.push({ envelope, payment });
+  }
+  const offers = [...accepted.values()];
+  const agreed = accepted.size === 2 && offers[0].price === offers[1].price && offers[0].token === offers[1].token ? offers[0] : null;
+  if (accepted.size === 2 && !agreed) problems.push({ index: -1, reason: 'the two sides never accepted the same price and token' });
+  if (paymentIntent && agreed && paymentIntent.amount > agreed.price) {
+    problems.push({ index: -1, reason: `payment of ${paymentIntent.amount} exceeds the agreed ${agreed.price}` });
+  }
+  if (paymentIntent && agreed && paymentIntent.token !== agreed.token) {
+    problems.push({ index: -1, reason: `payment in ${paymentIntent.token}, but ${agreed.token} was agreed` });
+  }
+
+  const payments: TranscriptReport['payments'] = [];
+  for (const receipt of receipts) {
+    const index = envelopes.indexOf(receipt.envelope);
+    // The payee's address is only known if it signed something in this thread
+    const payee = participants.get(receipt.envelope.to.agentId);
+    let confirmedOnChain: boolean | null = null;
+    if (!payee) {
+      problems.push({ index, reason: 'payment recipient never signed a message in this thread' });
+    } else {
+      try {
+        const payment = authentic.has(receipt.envelope) ? receipt.payment : { ...receipt.payment, escrow: undefined };
+        confirmedOnChain = await paymentOnChain(network, provider, payment, receipt.envelope.from.address, payee);
+      } catch (e: any) {
+        console.warn('⚠️ [Transcript] Could not check payment on-chain:', e.message);
+      }
+    }
+    if (confirmedOnChain === false) problems.push({ index, reason: `payment ${receipt.payment.txHash} not found on-chain as signed` });
+    // Metered chunks are paid by the meter, not by a send_payment call — if the payer signed that they were
+    const metered = !!receipt.payment.metered && authentic.has(receipt.envelope);
+    if (paymentIntent && !metered && receipt.payment.amount !== paymentIntent.amount) {
+      problems.push({ index, reason: 'paid amount differs from the send_payment commitment' });
+    }
+    if (paymentIntent && !metered && receipt.payment.token !== paymentIntent.token) {
+      problems.push({ index, reason: 'paid token differs from the send_payment commitment' });
+    }
+    if (agreed && receipt.payment.token !== agreed.token) {
+      problems.push({ index, reason: `paid in ${receipt.payment.token}, but ${agreed.token} was agreed` });
+    }
+    payments.push({ ...receipt.payment, confirmedOnChain });
+  }
+  // Rounded to the cent so summed chunk prices compare cleanly
+  const paidTotal = Math.round(payments.reduce((sum, p) => sum + p.amount, 0) * 100) / 100;
+  if (agreed && paidTotal > agreed.price) {
+    problems.push({ index: -1, reason: `paid ${paidTotal} in total, more than the agreed ${agreed.price}` });
+  }
+
+  return {
+    valid: problems.length === 0,
+    problems,
+    participants: [...participants].map(([agentId, address]) => ({ agentId, address })),
+    agreedPrice: agreed?.price ?? null,
+    agreedToken: agreed?.token ?? null,
+    paymentIntent,
+    payments,
+    paidTotal,
+  };
+}
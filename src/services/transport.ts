@@ -0,0 +1,307 @@
+/**
+ * Agent-to-agent (A2A) messaging.
+ * Agents exchange signed envelopes addressed by ERC-8004 agent ID over a
+ * shared transport: a BroadcastChannel (same browser, any tab) or a local
+ * WebSocket relay (any process). The chat view is just another subscriber.
+ */
+import { Provider, Signer, hashMessage, keccak256, toUtf8Bytes, verifyMessage } from 'ethers';
+import { AgentMessage, PaymentIntent } from '../types/agent';
+import { isValidContractSignature } from './smartAccount';
+
+export interface A2APaymentRecord {
+  txHash: string;
+  amount: number;
+  token: string;
+  /** Set when the payment was released from an escrow contract rather than paid directly */
+  escrow?: { contract: string; id: string };
+  /** Set on metered runs: which delivered chunk this pays for */
+  metered?: { chunk: number; of: number };
+}
+
+export interface A2AEnvelopeBody {
+  text: string;
+  intent?: PaymentIntent;
+  /** Scenario phase the message was written in */
+  phase?: string;
+  /** Set on the payer's receipt once a payment settles; not shown as chat */
+  payment?: A2APaymentRecord;
+}
+
+export interface A2AEnvelope {
+  version: 1;
+  id: string;
+  /** Groups the messages of one conversation */
+  threadId: string;
+  from: { agentId: string; address: string };
+  to: { agentId: string };
+  sentAt: number;
+  /** `hashEnvelope()` of the previous envelope in the thread, null for the first */
+  prevHash: string | null;
+  body: A2AEnvelopeBody;
+  /** EIP-191 signature by `from.address` over `canonicalEnvelope()` */
+  signature: string;
+}
+
+export type UnsignedEnvelope = Omit<A2AEnvelope, 'signature'>;
+
+export interface A2ATransport {
+  readonly name: string;
+  /** How other agents reach this transport; published in agent cards */
+  readonly endpoint: string;
+  send(envelope: A2AEnvelope): void;
+  /** Every envelope on the transport, including this tab's own. Returns an unsubscribe. */
+  subscribe(handler: (envelope: A2AEnvelope) => void): () => void;
+  close(): void;
+}
+
+// Every field is signed; optional ones only when set, so receipts without them hash as they always did
+function canonicalPayment(payment: A2APaymentRecord) {
+  const { txHash, amount, token, escrow, metered } = payment;
+  return {
+    txHash,
+    amount,
+    token,
+    ...(escrow && { escrow: { contract: escrow.contract, id: escrow.id } }),
+    ...(metered && { metered: { chunk: metered.chunk, of: metered.of } }),
+  };
+}
+
+// Stable key order so signer and verifier hash the same bytes
+export function canonicalEnvelope(envelope: UnsignedEnvelope): string {
+  const { version, id, threadId, from, to, sentAt, prevHash, body } = envelope;
+  return JSON.stringify({
+    version,
+    id,
+    threadId,
+    from: { agentId: from.agentId, address: from.address },
+    to: { agentId: to.agentId },
+    sentAt,
+    prevHash,
+    body: {
+      text: body.text,
+      intent: body.intent ?? null,
+      phase: body.phase ?? null,
+      payment: body.payment ? canonicalPayment(body.payment) : null,
+    },
+  });
+}
+
+/**
+ * Link in the thread's hash chain: covers the signed fields and the signature.
+ */
+export function hashEnvelope(envelope: A2AEnvelope): string {
+  return keccak256(toUtf8Bytes(`${canonicalEnvelope(envelope)}\n${envelope.signature}`));
+}
+
+export async function signEnvelope(signer: Signer, envelope: UnsignedEnvelope): Promise<A2AEnvelope> {
+  return { ...envelope, signature: await signer.signMessage(canonicalEnvelope(envelope)) };
+}
+
+/**
+ * Whether `envelope` has every field `canonicalEnvelope` reads. Envelopes
+ * come from other tabs and relay clients, so nothing about them is assumed.
+ */
+export function isWellFormedEnvelope(envelope: unknown): envelope is A2AEnvelope {
+  const e = envelope as A2AEnvelope | null;
+  return e?.version === 1
+    && typeof e.signature === 'string'
+    && typeof e.id === 'string'
+    && typeof e.threadId === 'string'
+    && typeof e.from?.agentId === 'string'
+    && typeof e.from.address === 'string'
+    && typeof e.to?.agentId === 'string'
+    && typeof e.sentAt === 'number'
+    && typeof e.body?.text === 'string';
+}
+
+/**
+ * Check an envelope's signature and, when `resolveOwner` is given, that the
+ * signer owns the ERC-8004 identity it claims to speak for. Senders that are
+ * smart accounts sign through EIP-1271, which takes a `provider` to check.
+ * @returns The reason it failed, or null if the envelope is authentic
+ */
+export async function verifyEnvelope(
+  envelope: A2AEnvelope,
+  resolveOwner?: (agentId: string) => Promise<string | null>,
+  provider?: Provider
+): Promise<string | null> {
+  if (!isWellFormedEnvelope(envelope)) return 'malformed envelope';
+  let signer: string | null = null;
+  try {
+    signer = verifyMessage(canonicalEnvelope(envelope), envelope.signature);
+  } catch {
+    // Not a plain ECDSA signature — may still be a smart account's
+  }
+  if (signer?.toLowerCase() !== envelope.from.address.toLowerCase()) {
+    const hash = hashMessage(canonicalEnvelope(envelope));
+    if (!provider || !(await isValidContractSignature(provider, envelope.from.address, hash, envelope.signature))) {
+      return signer ? 'signature does not match sender' : 'unreadable signature';
+    }
+    signer = envelope.from.address;
+  }
+  if (resolveOwner) {
+    const owner = await resolveOwner(envelope.from.agentId);
+    if (!owner || owner.toLowerCase() !== signer.toLowerCase()) return `sender does not own agent ${envelope.from.agentId}`;
+  }
+  return null;
+}
+
+export function createEnvelopeId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Local fan-out shared by the transports below: neither a BroadcastChannel
+ * nor a typical relay echoes a message back to the client that sent it.
+ */
+function createLocalBus() {
+  const handlers = new Set<(envelope: A2AEnvelope) => void>();
+  return {
+    emit: (envelope: A2AEnvelope) => handlers.forEach(h => h(envelope)),
+    subscribe: (handler: (envelope: A2AEnvelope) => void) => {
+      handlers.add(handler);
+      return () => { handlers.delete(handler); };
+    },
+    clear: () => handlers.clear(),
+  };
+}
+
+export function createBroadcastChannelTransport(channelName: string = '0xgasless-a2a'): A2ATransport {
+  const channel = new BroadcastChannel(channelName);
+  const bus = createLocalBus();
+  channel.onmessage = e => bus.emit(e.data as A2AEnvelope);
+  return {
+    name: `BroadcastChannel "${channelName}"`,
+    endpoint: `broadcastchannel:${channelName}`,
+    send: envelope => {
+      channel.postMessage(envelope);
+      bus.emit(envelope);
+    },
+    subscribe: bus.subscribe,
+    close: () => { bus.clear(); channel.close(); },
+  };
+}
+
+/**
+ * Connects to a relay that forwards every text frame to all other clients.
+ * Envelopes sent before the socket opens are queued; the socket reconnects
+ * after drops until closed.
+ */
+export function createWebSocketTransport(url: string, reconnectMs: number = 2000): A2ATransport {
+  const bus = createLocalBus();
+  const queue: string[] = [];
+  let socket: WebSocket | null = null;
+  let closed = false;
+
+  const connect = () => {
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      console.log(`🔌 [A2A] Connected to relay ${url}`);
+      while (queue.length > 0 && socket?.readyState === WebSocket.OPEN) socket.send(queue.shift()!);
+    };
+    socket.onmessage = e => {
+      try {
+        bus.emit(JSON.parse(String(e.data)) as A2AEnvelope);
+      } catch {
+        console.warn('⚠️ [A2A] Ignoring non-JSON frame from relay');
+      }
+    };
+    socket.onclose = () => {
+      if (closed) return;
+      console.warn(`⚠️ [A2A] Relay connection lost — retrying in ${reconnectMs}ms`);
+      setTimeout(connect, reconnectMs);
+    };
+  };
+  connect();
+
+  return {
+    name: `WebSocket relay ${url}`,
+    endpoint: url,
+    send: envelope => {
+      const frame = JSON.stringify(envelope);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(frame);
+      else queue.push(frame);
+      bus.emit(envelope);
+    },
+    subscribe: bus.subscribe,
+    close: () => { closed = true; bus.clear(); socket?.close(); },
+  };
+}
+
+/**
+ * One agent's view of the transport: what it sent and what was sent to it.
+ */
+export interface AgentMailbox {
+  readonly agentId: () => string | null;
+  readonly outbox: A2AEnvelope[];
+  readonly inbox: A2AEnvelope[];
+  send(to: string, threadId: string, body: A2AEnvelopeBody, id?: string): Promise<A2AEnvelope>;
+  /** Both directions of one thread with one peer, oldest first */
+  thread(peerAgentId: string, threadId: string): A2AEnvelope[];
+  /** Called by the owner of the transport subscription for verified envelopes */
+  deliver(envelope: A2AEnvelope): void;
+}
+
+export function createAgentMailbox(
+  signer: Signer,
+  address: string,
+  agentId: () => string | null,
+  transport: A2ATransport
+): AgentMailbox {
+  const outbox: A2AEnvelope[] = [];
+  const inbox: A2AEnvelope[] = [];
+  const thread = (peer: string, threadId: string) => [
+    ...outbox.filter(e => e.threadId === threadId && e.to.agentId === peer),
+    ...inbox.filter(e => e.threadId === threadId && e.from.agentId === peer),
+  ].sort((a, b) => a.sentAt - b.sentAt);
+
+  return {
+    agentId,
+    outbox,
+    inbox,
+    send: async (to, threadId, body, id = createEnvelopeId()) => {
+      const from = agentId();
+      if (!from) throw new Error('Agent must be registered on ERC-8004 before it can message other agents');
+      const previous = thread(to, threadId).at(-1);
+      const envelope = await signEnvelope(signer, {
+        version: 1,
+        id,
+        threadId,
+        from: { agentId: from, address },
+        to: { agentId: to },
+        sentAt: Date.now(),
+        prevHash: previous ? hashEnvelope(previous) : null,
+        body,
+      });
+      outbox.push(envelope);
+      transport.send(envelope);
+      return envelope;
+    },
+    thread,
+    deliver: envelope => {
+      if (envelope.to.agentId !== agentId()) return;
+      if (inbox.some(e => e.id === envelope.id)) return;
+      inbox.push(envelope);
+    },
+  };
+}
+
+/**
+ * How an envelope shows up in the chat view. `from`/`to` are mapped back
+ * to local agent IDs where the agent lives in this tab.
+ */
+export function envelopeToMessage(
+  envelope: A2AEnvelope,
+  localIdFor: (agentId: string) => string | null
+): AgentMessage {
+  return {
+    id: envelope.id,
+    from: localIdFor(envelope.from.agentId) ?? `erc8004:${envelope.from.agentId}`,
+    to: localIdFor(envelope.to.agentId) ?? `erc8004:${envelope.to.agentId}`,
+    message: envelope.body.text,
+    timestamp: new Date(envelope.sentAt),
+    type: 'message',
+    intent: envelope.body.intent,
+    signedBy: envelope.from.address,
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * x402 over HTTP. A paid endpoint answers a request without payment with
+ * `402 Payment Required` and the payments it accepts; the client signs one,
+ * retries with it in the `X-PAYMENT` header, and the server verifies it,
+ * serves the resource, settles through its facilitator and reports the
+ * settlement in `X-PAYMENT-RESPONSE`. Both headers carry base64 JSON.
+ * Works on plain Fetch API `Request`/`Response` objects, so the server runs
+ * wherever those do — behind a service worker here.
+ */
+import { decodeBase64, encodeBase64, toUtf8Bytes, toUtf8String } from 'ethers';
+import { Facilitator, PaymentPayload, PaymentRequirements } from './localFacilitator';
+
+export const X402_VERSION = 1;
+export const PAYMENT_HEADER = 'X-PAYMENT';
+export const PAYMENT_RESPONSE_HEADER = 'X-PAYMENT-RESPONSE';
+
+/** Body of a 402 response */
+export interface PaymentRequiredBody {
+  x402Version: number;
+  error: string;
+  accepts: PaymentRequirements[];
+}
+
+/** Decoded `X-PAYMENT-RESPONSE` */
+export interface SettlementResponse {
+  success: boolean;
+  transaction: string;
+  network: string;
+  payer?: string;
+}
+
+const encodeHeader = (value: unknown) => encodeBase64(toUtf8Bytes(JSON.stringify(value)));
+const decodeHeader = <T>(header: string): T => JSON.parse(toUtf8String(decodeBase64(header)));
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const paymentRequired = (accepts: PaymentRequirements[], error: string) =>
+  json(402, { x402Version: X402_VERSION, error, accepts } satisfies PaymentRequiredBody);
+
+// ---- Server ----
+
+/**
+ * One paid resource. `path` may hold `:name` segments, which are passed to
+ * `serve` decoded.
+ */
+export interface PaidRoute {
+  method: 'GET' | 'POST';
+  path: string;
+  description: string;
+  /** What a request costs: one entry per token accepted, amounts in base units */
+  accepts: () => Array<{ asset: string; amount: string }>;
+  serve: (params: Record<string, string>, request: Request) => Promise<string>;
+}
+
+export interface PaidEndpointServerOptions {
+  network: { name: string; x402?: { verifyingContract?: string } };
+  facilitator: Facilitator;
+  payTo: string;
+  /** URL prefix the routes live under, e.g. `/x402/0xabc…` */
+  basePath: string;
+  routes: PaidRoute[];
+  /** Seconds a signed payment stays valid */
+  maxTimeoutSeconds?: number;
+  /** Called after a request has been served and its payment settled */
+  onSettled?: (route: PaidRoute, requirements: PaymentRequirements, settlement: SettlementResponse) => void;
+}
+
+export interface PaidEndpointServer {
+  readonly basePath: string;
+  handle(request: Request): Promise<Response>;
+}
+
+function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const want = pattern.split('/').filter(Boolean);
+  const got = path.split('/').filter(Boolean);
+  if (want.length !== got.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < want.length; i++) {
+    if (want[i].startsWith(':')) params[want[i].slice(1)] = decodeURIComponent(got[i]);
+    else if (want[i] !== got[i]) return null;
+  }
+  return params;
+}
+
+export function createPaidEndpointServer(options: PaidEndpointServerOptions): PaidEndpointServer {
+  const { network, facilitator, payTo, basePath, routes, maxTimeoutSeconds = 300, onSettled } = options;
+
+  const requirementsFor = (route: PaidRoute, resource: string): PaymentRequirements[] =>
+    route.accepts().map(({ asset, amount }) => ({
+      scheme: 'exact',
+      network: network.name,
+      asset,
+      payTo,
+      maxAmountRequired: amount,
+      maxTimeoutSeconds,
+      description: route.description,
+      resource,
+      relayerContract: network.x402?.verifyingContract || '',
+    }));
+
+  const handle = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    if (!url.pathname.startsWith(basePath)) return json(404, { error: 'Not found' });
+    const path = url.pathname.slice(basePath.length) || '/';
+
+    let route: PaidRoute | undefined;
+    let params: Record<string, string> | null = null;
+    for (const candidate of routes) {
+      params = candidate.method === request.method ? matchPath(candidate.path, path) : null;
+      if (params) { route = candidate; break; }
+    }
+    if (!route || !params) return json(404, { error: `No paid resource at ${request.method} ${path}` });
+
+    const resource = `${url.origin}${url.pathname}`;
+    const accepts = requirementsFor(route, resource);
+    const header = request.headers.get(PAYMENT_HEADER);
+    if (!header) return paymentRequired(accepts, `${PAYMENT_HEADER} header is required`);
+
+    let payload: PaymentPayload;
+    try {
+      payload = decodeHeader<PaymentPayload>(header);
+    } catch {
+      return paymentRequired(accepts, `Malformed ${PAYMENT_HEADER} header`);
+    }
+    const requirements = accepts.find(r => r.asset.toLowerCase() === payload.token?.toLowerCase());
+    if (!requirements) return paymentRequired(accepts, 'Payment is not in an accepted token');
+
+    const check = await facilitator.verify(payload, requirements);
+    if (!check.isValid) return paymentRequired(accepts, check.invalidReason ?? 'Payment did not verify');
+
+    // Serve before settling, so a failed handler never takes the payer's money
+    let body: string;
+    try {
+      body = await route.serve(params, request);
+    } catch (e: any) {
+      console.error(`❌ [x402] ${request.method} ${path} failed:`, e);
+      return json(500, { error: e.message });
+    }
+
+    const settled = await facilitator.settle(payload, requirements);
+    if (!settled.success || !settled.transaction) {
+      return paymentRequired(accepts, settled.errorReason ?? 'Settlement failed');
+    }
+    const settlement: SettlementResponse = {
+      success: true,
+      transaction: settled.transaction,
+      network: settled.network,
+      payer: settled.payer,
+    };
+    onSettled?.(route, requirements, settlement);
+    return new Response(body, {
+      status: 200,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8', [PAYMENT_RESPONSE_HEADER]: encodeHeader(settlement) },
+    });
+  };
+
+  return { basePath, handle };
+}
+
+// ---- Client ----
+
+export interface X402FetchOptions {
+  /** Sign a payment for the requirements picked by `select` */
+  pay: (requirements: PaymentRequirements) => Promise<PaymentPayload>;
+  /** Which of the accepted payments to make; null declines them all. Defaults to the first. */
+  select?: (accepts: PaymentRequirements[]) => PaymentRequirements | null;
+  fetch?: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+}
+
+export interface X402FetchResult {
+  response: Response;
+  /** What was paid, if the resource asked for payment */
+  paid: PaymentRequirements | null;
+  settlement: SettlementResponse | null;
+}
+
+/**
+ * Fetch a resource that may be behind x402: on a 402, pay one of the
+ * accepted requirements and retry once.
+ * @throws {Error} If the 402 is unreadable or none of its payments are acceptable
+ */
+export async function x402Fetch(input: string, init: RequestInit = {}, options: X402FetchOptions): Promise<X402FetchResult> {
+  const send = options.fetch ?? fetch;
+  const first = await send(input, init);
+  if (first.status !== 402) return { response: first, paid: null, settlement: null };
+
+  let offer: PaymentRequiredBody;
+  try {
+    offer = await first.json();
+  } catch {
+    throw new Error('402 response without payment requirements');
+  }
+  if (!Array.isArray(offer?.accepts) || offer.accepts.length === 0) throw new Error(`402 without payment requirements: ${offer?.error ?? 'no reason given'}`);
+
+  const requirements = (options.select ?? (accepts => accepts[0]))(offer.accepts);
+  if (!requirements) throw new Error(`None of the ${offer.accepts.length} accepted payments is acceptable`);
+
+  const payload = await options.pay(requirements);
+  const headers = new Headers(init.headers);
+  headers.set(PAYMENT_HEADER, encodeHeader(payload));
+  const response = await send(input, { ...init, headers });
+
+  const header = response.headers.get(PAYMENT_RESPONSE_HEADER);
+  let settlement: SettlementResponse | null = null;
+  if (header) {
+    try {
+      settlement = decodeHeader<SettlementResponse>(header);
+    } catch {
+      console.warn(`⚠️ [x402] Ignoring malformed ${PAYMENT_RESPONSE_HEADER} header`);
+    }
+  }
+  return { response, paid: requirements, settlement };
+}
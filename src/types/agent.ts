@@ -1,12 +1,78 @@
+export type AgentRole = 'employer' | 'freelancer';
+
+export type LLMProviderKind = 'openrouter' | 'openai-compatible' | 'mock';
+
+/**
+ * Which language model an agent talks through.
+ */
+export interface LLMConfig {
+  provider: LLMProviderKind;
+  model: string;
+  /** OpenAI-compatible servers only, e.g. http://localhost:11434/v1 for Ollama */
+  baseUrl?: string;
+  /** OpenAI-compatible servers only; OpenRouter uses VITE_OPENROUTER_API_KEY */
+  apiKey?: string;
+}
+
+/**
+ * Limits an agent's wallet enforces before it signs a payment. Amounts are
+ * whole units of whichever token is paid, and the caps count each token
+ * separately; null means no limit and an empty list allows everything.
+ */
+export interface SpendingPolicy {
+  maxPerTransaction: number | null;
+  /** Over the last 24 hours */
+  dailyCap: number | null;
+  /** Since the page was loaded */
+  sessionCap: number | null;
+  /** ERC-8004 agent IDs this agent may pay */
+  payeeAllowlist: string[];
+  /** Token symbols this agent may pay in */
+  allowedTokens: string[];
+  /** Payments, withdrawals and token approvals above this need the owner's approval */
+  approvalThreshold: number | null;
+}
+
+/**
+ * A locally managed agent: its registry ID and role. Its wallet key is in
+ * the keystore under the same ID.
+ */
+export interface AgentProfile {
+  id: string;
+  role: AgentRole;
+  label: string;
+  createdAt: number;
+  /** Missing on profiles saved before providers were selectable — means OpenRouter */
+  llm?: LLMConfig;
+  /** Missing means no limits */
+  policy?: SpendingPolicy;
+  /** Network name → the smart account this agent acts through there; missing means its own wallet */
+  smartAccounts?: Record<string, string>;
+}
+
+/**
+ * A structured commitment an agent made through a tool call, rather than
+ * something parsed out of its free text.
+ */
+export type PaymentIntent =
+  | { kind: 'send_payment'; amount: number; token: string; memo: string }
+  | { kind: 'accept_offer'; price: number; token: string };
+
 export interface AgentMessage {
   id: string;
-  from: 'agentA' | 'agentB';
-  to: 'agentA' | 'agentB';
+  from: string;
+  to: string;
   message: string;
   timestamp: Date;
-  type: 'message' | 'transaction' | 'payment' | 'feedback';
+  type: 'message' | 'transaction' | 'payment' | 'feedback' | 'validation' | 'escrow';
   txHash?: string;
   status?: 'pending' | 'success' | 'failed';
+  /** Tool call made alongside this message, already validated */
+  intent?: PaymentIntent;
+  /** True while an AI reply is still streaming in; `message` holds the text so far */
+  streaming?: boolean;
+  /** Address that signed the A2A envelope this message arrived in */
+  signedBy?: string;
 }
 
 export interface AgentState {
@@ -21,13 +87,42 @@ export interface AgentState {
   };
   isValidator: boolean;
   stakedAmount: string;
+  /** The agent's ERC-8004 `tokenURI` — where its agent card lives */
+  cardURI: string | null;
 }
 
+/**
+ * A transaction an agent wants to make that is waiting for the owner,
+ * decoded for display. Amounts are whole token units.
+ */
+export interface PendingApproval {
+  id: string;
+  agent: string;
+  kind: 'payment' | 'approval' | 'withdrawal';
+  amount: number;
+  token: string;
+  /** Recipient, or the spender of an approval */
+  counterparty: string;
+  counterpartyAgentId: string | null;
+  /** The call or signature it comes down to */
+  call: { contract: string; method: string; args: Array<{ name: string; value: string }> };
+  /** Whether the owner may change the amount, and within what bounds */
+  editable: { min?: number; max?: number } | null;
+  /** Why it needs approval */
+  reason: string;
+  requestedAt: Date;
+}
+
+/** The owner's answer; `amount` differs from the request when they edited it */
+export type ApprovalDecision =
+  | { approved: true; amount: number }
+  | { approved: false };
+
 export interface TransactionLog {
   id: string;
-  type: 'register' | 'payment' | 'feedback' | 'stake' | 'validation';
-  from: 'agentA' | 'agentB';
-  to?: 'agentA' | 'agentB';
+  type: 'register' | 'payment' | 'feedback' | 'stake' | 'validation' | 'card' | 'escrow_lock' | 'escrow_release' | 'escrow_refund' | 'approval' | 'allowance' | 'key_rotation' | 'session' | 'delegation';
+  from: string;
+  to?: string;
   txHash: string;
   status: 'pending' | 'success' | 'failed';
   timestamp: Date;
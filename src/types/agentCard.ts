@@ -0,0 +1,35 @@
+/**
+ * ERC-8004 registration file ("agent card") — the JSON an agent's
+ * `tokenURI` points at.
+ */
+export interface AgentCardEndpoint {
+  name: string;
+  endpoint: string;
+  version?: string;
+}
+
+export interface AgentCard {
+  type: 'https://eips.ethereum.org/EIPS/eip-8004#registration-v1';
+  name: string;
+  description: string;
+  image?: string;
+  /** Free-form capability tags other agents search by */
+  skills?: string[];
+  endpoints: AgentCardEndpoint[];
+  /** Filled in once the agent has an ID; empty on the first registration */
+  registrations: Array<{ agentId: number; agentRegistry: string }>;
+  supportedTrust: Array<'reputation' | 'crypto-economic' | 'tee-attestation'>;
+  /** How to pay this agent over x402; an extension, so other agents' cards may not have it */
+  x402?: {
+    scheme: 'exact';
+    /** CAIP-2 chain ID, e.g. eip155:43113 */
+    network: string;
+    asset: string;
+    payTo: string;
+    facilitator: string;
+    /** Asking price per task in whole units of `asset`, if the agent sells work */
+    price?: number;
+    /** Every token the agent will settle in, `asset` first */
+    accepts?: Array<{ symbol: string; asset: string; decimals: number }>;
+  };
+}
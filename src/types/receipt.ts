@@ -0,0 +1,37 @@
+/**
+ * Structured record of one settled payment, tying the on-chain transfer to
+ * the agents, the deal they agreed and the conversation it came from.
+ */
+export interface PaymentReceipt {
+  /** The settlement transaction hash */
+  id: string;
+  network: string;
+  chainId: number;
+  /** ISO timestamp of settlement */
+  issuedAt: string;
+  /** Direct x402 payment, escrow release (contract or held authorization), or a paid HTTP 402 request */
+  method: 'x402' | 'escrow' | 'http402';
+  payer: { name: string; agentId: string | null; address: string };
+  /** `name` is set when the payee is an agent in this page */
+  payee: { name?: string; agentId: string | null; address: string };
+  token: { symbol: string; address: string; decimals: number };
+  /** In whole token units */
+  amount: string;
+  amountBaseUnits: string;
+  /** Price and token both sides accepted in negotiation */
+  agreed?: { price: number; token: string };
+  /** A2A conversation thread the payment settles */
+  threadId?: string;
+  /** Hash of the signed receipt envelope, which chains every earlier envelope of the thread */
+  transcriptHash?: string;
+  /** Paid HTTP resource, for `http402` payments */
+  resource?: string;
+  /** What the facilitator answered; absent for escrow contract releases, settle-only for HTTP 402 (the payee verifies) */
+  facilitator?: {
+    verify?: { isValid: boolean; payer?: string; invalidReason?: string };
+    settle?: { success: boolean; transaction?: string; network: string; payer?: string; errorReason?: string };
+  };
+  txHash: string;
+  /** Filled in once the transaction is mined */
+  blockNumber: number | null;
+}
@@ -0,0 +1,100 @@
+import { AgentRole, PaymentIntent } from './agent';
+
+/**
+ * How a scenario presents one of the two agent roles.
+ * The employer is always the paying side, the freelancer the delivering side.
+ */
+export interface ScenarioRole {
+  label: string;
+  description: string;
+}
+
+export interface ScenarioPhase {
+  name: string;
+  /** Employer → freelancer exchanges in this phase. 0 = prompt-only (used after payment). */
+  exchanges: number;
+  /** System prompt lines per role. Supports {budget}, {quote}, {token}, {tokens} and {topics} placeholders. */
+  prompts: Record<AgentRole, string[]>;
+  /** Key into `Scenario.rules` appended to every prompt in this phase. Defaults to "default". */
+  rules?: string;
+  /** Reply length cap applied when sanitizing responses. Defaults to 500. */
+  maxLength?: number;
+  /** Payment tools each role may call in this phase (see services/paymentIntent). */
+  tools?: Partial<Record<AgentRole, PaymentIntent['kind'][]>>;
+}
+
+/**
+ * One canned reply for the scripted mock provider: plain text, or text plus
+ * a tool call. Strings support the same placeholders as prompts.
+ */
+export type MockTurn = string | {
+  text?: string;
+  tool?: { name: PaymentIntent['kind']; arguments: Record<string, unknown> };
+};
+
+/**
+ * Replies the mock provider replays, so a scenario runs offline.
+ */
+export interface ScenarioMock {
+  /** Phase name → role → replies, used in order by exchange and repeated if short */
+  phases: Record<string, Partial<Record<AgentRole, MockTurn[]>>>;
+  /** Reply to the review prompt; should contain the 0-100 score */
+  review?: string;
+}
+
+/**
+ * What the employer brings to the table; fills the prompt placeholders.
+ */
+export interface DealTerms {
+  /** Most the employer will pay, in whole units of `token` */
+  budget: number;
+  /** Token the employer proposes to pay in */
+  token: string;
+  /** Every token the network can settle in, i.e. what the two sides may agree on */
+  tokens: string[];
+  /** Set on metered runs: how many chunks the delivery comes in and what each one pays */
+  metering?: { chunks: number; chunkPrice: number };
+}
+
+/**
+ * Pay-as-you-go delivery: the freelancer delivers in chunks, one per
+ * delivery-phase exchange, and the employer pays for each as it arrives.
+ */
+export interface ScenarioMetering {
+  /** Chunks to deliver unless the run overrides it */
+  chunks: number;
+  /** Most a single chunk may cost, in whole token units, unless the run overrides it */
+  chunkPriceCap: number;
+  /** Delivery-phase prompt lines per role, used instead of the phase's own. Also supports {chunk}, {chunks} and {chunkPrice}. */
+  prompts: Record<AgentRole, string[]>;
+  /** Mock replies for the metered delivery, by chunk */
+  mock?: Partial<Record<AgentRole, MockTurn[]>>;
+}
+
+/**
+ * A declarative conversation script: who talks, in which phases,
+ * with which prompts, and where delivery and payment happen.
+ */
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  roles: Record<AgentRole, ScenarioRole>;
+  topics: string[];
+  /** Upper bound on the employer's budget, whatever its balance. */
+  budgetCap: number;
+  rules: Record<string, string[]>;
+  phases: ScenarioPhase[];
+  /** Phase whose freelancer output is the deliverable sent for validation. */
+  deliveryPhase: string;
+  /** Phase in which the employer pays; the conversation ends after it. */
+  paymentPhase: string;
+  /** Prompt-only phase for the employer's last message after payment. */
+  closingPhase?: string;
+  /** System prompt used to score the deliverable from 0-100. */
+  review: string[];
+  /** Canned replies for the offline mock provider */
+  mock?: ScenarioMock;
+  /** Makes the scenario runnable in metered mode */
+  metering?: ScenarioMetering;
+}
@@ -4,6 +4,14 @@ interface ImportMetaEnv {
   readonly VITE_AGENT_A_PRIVATE_KEY: string;
   readonly VITE_AGENT_B_PRIVATE_KEY: string;
   readonly VITE_OPENROUTER_API_KEY: string;
+  readonly VITE_A2A_RELAY_URL?: string;
+  readonly VITE_IPFS_API_URL?: string;
+  readonly VITE_IPFS_API_TOKEN?: string;
+  readonly VITE_DEFAULT_NETWORK?: string;
+  /** JSON keyed by network name, merged over the built-in network definitions */
+  readonly VITE_NETWORK_OVERRIDES?: string;
+  /** Seconds an agreed price stays escrowed before anyone can refund it */
+  readonly VITE_ESCROW_TIMEOUT_SECONDS?: string;
 }
 
 interface ImportMeta {